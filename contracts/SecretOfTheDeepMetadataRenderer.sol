@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+
+/**
+ * @title SecretOfTheDeepMetadataRenderer
+ * @dev Builds fully on-chain token metadata for SecretOfTheDeepNFT. Kept in its own
+ * contract so the NFT contract stays below the 24 KB deployment size limit.
+ */
+contract SecretOfTheDeepMetadataRenderer {
+    using Strings for uint256;
+
+    bytes16 private constant _HEX_DIGITS = "0123456789abcdef";
+
+    /**
+     * @dev Builds the metadata of a token as a base64 data: URI
+     * @param name The token name
+     * @param description The token description
+     * @param currentSupply The minted supply
+     * @param maxSupply The maximum supply
+     * @param imageTemplate SVG markup with {name}, {supply} and {maxSupply} placeholders
+     * @return The data: URI of the JSON document
+     */
+    function render(
+        string memory name,
+        string memory description,
+        uint256 currentSupply,
+        uint256 maxSupply,
+        string memory imageTemplate
+    ) external pure returns (string memory) {
+        string memory supply = currentSupply.toString();
+        string memory max = maxSupply.toString();
+
+        bytes memory image = _replaceAll(bytes(imageTemplate), "{name}", _escape(name, true));
+        image = _replaceAll(image, "{supply}", bytes(supply));
+        image = _replaceAll(image, "{maxSupply}", bytes(max));
+
+        bytes memory json = abi.encodePacked(
+            '{"name":"', _escape(name, false),
+            '","description":"', _escape(description, false),
+            '","image":"data:image/svg+xml;base64,', Base64.encode(image),
+            '","attributes":[{"trait_type":"Current Supply","display_type":"number","value":', supply,
+            ',"max_value":', max,
+            '},{"trait_type":"Max Supply","display_type":"number","value":', max, '}]}'
+        );
+
+        return string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    /**
+     * @dev Escapes a string for a JSON string value (quotes, backslashes and control
+     * characters), or for SVG text when xml is true
+     */
+    function _escape(string memory value, bool xml) internal pure returns (bytes memory output) {
+        bytes memory input = bytes(value);
+
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (xml && char == "&") {
+                output = bytes.concat(output, "&amp;");
+            } else if (xml && char == "<") {
+                output = bytes.concat(output, "&lt;");
+            } else if (xml && char == ">") {
+                output = bytes.concat(output, "&gt;");
+            } else if (!xml && (char == '"' || char == "\\")) {
+                output = bytes.concat(output, "\\", char);
+            } else if (!xml && char == "\n") {
+                output = bytes.concat(output, "\\n");
+            } else if (!xml && char == "\t") {
+                output = bytes.concat(output, "\\t");
+            } else if (!xml && uint8(char) < 0x20) {
+                output = bytes.concat(output, "\\u00", _HEX_DIGITS[uint8(char) >> 4], _HEX_DIGITS[uint8(char) & 0x0f]);
+            } else {
+                output = bytes.concat(output, char);
+            }
+        }
+    }
+
+    /**
+     * @dev Replaces every occurrence of placeholder in input with value
+     */
+    function _replaceAll(
+        bytes memory input,
+        bytes memory placeholder,
+        bytes memory value
+    ) internal pure returns (bytes memory output) {
+        uint256 start = 0;
+        uint256 i = 0;
+
+        while (i + placeholder.length <= input.length) {
+            bool matches = true;
+            for (uint256 j = 0; j < placeholder.length && matches; j++) {
+                matches = input[i + j] == placeholder[j];
+            }
+
+            if (matches) {
+                output = bytes.concat(output, _slice(input, start, i), value);
+                i += placeholder.length;
+                start = i;
+            } else {
+                i++;
+            }
+        }
+
+        return bytes.concat(output, _slice(input, start, input.length));
+    }
+
+    /**
+     * @dev Copies input[from:to]
+     */
+    function _slice(bytes memory input, uint256 from, uint256 to) internal pure returns (bytes memory result) {
+        result = new bytes(to - from);
+        for (uint256 i = from; i < to; i++) {
+            result[i - from] = input[i];
+        }
+    }
+}
@@ -2,8 +2,11 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
+import "./SecretOfTheDeepMetadataRenderer.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 /**
@@ -27,20 +30,29 @@ interface IUSDC is IERC20 {
  * @dev ERC-1155 contract for "Secret of the Deep" NFT collection
  * This contract allows for multiple token types with different metadata
  */
-contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
+contract SecretOfTheDeepNFT is ERC1155, ERC2981, AccessControl, Pausable, IERC4906 {
     using Strings for uint256;
     
+    // Roles; DEFAULT_ADMIN_ROLE creates tokens, sets the USDC address and manages the other roles
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+    bytes32 public constant METADATA_MANAGER_ROLE = keccak256("METADATA_MANAGER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+    
     // Contract metadata
     string public name = "Esantirion: Secret of the Deep";
     string public symbol = "ESOTD";
     
-    // Token metadata
+    // Token metadata; supplies and flags share one storage slot
     struct TokenInfo {
         string name;
         string description;
-        uint256 maxSupply;
-        uint256 currentSupply;
+        uint64 maxSupply;
+        uint64 currentSupply;
         bool isActive;
+        bool exists;
+        bool supplyFrozen;
     }
     
     // Mapping from token ID to token info
@@ -51,11 +63,29 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
     event TokenMinted(uint256 indexed tokenId, address indexed to, uint256 amount);
     event TokenBurned(uint256 indexed tokenId, address indexed from, uint256 amount);
     event TokenInfoUpdated(uint256 indexed tokenId, string name, string description);
+    event TokenDeactivated(uint256 indexed tokenId);
+    event TokenReactivated(uint256 indexed tokenId);
+    event MaxSupplyUpdated(uint256 indexed tokenId, uint256 oldMaxSupply, uint256 newMaxSupply);
+    event SupplyFrozen(uint256 indexed tokenId, uint256 maxSupply);
     event TokenPayback(uint256 indexed tokenId, address indexed from, uint256 tokenAmount, uint256 usdcAmount);
     
     // Base URI for metadata
     string private _baseURI;
     
+    // Per-token metadata URIs used instead of the base URI template, empty when not set
+    mapping(uint256 => string) public tokenURIOverride;
+    
+    // Fully on-chain metadata: uri() returns a data: URI built from tokenInfo and imageTemplate,
+    // for every token or only for the tokens switched on individually
+    bool public onChainMetadata;
+    mapping(uint256 => bool) public tokenOnChainMetadata;
+    
+    // SVG image of on-chain metadata; {name}, {supply} and {maxSupply} are filled in per token
+    string public imageTemplate;
+    
+    // Builds the on-chain metadata, deployed with this contract
+    SecretOfTheDeepMetadataRenderer public immutable metadataRenderer;
+    
     // Contract URI for collection metadata
     string private _contractURI = "https://raw.githubusercontent.com/davevurby/nft-secret-of-the-deep/refs/heads/main/metadata/contract.json";
     
@@ -67,8 +97,65 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
     event USDCWithdrawn(uint256 indexed amount, address indexed to);
     event DividendPaid(address indexed to, uint256 indexed amount);
     
-    constructor() ERC1155("") Ownable(msg.sender) {
+    // ERC-2981 royalties on secondary sales, fees in basis points
+    uint96 public constant DEFAULT_ROYALTY_BPS = 500;
+    
+    event DefaultRoyaltySet(address indexed receiver, uint96 feeBasisPoints);
+    event TokenRoyaltySet(uint256 indexed tokenId, address indexed receiver, uint96 feeBasisPoints);
+    event TokenRoyaltyReset(uint256 indexed tokenId);
+    
+    // Redemption request lifecycle
+    enum RedemptionStatus { None, Pending, Countered, Accepted, Rejected, Cancelled }
+    
+    // Holder-initiated buyback request; the tokens are held by the contract while it is open
+    struct RedemptionRequest {
+        address holder;
+        uint256 tokenId;
+        uint256 tokenAmount;
+        uint256 requestedUsdc;
+        uint256 counterUsdc;
+        RedemptionStatus status;
+    }
+    
+    // Mapping from redemption ID to request, IDs start at 1
+    mapping(uint256 => RedemptionRequest) public redemptions;
+    
+    // Number of redemption requests created, also the latest redemption ID
+    uint256 public redemptionCount;
+    
+    event RedemptionRequested(uint256 indexed redemptionId, address indexed holder, uint256 indexed tokenId, uint256 tokenAmount, uint256 requestedUsdc);
+    event RedemptionCountered(uint256 indexed redemptionId, uint256 counterUsdc);
+    event RedemptionAccepted(uint256 indexed redemptionId, uint256 usdcAmount);
+    event RedemptionRejected(uint256 indexed redemptionId);
+    event RedemptionCancelled(uint256 indexed redemptionId);
+    
+    // Transfer restrictions for regulated token types: holders of a restricted token
+    // type can only transfer it between allowlisted investors. Frozen accounts cannot
+    // send or receive any token. Mints, burns and redemption escrow returns are exempt.
+    mapping(uint256 => bool) public transferRestricted;
+    mapping(address => bool) public allowlisted;
+    mapping(address => bool) public frozenAccounts;
+    
+    event TransferRestrictionSet(uint256 indexed tokenId, bool restricted);
+    event AllowlistUpdated(address indexed account, bool allowed);
+    event AccountFrozen(address indexed account, bool frozen);
+    
+    constructor() ERC1155("") {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(MINTER_ROLE, msg.sender);
+        _grantRole(TREASURER_ROLE, msg.sender);
+        _grantRole(METADATA_MANAGER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(COMPLIANCE_ROLE, msg.sender);
+        
+        _setDefaultRoyalty(msg.sender, DEFAULT_ROYALTY_BPS);
+        emit DefaultRoyaltySet(msg.sender, DEFAULT_ROYALTY_BPS);
+        
         _baseURI = "https://raw.githubusercontent.com/davevurby/nft-secret-of-the-deep/refs/heads/main/metadata/{id}.json";
+        metadataRenderer = new SecretOfTheDeepMetadataRenderer();
+        imageTemplate = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 350 350"><rect width="350" height="350" fill="#0b1d33"/>'
+            '<text x="175" y="165" fill="#e8d9a8" font-family="serif" font-size="32" text-anchor="middle">{name}</text>'
+            '<text x="175" y="215" fill="#8fb3d9" font-family="serif" font-size="18" text-anchor="middle">{supply} / {maxSupply}</text></svg>';
         
         // Initialize some sample tokens
         _createToken(1, "GOLD", "Gold", 25);
@@ -87,9 +174,9 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
         uint256 tokenId,
         string memory name,
         string memory description,
-        uint256 maxSupply
-    ) external onlyOwner {
-        require(!tokenInfo[tokenId].isActive, "Token already exists");
+        uint64 maxSupply
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(!tokenInfo[tokenId].exists, "Token already exists");
         require(maxSupply > 0, "Max supply must be greater than 0");
         
         _createToken(tokenId, name, description, maxSupply);
@@ -101,14 +188,8 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
      * @param tokenId The ID of the token to mint
      * @param amount The amount to mint
      */
-    function mint(address to, uint256 tokenId, uint256 amount) external onlyOwner {
-        require(tokenInfo[tokenId].isActive, "Token does not exist");
-        require(
-            tokenInfo[tokenId].currentSupply + amount <= tokenInfo[tokenId].maxSupply,
-            "Exceeds max supply"
-        );
-        
-        tokenInfo[tokenId].currentSupply += amount;
+    function mint(address to, uint256 tokenId, uint256 amount) external onlyRole(MINTER_ROLE) whenNotPaused {
+        _reserveSupply(tokenId, amount);
         _mint(to, tokenId, amount, "");
         
         emit TokenMinted(tokenId, to, amount);
@@ -124,17 +205,11 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
         address to,
         uint256[] memory tokenIds,
         uint256[] memory amounts
-    ) external onlyOwner {
+    ) external onlyRole(MINTER_ROLE) whenNotPaused {
         require(tokenIds.length == amounts.length, "Arrays length mismatch");
         
         for (uint256 i = 0; i < tokenIds.length; i++) {
-            require(tokenInfo[tokenIds[i]].isActive, "Token does not exist");
-            require(
-                tokenInfo[tokenIds[i]].currentSupply + amounts[i] <= tokenInfo[tokenIds[i]].maxSupply,
-                "Exceeds max supply"
-            );
-            
-            tokenInfo[tokenIds[i]].currentSupply += amounts[i];
+            _reserveSupply(tokenIds[i], amounts[i]);
         }
         
         _mintBatch(to, tokenIds, amounts, "");
@@ -144,6 +219,31 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
         }
     }
     
+    /**
+     * @dev Mints tokens to multiple addresses in one transaction
+     * @param recipients The addresses to mint to
+     * @param tokenIds The ID of the token to mint for each recipient
+     * @param amounts The amount to mint for each recipient
+     */
+    function mintToMany(
+        address[] memory recipients,
+        uint256[] memory tokenIds,
+        uint256[] memory amounts
+    ) external onlyRole(MINTER_ROLE) whenNotPaused {
+        require(
+            recipients.length == tokenIds.length && tokenIds.length == amounts.length,
+            "Arrays length mismatch"
+        );
+        require(recipients.length > 0, "No recipients");
+        
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _reserveSupply(tokenIds[i], amounts[i]);
+            _mint(recipients[i], tokenIds[i], amounts[i], "");
+            
+            emit TokenMinted(tokenIds[i], recipients[i], amounts[i]);
+        }
+    }
+    
     /**
      * @dev Burns tokens from a specific address
      * @param from The address to burn from
@@ -152,50 +252,127 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
      */
     function burn(address from, uint256 tokenId, uint256 amount) external {
         require(
-            msg.sender == from || msg.sender == owner(),
+            msg.sender == from || hasRole(MINTER_ROLE, msg.sender),
             "Not authorized to burn"
         );
+        require(from != address(this), "Tokens are locked for redemption");
         
-        tokenInfo[tokenId].currentSupply -= amount;
+        tokenInfo[tokenId].currentSupply = uint64(tokenInfo[tokenId].currentSupply - amount);
         _burn(from, tokenId, amount);
         
         emit TokenBurned(tokenId, from, amount);
     }
     
     /**
-     * @dev Payback function - owner buys back tokens for specified USDC amount
+     * @dev Payback function - treasurer buys back tokens for specified USDC amount
      * @param from The address to buy back from
      * @param tokenId The ID of the token to buy back
      * @param tokenAmount The amount of tokens to buy back
      * @param usdcAmount The USDC amount to pay (with 6 decimals)
      */
-    function payback(address from, uint256 tokenId, uint256 tokenAmount, uint256 usdcAmount) external onlyOwner {
-        require(tokenInfo[tokenId].isActive, "Token does not exist");
+    function payback(address from, uint256 tokenId, uint256 tokenAmount, uint256 usdcAmount) external onlyRole(TREASURER_ROLE) whenNotPaused {
+        require(from != address(this), "Tokens are locked for redemption");
+        _payback(from, from, tokenId, tokenAmount, usdcAmount);
+    }
+    
+    /**
+     * @dev Requests a buyback of the caller's tokens at a given USDC price.
+     * The tokens are locked in the contract until the request is settled, rejected or cancelled.
+     * @param tokenId The ID of the token to redeem
+     * @param tokenAmount The amount of tokens to redeem
+     * @param requestedUsdc The requested USDC amount (with 6 decimals)
+     * @return redemptionId The ID of the new request
+     */
+    function requestRedemption(uint256 tokenId, uint256 tokenAmount, uint256 requestedUsdc) external returns (uint256 redemptionId) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
         require(tokenAmount > 0, "Token amount must be greater than 0");
-        require(balanceOf(from, tokenId) >= tokenAmount, "Insufficient token balance");
-        require(usdcAmount > 0, "USDC amount must be greater than 0");
+        require(requestedUsdc > 0, "USDC amount must be greater than 0");
+        require(balanceOf(msg.sender, tokenId) >= tokenAmount, "Insufficient token balance");
+        
+        redemptionId = ++redemptionCount;
+        redemptions[redemptionId] = RedemptionRequest({
+            holder: msg.sender,
+            tokenId: tokenId,
+            tokenAmount: tokenAmount,
+            requestedUsdc: requestedUsdc,
+            counterUsdc: 0,
+            status: RedemptionStatus.Pending
+        });
         
-        // Check if contract has enough USDC
-        IUSDC usdc = IUSDC(usdcAddress);
-        require(usdc.balanceOf(address(this)) >= usdcAmount, "Insufficient USDC balance");
+        _moveLockedTokens(msg.sender, address(this), tokenId, tokenAmount);
         
-        // Burn tokens
-        tokenInfo[tokenId].currentSupply -= tokenAmount;
-        _burn(from, tokenId, tokenAmount);
+        emit RedemptionRequested(redemptionId, msg.sender, tokenId, tokenAmount, requestedUsdc);
+    }
+    
+    /**
+     * @dev Accepts a redemption request at the holder's requested price (treasurer only)
+     * @param redemptionId The ID of the request
+     */
+    function acceptRedemption(uint256 redemptionId) external onlyRole(TREASURER_ROLE) {
+        RedemptionRequest storage request = _openRedemption(redemptionId);
+        _settleRedemption(redemptionId, request, request.requestedUsdc);
+    }
+    
+    /**
+     * @dev Offers a different USDC price for a redemption request (treasurer only)
+     * @param redemptionId The ID of the request
+     * @param counterUsdc The offered USDC amount (with 6 decimals)
+     */
+    function counterRedemption(uint256 redemptionId, uint256 counterUsdc) external onlyRole(TREASURER_ROLE) {
+        require(counterUsdc > 0, "USDC amount must be greater than 0");
         
-        // Transfer USDC to the token holder
-        require(usdc.transfer(from, usdcAmount), "USDC transfer failed");
+        RedemptionRequest storage request = _openRedemption(redemptionId);
+        request.counterUsdc = counterUsdc;
+        request.status = RedemptionStatus.Countered;
         
-        emit TokenBurned(tokenId, from, tokenAmount);
-        emit TokenPayback(tokenId, from, tokenAmount, usdcAmount);
+        emit RedemptionCountered(redemptionId, counterUsdc);
+    }
+    
+    /**
+     * @dev Rejects a redemption request and returns the tokens to the holder (treasurer only)
+     * @param redemptionId The ID of the request
+     */
+    function rejectRedemption(uint256 redemptionId) external onlyRole(TREASURER_ROLE) {
+        RedemptionRequest storage request = _openRedemption(redemptionId);
+        request.status = RedemptionStatus.Rejected;
+        
+        _moveLockedTokens(address(this), request.holder, request.tokenId, request.tokenAmount);
+        
+        emit RedemptionRejected(redemptionId);
+    }
+    
+    /**
+     * @dev Accepts the treasurer's counter-offer on the caller's redemption request
+     * @param redemptionId The ID of the request
+     */
+    function acceptCounterOffer(uint256 redemptionId) external {
+        RedemptionRequest storage request = redemptions[redemptionId];
+        require(request.holder == msg.sender, "Not the redemption holder");
+        require(request.status == RedemptionStatus.Countered, "No counter-offer to accept");
+        
+        _settleRedemption(redemptionId, request, request.counterUsdc);
+    }
+    
+    /**
+     * @dev Cancels the caller's open redemption request and returns the tokens
+     * @param redemptionId The ID of the request
+     */
+    function cancelRedemption(uint256 redemptionId) external {
+        RedemptionRequest storage request = _openRedemption(redemptionId);
+        require(request.holder == msg.sender, "Not the redemption holder");
+        request.status = RedemptionStatus.Cancelled;
+        
+        _moveLockedTokens(address(this), request.holder, request.tokenId, request.tokenAmount);
+        
+        emit RedemptionCancelled(redemptionId);
     }
 
     /**
-     * @dev Dividend payout function - owner sends USDC to specified address
+     * @dev Dividend payout function - treasurer sends USDC to specified address
      * @param to The address to send USDC to
      * @param usdcAmount The USDC amount to send (with 6 decimals)
      */
-    function payDividend(address to, uint256 usdcAmount) external onlyOwner {
+    function payDividend(address to, uint256 usdcAmount) external onlyRole(TREASURER_ROLE) whenNotPaused {
         require(to != address(0), "Invalid recipient address");
         require(usdcAmount > 0, "USDC amount must be greater than 0");
         
@@ -209,6 +386,34 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
         emit DividendPaid(to, usdcAmount);
     }
     
+    /**
+     * @dev Batch dividend payout function - treasurer sends USDC to multiple addresses
+     * @param recipients The addresses to send USDC to
+     * @param usdcAmounts The USDC amounts to send to each recipient (with 6 decimals)
+     */
+    function payDividendBatch(address[] memory recipients, uint256[] memory usdcAmounts) external onlyRole(TREASURER_ROLE) whenNotPaused {
+        require(recipients.length == usdcAmounts.length, "Arrays length mismatch");
+        require(recipients.length > 0, "No recipients");
+        
+        uint256 totalAmount = 0;
+        for (uint256 i = 0; i < usdcAmounts.length; i++) {
+            totalAmount += usdcAmounts[i];
+        }
+        
+        // Check if contract has enough USDC for the whole batch
+        IUSDC usdc = IUSDC(usdcAddress);
+        require(usdc.balanceOf(address(this)) >= totalAmount, "Insufficient USDC balance");
+        
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "Invalid recipient address");
+            require(usdcAmounts[i] > 0, "USDC amount must be greater than 0");
+            
+            require(usdc.transfer(recipients[i], usdcAmounts[i]), "USDC transfer failed");
+            
+            emit DividendPaid(recipients[i], usdcAmounts[i]);
+        }
+    }
+    
     /**
      * @dev Get current USDC balance of the contract
      * @return The current USDC balance (with 6 decimals)
@@ -219,31 +424,31 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
     }
     
     /**
-     * @dev Emergency function to withdraw USDC from contract to owner (owner only)
+     * @dev Emergency function to withdraw USDC from contract to the caller (treasurer only)
      * @param amount The amount of USDC to withdraw
      */
-    function withdrawUSDC(uint256 amount) external onlyOwner {
+    function withdrawUSDC(uint256 amount) external onlyRole(TREASURER_ROLE) whenNotPaused {
         require(amount > 0, "Amount must be greater than 0");
         
         IUSDC usdc = IUSDC(usdcAddress);
         require(usdc.balanceOf(address(this)) >= amount, "Insufficient USDC balance");
         
-        require(usdc.transfer(owner(), amount), "USDC transfer failed");
+        require(usdc.transfer(msg.sender, amount), "USDC transfer failed");
         
-        emit USDCWithdrawn(amount, owner());
+        emit USDCWithdrawn(amount, msg.sender);
     }
 
     /**
-     * @dev Add USDC to contract for payback functionality (owner only)
+     * @dev Add USDC to contract for payback functionality (treasurer only)
      * @param amount The amount of USDC to add to contract
      */
-    function addUSDC(uint256 amount) external onlyOwner {
+    function addUSDC(uint256 amount) external onlyRole(TREASURER_ROLE) {
         require(amount > 0, "Amount must be greater than 0");
         
         IUSDC usdc = IUSDC(usdcAddress);
         require(usdc.balanceOf(msg.sender) >= amount, "Insufficient USDC balance in wallet");
         
-        // Transfer USDC from owner to contract
+        // Transfer USDC from treasurer to contract
         require(usdc.transferFrom(msg.sender, address(this), amount), "USDC transfer failed");
         
         emit USDCAdded(amount, msg.sender);
@@ -259,8 +464,8 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
         uint256 tokenId,
         string memory name,
         string memory description
-    ) external onlyOwner {
-        require(tokenInfo[tokenId].isActive, "Token does not exist");
+    ) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
         
         tokenInfo[tokenId].name = name;
         tokenInfo[tokenId].description = description;
@@ -269,91 +474,336 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
         emit MetadataUpdate(tokenId);
     }
     
+    /**
+     * @dev Retires a token type: no more tokens can be minted, existing tokens can
+     * still be transferred, burned and redeemed (admin only)
+     * @param tokenId The ID of the token
+     */
+    function deactivateToken(uint256 tokenId) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        require(tokenInfo[tokenId].isActive, "Token is not active");
+        
+        tokenInfo[tokenId].isActive = false;
+        
+        emit TokenDeactivated(tokenId);
+    }
+    
+    /**
+     * @dev Allows minting of a retired token type again (admin only)
+     * @param tokenId The ID of the token
+     */
+    function reactivateToken(uint256 tokenId) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        require(!tokenInfo[tokenId].isActive, "Token is already active");
+        
+        tokenInfo[tokenId].isActive = true;
+        
+        emit TokenReactivated(tokenId);
+    }
+    
+    /**
+     * @dev Raises or lowers the maximum supply of a token type (admin only)
+     * @param tokenId The ID of the token
+     * @param newMaxSupply The new maximum supply, at least the current supply
+     */
+    function setMaxSupply(uint256 tokenId, uint64 newMaxSupply) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        TokenInfo storage info = tokenInfo[tokenId];
+        require(info.exists, "Token does not exist");
+        require(!info.supplyFrozen, "Supply is frozen");
+        require(newMaxSupply > 0, "Max supply must be greater than 0");
+        require(newMaxSupply >= info.currentSupply, "Max supply below current supply");
+        
+        uint256 oldMaxSupply = info.maxSupply;
+        info.maxSupply = newMaxSupply;
+        
+        emit MaxSupplyUpdated(tokenId, oldMaxSupply, newMaxSupply);
+        emit MetadataUpdate(tokenId);
+    }
+    
+    /**
+     * @dev Permanently locks the maximum supply of a token type. Cannot be undone (admin only)
+     * @param tokenId The ID of the token
+     */
+    function freezeSupply(uint256 tokenId) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        require(!tokenInfo[tokenId].supplyFrozen, "Supply is frozen");
+        
+        tokenInfo[tokenId].supplyFrozen = true;
+        
+        emit SupplyFrozen(tokenId, tokenInfo[tokenId].maxSupply);
+    }
+    
     /**
      * @dev Sets the base URI for metadata
      * @param newBaseURI The new base URI
      */
-    function setBaseURI(string memory newBaseURI) external onlyOwner {
+    function setBaseURI(string memory newBaseURI) external onlyRole(METADATA_MANAGER_ROLE) {
         _baseURI = newBaseURI;
         emit BatchMetadataUpdate(0, type(uint256).max);
     }
     
     /**
-     * @dev Converts uint256 to 64-character hex string with leading zeros
-     * @param value The uint256 value to convert
-     * @return The 64-character hex string
+     * @dev Returns the base URI template, with the {id} placeholder
+     * @return The base URI template
      */
-    function _toHexString(uint256 value) internal pure returns (string memory) {
-        if (value == 0) {
-            return "0000000000000000000000000000000000000000000000000000000000000000";
-        }
-        
-        uint256 temp = value;
-        uint256 digits = 0;
-        while (temp != 0) {
-            digits++;
-            temp >>= 4;
-        }
+    function baseURITemplate() external view returns (string memory) {
+        return _baseURI;
+    }
+    
+    /**
+     * @dev Sets the metadata URI of a single token, used instead of the base URI template
+     * (metadata manager only). Pass an empty string to clear it.
+     * @param tokenId The ID of the token
+     * @param tokenURI The full metadata URI of the token
+     */
+    function setTokenURI(uint256 tokenId, string memory tokenURI) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
         
-        bytes memory buffer = new bytes(64);
-        for (uint256 i = 64; i > 0; i--) {
-            buffer[i - 1] = _HEX_SYMBOLS[value & 0xf];
-            value >>= 4;
-        }
+        tokenURIOverride[tokenId] = tokenURI;
         
-        return string(buffer);
+        emit URI(uri(tokenId), tokenId);
+        emit MetadataUpdate(tokenId);
     }
     
-    // Hex symbols for conversion
-    bytes16 private constant _HEX_SYMBOLS = "0123456789abcdef";
-
     /**
-     * @dev Returns the URI for a token ID
+     * @dev Returns the URI for a token ID: on-chain metadata if switched on, otherwise
+     * the token's URI override, otherwise the base URI template
      * @param tokenId The ID of the token
      * @return The URI of the token
      */
     function uri(uint256 tokenId) public view virtual override returns (string memory) {
-        require(tokenInfo[tokenId].isActive, "Token does not exist");
-        
-        // Replace {id} placeholder with actual tokenId in 64-char hex format
-        string memory template = _baseURI;
-        bytes memory templateBytes = bytes(template);
-        bytes memory result = new bytes(templateBytes.length + 64); // 64 chars for hex
-        
-        uint256 resultIndex = 0;
-        for (uint256 i = 0; i < templateBytes.length; i++) {
-            if (i < templateBytes.length - 3) {
-                // Check for {id} pattern
-                if (templateBytes[i] == 0x7b && // '{'
-                    templateBytes[i + 1] == 0x69 && // 'i'
-                    templateBytes[i + 2] == 0x64 && // 'd'
-                    templateBytes[i + 3] == 0x7d) { // '}'
-                    
-                    // Replace {id} with tokenId in 64-char hex format
-                    string memory tokenIdStr = _toHexString(tokenId);
-                    bytes memory tokenIdBytes = bytes(tokenIdStr);
-                    for (uint256 j = 0; j < tokenIdBytes.length; j++) {
-                        result[resultIndex] = tokenIdBytes[j];
-                        resultIndex++;
-                    }
-                    i += 3; // Skip the rest of {id}
-                } else {
-                    result[resultIndex] = templateBytes[i];
-                    resultIndex++;
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        
+        if (onChainMetadata || tokenOnChainMetadata[tokenId]) {
+            return _onChainURI(tokenId);
+        }
+        
+        string memory tokenURI = tokenURIOverride[tokenId];
+        if (bytes(tokenURI).length > 0) {
+            return tokenURI;
+        }
+        
+        return _substituteId(_baseURI, tokenId);
+    }
+    
+    /**
+     * @dev Replaces every {id} in a template with the token ID as 64 lowercase hex
+     * characters, as ERC-1155 clients expect. Builds the result in a single pass at
+     * the free memory pointer: text between placeholders is copied a word at a time,
+     * and the hex ID is written as 64 '0' characters with only its significant
+     * nibbles filled in.
+     */
+    function _substituteId(string memory template, uint256 tokenId) internal pure returns (string memory result) {
+        assembly ("memory-safe") {
+            result := mload(0x40)
+            let dst := add(result, 32)
+            let segment := add(template, 32)
+            let end := add(segment, mload(template))
+            
+            for { let p := segment } lt(add(p, 3), end) {} {
+                // "{id}" read as a big-endian 4-byte word
+                if iszero(eq(shr(224, mload(p)), 0x7b69647d)) {
+                    p := add(p, 1)
+                    continue
+                }
+                
+                let length := sub(p, segment)
+                for { let i := 0 } lt(i, length) { i := add(i, 32) } {
+                    mstore(add(dst, i), mload(add(segment, i)))
                 }
-            } else {
-                result[resultIndex] = templateBytes[i];
-                resultIndex++;
+                dst := add(dst, length)
+                
+                mstore(dst, 0x3030303030303030303030303030303030303030303030303030303030303030)
+                mstore(add(dst, 32), 0x3030303030303030303030303030303030303030303030303030303030303030)
+                let value := tokenId
+                for { let q := add(dst, 63) } value { q := sub(q, 1) } {
+                    mstore8(q, byte(and(value, 0xf), 0x3031323334353637383961626364656600000000000000000000000000000000))
+                    value := shr(4, value)
+                }
+                dst := add(dst, 64)
+                
+                p := add(p, 4)
+                segment := p
+            }
+            
+            let length := sub(end, segment)
+            for { let i := 0 } lt(i, length) { i := add(i, 32) } {
+                mstore(add(dst, i), mload(add(segment, i)))
             }
+            dst := add(dst, length)
+            
+            // Zero the padding after the string, then allocate it
+            mstore(dst, 0)
+            mstore(result, sub(dst, add(result, 32)))
+            mstore(0x40, and(add(dst, 31), not(31)))
+        }
+    }
+    
+    /**
+     * @dev Switches every token to on-chain metadata, or back to the base URI (metadata manager only)
+     * @param enabled True to serve data: URIs built from tokenInfo and imageTemplate
+     */
+    function setOnChainMetadata(bool enabled) external onlyRole(METADATA_MANAGER_ROLE) {
+        onChainMetadata = enabled;
+        emit BatchMetadataUpdate(0, type(uint256).max);
+    }
+    
+    /**
+     * @dev Switches a single token to on-chain metadata (metadata manager only).
+     * Has no effect while onChainMetadata is enabled for the whole collection.
+     * @param tokenId The ID of the token
+     * @param enabled True to serve a data: URI for this token
+     */
+    function setTokenOnChainMetadata(uint256 tokenId, bool enabled) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        
+        tokenOnChainMetadata[tokenId] = enabled;
+        emit MetadataUpdate(tokenId);
+    }
+    
+    /**
+     * @dev Sets the SVG image template of on-chain metadata (metadata manager only)
+     * @param newTemplate SVG markup with {name}, {supply} and {maxSupply} placeholders
+     */
+    function setImageTemplate(string memory newTemplate) external onlyRole(METADATA_MANAGER_ROLE) {
+        imageTemplate = newTemplate;
+        emit BatchMetadataUpdate(0, type(uint256).max);
+    }
+    
+    /**
+     * @dev Builds the on-chain metadata of a token as a base64 data: URI
+     * @param tokenId The ID of the token
+     * @return The data: URI of the JSON document
+     */
+    function _onChainURI(uint256 tokenId) internal view returns (string memory) {
+        TokenInfo storage info = tokenInfo[tokenId];
+        return metadataRenderer.render(info.name, info.description, info.currentSupply, info.maxSupply, imageTemplate);
+    }
+    
+    /**
+     * @dev Halts transfers, mints, burns, paybacks, redemption settlements, dividends and
+     * USDC withdrawals (pauser only). Still available while paused: returning escrowed
+     * redemption tokens (reject/cancel), counter-offers, addUSDC, metadata and token
+     * management, and role management.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+    
+    /**
+     * @dev Resumes normal operation (pauser only)
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+    
+    /**
+     * @dev Restricts transfers of a token type to allowlisted investors (compliance only)
+     * @param tokenId The ID of the token
+     * @param restricted True to only allow transfers between allowlisted accounts
+     */
+    function setTransferRestricted(uint256 tokenId, bool restricted) external onlyRole(COMPLIANCE_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        
+        transferRestricted[tokenId] = restricted;
+        
+        emit TransferRestrictionSet(tokenId, restricted);
+    }
+    
+    /**
+     * @dev Adds accounts to or removes them from the investor allowlist (compliance only)
+     * @param accounts The accounts to update
+     * @param allowed True to allowlist the accounts, false to remove them
+     */
+    function setAllowlisted(address[] memory accounts, bool allowed) external onlyRole(COMPLIANCE_ROLE) {
+        for (uint256 i = 0; i < accounts.length; i++) {
+            allowlisted[accounts[i]] = allowed;
+            emit AllowlistUpdated(accounts[i], allowed);
         }
+    }
+    
+    /**
+     * @dev Freezes or unfreezes an account; a frozen account cannot send or receive tokens (compliance only)
+     * @param account The account to update
+     * @param frozen True to freeze the account
+     */
+    function setAccountFrozen(address account, bool frozen) external onlyRole(COMPLIANCE_ROLE) {
+        frozenAccounts[account] = frozen;
         
-        // Trim the result to actual length
-        bytes memory finalResult = new bytes(resultIndex);
-        for (uint256 i = 0; i < resultIndex; i++) {
-            finalResult[i] = result[i];
+        emit AccountFrozen(account, frozen);
+    }
+    
+    /**
+     * @dev Blocks every token movement while paused, except escrowed redemption tokens
+     * going back to their holder. Holder-to-holder transfers must also pass the
+     * freeze and allowlist checks.
+     */
+    function _update(address from, address to, uint256[] memory ids, uint256[] memory values) internal virtual override {
+        if (from != address(this) || to == address(0)) {
+            _requireNotPaused();
+        }
+        if (from != address(0) && to != address(0) && from != address(this)) {
+            _checkTransferAllowed(from, to, ids);
+        }
+        super._update(from, to, ids, values);
+    }
+    
+    /**
+     * @dev Reverts unless a transfer passes the freeze and allowlist checks. Moving tokens
+     * into redemption escrow only needs the holder to be unfrozen.
+     */
+    function _checkTransferAllowed(address from, address to, uint256[] memory ids) internal view {
+        require(!frozenAccounts[from], "Sender is frozen");
+        require(!frozenAccounts[to], "Recipient is frozen");
+        if (to == address(this)) {
+            return;
         }
         
-        return string(finalResult);
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (transferRestricted[ids[i]]) {
+                require(allowlisted[from], "Sender not allowlisted");
+                require(allowlisted[to], "Recipient not allowlisted");
+            }
+        }
+    }
+    
+    /**
+     * @dev Sets the royalty paid on secondary sales of every token without an override (admin only)
+     * @param receiver The address receiving royalties
+     * @param feeBasisPoints The royalty in basis points (500 = 5%)
+     */
+    function setDefaultRoyalty(address receiver, uint96 feeBasisPoints) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setDefaultRoyalty(receiver, feeBasisPoints);
+        emit DefaultRoyaltySet(receiver, feeBasisPoints);
+    }
+    
+    /**
+     * @dev Overrides the royalty of a single token ID (admin only)
+     * @param tokenId The ID of the token
+     * @param receiver The address receiving royalties
+     * @param feeBasisPoints The royalty in basis points (500 = 5%)
+     */
+    function setTokenRoyalty(uint256 tokenId, address receiver, uint96 feeBasisPoints) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        _setTokenRoyalty(tokenId, receiver, feeBasisPoints);
+        emit TokenRoyaltySet(tokenId, receiver, feeBasisPoints);
+    }
+    
+    /**
+     * @dev Removes a token's royalty override so the default applies again (admin only)
+     * @param tokenId The ID of the token
+     */
+    function resetTokenRoyalty(uint256 tokenId) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        _resetTokenRoyalty(tokenId);
+        emit TokenRoyaltyReset(tokenId);
+    }
+    
+    /**
+     * @dev See {IERC165-supportsInterface}
+     */
+    function supportsInterface(bytes4 interfaceId) public view virtual override(ERC1155, ERC2981, AccessControl) returns (bool) {
+        return super.supportsInterface(interfaceId);
     }
     
     /**
@@ -363,14 +813,18 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
      * @return description The description of the token
      * @return maxSupply The maximum supply
      * @return currentSupply The current supply
-     * @return isActive Whether the token is active
+     * @return isActive Whether new tokens can be minted
+     * @return exists Whether the token type was created
+     * @return supplyFrozen Whether the maximum supply is locked for good
      */
     function getTokenInfo(uint256 tokenId) external view returns (
         string memory name,
         string memory description,
         uint256 maxSupply,
         uint256 currentSupply,
-        bool isActive
+        bool isActive,
+        bool exists,
+        bool supplyFrozen
     ) {
         TokenInfo memory info = tokenInfo[tokenId];
         return (
@@ -378,10 +832,82 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
             info.description,
             info.maxSupply,
             info.currentSupply,
-            info.isActive
+            info.isActive,
+            info.exists,
+            info.supplyFrozen
+        );
+    }
+    
+    /**
+     * @dev Burns tokens held by `from` and pays `holder` for them in USDC
+     */
+    function _payback(address from, address holder, uint256 tokenId, uint256 tokenAmount, uint256 usdcAmount) internal {
+        require(tokenInfo[tokenId].exists, "Token does not exist");
+        require(tokenAmount > 0, "Token amount must be greater than 0");
+        require(balanceOf(from, tokenId) >= tokenAmount, "Insufficient token balance");
+        require(usdcAmount > 0, "USDC amount must be greater than 0");
+        
+        // Check if contract has enough USDC
+        IUSDC usdc = IUSDC(usdcAddress);
+        require(usdc.balanceOf(address(this)) >= usdcAmount, "Insufficient USDC balance");
+        
+        // Burn tokens
+        tokenInfo[tokenId].currentSupply = uint64(tokenInfo[tokenId].currentSupply - tokenAmount);
+        _burn(from, tokenId, tokenAmount);
+        
+        // Transfer USDC to the token holder
+        require(usdc.transfer(holder, usdcAmount), "USDC transfer failed");
+        
+        emit TokenBurned(tokenId, holder, tokenAmount);
+        emit TokenPayback(tokenId, holder, tokenAmount, usdcAmount);
+    }
+    
+    /**
+     * @dev Returns a redemption request that can still be accepted, countered, rejected or cancelled
+     */
+    function _openRedemption(uint256 redemptionId) internal view returns (RedemptionRequest storage request) {
+        request = redemptions[redemptionId];
+        require(
+            request.status == RedemptionStatus.Pending || request.status == RedemptionStatus.Countered,
+            "Redemption not open"
         );
     }
     
+    /**
+     * @dev Burns the locked tokens of a redemption request and pays the holder
+     */
+    function _settleRedemption(uint256 redemptionId, RedemptionRequest storage request, uint256 usdcAmount) internal {
+        request.status = RedemptionStatus.Accepted;
+        _payback(address(this), request.holder, request.tokenId, request.tokenAmount, usdcAmount);
+        
+        emit RedemptionAccepted(redemptionId, usdcAmount);
+    }
+    
+    /**
+     * @dev Moves tokens into or out of redemption escrow. Uses _update directly, so the
+     * contract does not need to be an ERC1155 receiver and cannot receive tokens otherwise.
+     */
+    function _moveLockedTokens(address from, address to, uint256 tokenId, uint256 amount) internal {
+        uint256[] memory ids = new uint256[](1);
+        uint256[] memory values = new uint256[](1);
+        ids[0] = tokenId;
+        values[0] = amount;
+        _update(from, to, ids, values);
+    }
+    
+    /**
+     * @dev Checks that a token can be minted and adds the amount to its supply
+     */
+    function _reserveSupply(uint256 tokenId, uint256 amount) internal {
+        TokenInfo storage info = tokenInfo[tokenId];
+        require(info.exists, "Token does not exist");
+        require(info.isActive, "Token is not active");
+        uint256 newSupply = info.currentSupply + amount;
+        require(newSupply <= info.maxSupply, "Exceeds max supply");
+        
+        info.currentSupply = uint64(newSupply);
+    }
+    
     /**
      * @dev Internal function to create a token
      */
@@ -389,14 +915,16 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
         uint256 tokenId,
         string memory name,
         string memory description,
-        uint256 maxSupply
+        uint64 maxSupply
     ) internal {
         tokenInfo[tokenId] = TokenInfo({
             name: name,
             description: description,
             maxSupply: maxSupply,
             currentSupply: 0,
-            isActive: true
+            isActive: true,
+            exists: true,
+            supplyFrozen: false
         });
         
         emit TokenCreated(tokenId, name, maxSupply);
@@ -406,7 +934,7 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
      * @dev Sets the contract URI for collection metadata
      * @param newContractURI The new contract URI
      */
-    function setContractURI(string memory newContractURI) external onlyOwner {
+    function setContractURI(string memory newContractURI) external onlyRole(METADATA_MANAGER_ROLE) {
         _contractURI = newContractURI;
         emit BatchMetadataUpdate(0, type(uint256).max);
     }
@@ -420,28 +948,28 @@ contract SecretOfTheDeepNFT is ERC1155, Ownable, IERC4906 {
     }
 
     /**
-     * @dev Sets the collection name (owner only)
+     * @dev Sets the collection name (metadata manager only)
      * @param newName The new name for the collection
      */
-    function setName(string memory newName) external onlyOwner {
+    function setName(string memory newName) external onlyRole(METADATA_MANAGER_ROLE) {
         name = newName;
         emit BatchMetadataUpdate(0, type(uint256).max);
     }
 
     /**
-     * @dev Sets the collection symbol (owner only)
+     * @dev Sets the collection symbol (metadata manager only)
      * @param newSymbol The new symbol for the collection
      */
-    function setSymbol(string memory newSymbol) external onlyOwner {
+    function setSymbol(string memory newSymbol) external onlyRole(METADATA_MANAGER_ROLE) {
         symbol = newSymbol;
         emit BatchMetadataUpdate(0, type(uint256).max);
     }
 
     /**
-     * @dev Sets the USDC token address (owner only)
+     * @dev Sets the USDC token address (admin only)
      * @param newUSDCAddress The new USDC token address
      */
-    function setUSDCAddress(address newUSDCAddress) external onlyOwner {
+    function setUSDCAddress(address newUSDCAddress) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(newUSDCAddress != address(0), "USDC address cannot be zero");
         
         address oldAddress = usdcAddress;
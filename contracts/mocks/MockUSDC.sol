@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockUSDC
+ * @dev Test-only ERC-20 with 6 decimals and an open mint, standing in for USDC
+ */
+contract MockUSDC is ERC20 {
+    constructor() ERC20("Mock USDC", "USDC") {}
+    
+    /**
+     * @dev Returns 6 decimals like the real USDC
+     */
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+    
+    /**
+     * @dev Mints tokens to any address
+     * @param to The address to mint to
+     * @param amount The amount to mint (with 6 decimals)
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
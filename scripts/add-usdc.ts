@@ -1,5 +1,7 @@
 import { ethers } from "hardhat";
 import { getCurrentContract } from "./utils/get-current-contract";
+import { checkRole } from "./domain/roles";
+import { addUSDC } from "./domain/add-usdc";
 import type { SecretOfTheDeepNFT } from "../typechain-types";
 import * as readline from 'readline';
 
@@ -20,16 +22,14 @@ async function main() {
   const [signer] = await ethers.getSigners();
   console.log(`👤 Signer: ${signer.address}`);
 
-  // Check if signer is owner
-  const owner = await nftContract.owner();
-  if (signer.address.toLowerCase() !== owner.toLowerCase()) {
-    console.error("❌ Error: Signer is not the contract owner");
-    console.log(`   Owner: ${owner}`);
-    console.log(`   Signer: ${signer.address}`);
+  // Check that the signer is a treasurer
+  const roleError = await checkRole(nftContract, "treasurer", signer.address, "add USDC");
+  if (roleError) {
+    console.error(`❌ Error: ${roleError}`);
     return;
   }
 
-  console.log("✅ Signer is the contract owner\n");
+  console.log("✅ Signer is a treasurer\n");
 
   // Get USDC contract
   const usdcContract = await ethers.getContractAt("IERC20", usdcAddress);
@@ -125,36 +125,25 @@ async function main() {
   console.log(`   From: ${signer.address}`);
   console.log(`   To: ${currentContract.contractAddress}\n`);
 
-  // Check allowance first
-  const allowance = await usdcContract.allowance(signer.address, currentContract.contractAddress);
-  
-  if (allowance < amountToAdd) {
-    console.log("🔐 Approving USDC transfer...");
-    const approveTx = await usdcContract.approve(currentContract.contractAddress, amountToAdd);
-    console.log(`   Approval hash: ${approveTx.hash}`);
-    await approveTx.wait();
-    console.log("✅ USDC transfer approved\n");
-  } else {
-    console.log("✅ USDC transfer already approved\n");
+  console.log("📝 Adding USDC to contract...");
+  const result = await addUSDC(nftContract, amountToAdd, signer);
+
+  if (!result.success) {
+    console.error(`❌ Adding USDC failed: ${result.error}`);
+    throw new Error(result.error);
   }
 
-  // Add USDC to contract
-  console.log("📝 Adding USDC to contract...");
-  const tx = await nftContract.addUSDC(amountToAdd);
-  
-  console.log(`🔗 Transaction hash: ${tx.hash}`);
-  console.log("⏳ Waiting for confirmation...");
-  
-  const receipt = await tx.wait();
-  console.log(`✅ Transaction confirmed in block ${receipt?.blockNumber}`);
+  if (result.approvalHash) {
+    console.log(`🔐 Approval hash: ${result.approvalHash}`);
+  }
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+
+  const newContractBalance = result.newContractBalance!;
 
-  // Check new balances
-  const newWalletBalance = await usdcContract.balanceOf(signer.address);
-  const newContractBalance = await nftContract.getUSDCBalance();
-  
   console.log("\n💰 Updated Balances");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log(`👤 Wallet USDC: ${ethers.formatUnits(newWalletBalance, 6)} USDC`);
+  console.log(`👤 Wallet USDC: ${ethers.formatUnits(result.newWalletBalance!, 6)} USDC`);
   console.log(`📋 Contract USDC: ${ethers.formatUnits(newContractBalance, 6)} USDC`);
   console.log(`📊 Added: ${ethers.formatUnits(amountToAdd, 6)} USDC`);
 
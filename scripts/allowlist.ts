@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation, askPositiveInteger, askTokenInfo } from "./utils/prompts";
+import { formatAddress, resolveAddress } from "./utils/address-book";
+import {
+  checkTransfer,
+  getTransferRestrictions,
+  importAllowlist,
+  parseAllowlistCsv,
+  printTransferCheck,
+  printTransferRestrictions
+} from "./domain/transfer-restrictions";
+
+async function main() {
+  console.log("🛂 Investor Allowlist\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // Get signer
+  const [signer] = await ethers.getSigners();
+  console.log(`👤 Signer: ${signer.address}\n`);
+
+  printTransferRestrictions(await getTransferRestrictions(nftContract), formatAddress);
+
+  console.log("\n🎯 Actions");
+  console.log("   1: Import investors from a CSV");
+  console.log("   2: Check whether a transfer would pass");
+  const action = await getUserInput("Select action (1-2, Enter to exit): ");
+
+  if (action === "1") {
+    const file = await getUserInput("Enter path of the CSV file: ");
+    if (!fs.existsSync(file)) {
+      throw new Error(`File not found: ${file}`);
+    }
+
+    const { rows, errors } = parseAllowlistCsv(fs.readFileSync(file, "utf8"));
+    if (errors.length > 0) {
+      errors.forEach(error => console.log(`   Line ${error.line}: ${error.message}`));
+      throw new Error("CSV is invalid, nothing was imported");
+    }
+
+    const accounts = rows.map(row => row.address);
+    const plan = await importAllowlist(nftContract, accounts, true, signer, { dryRun: true });
+    if (plan.changed.length === 0) {
+      console.log("ℹ️  Every account is already allowlisted");
+      return;
+    }
+
+    if (!(await askConfirmation(`Allowlist ${plan.changed.length} account(s) (${plan.skipped.length} already allowlisted)?`))) {
+      console.log("❌ Import cancelled");
+      return;
+    }
+
+    const result = await importAllowlist(nftContract, accounts, true, signer);
+    result.transactionHashes.forEach(hash => console.log(`🔗 Transaction hash: ${hash}`));
+
+    if (!result.success) {
+      console.error(`❌ Import failed: ${result.error}`);
+      throw new Error(result.error);
+    }
+
+    console.log(`✅ Allowlisted ${result.changed.length} account(s)`);
+  } else if (action === "2") {
+    const from = resolveAddress(await getUserInput("Enter sender address or address book name: "));
+    const to = resolveAddress(await getUserInput("Enter recipient address or address book name: "));
+    const { tokenId } = await askTokenInfo(nftContract);
+    const amount = await askPositiveInteger("Enter amount: ");
+
+    console.log(`\n🔍 ${amount} of token ${tokenId}: ${formatAddress(from)} → ${formatAddress(to)}`);
+    printTransferCheck(await checkTransfer(nftContract, from, to, tokenId, BigInt(amount)));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,40 @@
+import { ethers } from "hardhat";
+import { getCurrentContract, updateDeployment } from "./utils/get-current-contract";
+import { findContractCreation } from "./domain/deployment-block";
+
+async function main() {
+  console.log("🔎 Backfilling Deployment Block\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}`);
+
+  if (currentContract.deploymentBlock !== undefined) {
+    console.log(`✅ Deployment block already recorded: ${currentContract.deploymentBlock}`);
+    return;
+  }
+
+  console.log("🔍 Locating contract creation...");
+  const result = await findContractCreation(ethers.provider, currentContract.contractAddress);
+
+  if (!result.success || !result.data) {
+    throw new Error(`Failed to locate contract creation: ${result.error}`);
+  }
+
+  updateDeployment({
+    ...currentContract,
+    deploymentBlock: result.data.blockNumber,
+    deploymentTxHash: result.data.transactionHash
+  });
+
+  console.log(`✅ Deployment block: ${result.data.blockNumber}`);
+  console.log(`   Transaction: ${result.data.transactionHash ?? "not found (created by another contract)"}`);
+  console.log(`📝 Contract info saved to: .deployments.json`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Backfill failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,68 @@
+import * as fs from "fs";
+import { ethers } from "hardhat";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation } from "./utils/prompts";
+import {
+  executeBulkMint,
+  parseBulkMintCsv,
+  planBulkMint,
+  printBulkMintPlan,
+  writeBulkMintResults
+} from "./domain/bulk-mint";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+
+async function main() {
+  console.log("🪙 Bulk Mint\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // Get user input
+  const file = await getUserInput("Enter path of the CSV file (address,tokenId,amount): ");
+  if (!fs.existsSync(file)) {
+    console.log(`❌ Error: File not found: ${file}`);
+    return;
+  }
+
+  const { rows, errors } = parseBulkMintCsv(fs.readFileSync(file, "utf8"));
+  const plan = await planBulkMint(nftContract, rows, errors);
+
+  console.log("\n🧪 Dry Run\n");
+  printBulkMintPlan(plan);
+
+  if (plan.errors.length > 0) {
+    console.log("\n❌ Fix the CSV and run the script again. Nothing was minted.");
+    return;
+  }
+
+  if (!(await askConfirmation(`\n🪙 Send ${plan.recipients.length} mint transactions?`))) {
+    console.log("❌ Minting cancelled.");
+    return;
+  }
+
+  console.log("\n📝 Minting...");
+  const result = await executeBulkMint(nftContract, plan);
+
+  if (result.rowResults.length > 0) {
+    const resultsPath = writeBulkMintResults(result.rowResults, file);
+    console.log(`\n📝 Results saved to: ${resultsPath}`);
+  }
+
+  if (!result.success) {
+    console.error(`❌ Bulk mint failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`✅ Minted to ${result.mintedRecipients} recipients`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
@@ -1,4 +1,6 @@
 import { ethers } from "hardhat";
+import { addDeployment } from "./utils/get-current-contract";
+import { getMetadataServerURIs } from "./domain/metadata-server";
 
 async function main() {
   console.log("Deploying SecretOfTheDeepNFT...");
@@ -9,13 +11,23 @@ async function main() {
   await nftContract.waitForDeployment();
 
   const address = await nftContract.getAddress();
-  console.log(`SecretOfTheDeepNFT deployed to: ${address}`);
+  const deploymentReceipt = await nftContract.deploymentTransaction()!.wait();
+  console.log(`SecretOfTheDeepNFT deployed to: ${address} (block ${deploymentReceipt!.blockNumber})`);
 
-  // Verify the deployment by checking the owner
-  const owner = await nftContract.owner();
+  // Verify the deployment by checking the deployer's roles
   const [deployer] = await ethers.getSigners();
-  console.log(`Contract owner: ${owner}`);
+  const isAdmin = await nftContract.hasRole(await nftContract.DEFAULT_ADMIN_ROLE(), deployer.address);
   console.log(`Deployer address: ${deployer.address}`);
+  console.log(`Deployer is admin: ${isAdmin}`);
+
+  // Point the metadata at a local metadata server (sotd:metadata-server) if requested
+  const metadataServerUrl = process.env.METADATA_SERVER_URL;
+  if (metadataServerUrl) {
+    const { baseURI, contractURI } = getMetadataServerURIs(metadataServerUrl);
+    await (await nftContract.setBaseURI(baseURI)).wait();
+    await (await nftContract.setContractURI(contractURI)).wait();
+    console.log(`Metadata served by: ${metadataServerUrl}`);
+  }
 
   // Check initial tokens
   console.log("\nInitial tokens:");
@@ -24,6 +36,20 @@ async function main() {
     console.log(`Token ${i}: ${tokenInfo.name} (Max Supply: ${tokenInfo.maxSupply})`);
   }
 
+  // Save contract info so the other scripts can find the local deployment
+  const network = await ethers.provider.getNetwork();
+  addDeployment({
+    contractAddress: address,
+    network: "Localhost",
+    chainId: network.chainId.toString(),
+    deployer: deployer.address,
+    deployedAt: new Date().toISOString(),
+    deploymentBlock: deploymentReceipt!.blockNumber,
+    deploymentTxHash: deploymentReceipt!.hash,
+    label: process.env.DEPLOYMENT_LABEL || undefined
+  });
+  console.log("Contract info saved to: .deployments.json");
+
   console.log("\nDeployment completed successfully!");
 }
 
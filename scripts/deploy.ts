@@ -1,6 +1,5 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
+import { addDeployment, assertLabelAvailable } from "./utils/get-current-contract";
 
 async function main() {
   console.log("🚀 Deploying SecretOfTheDeepNFT to Polygon...");
@@ -16,6 +15,16 @@ async function main() {
   // Get network info first
   const network = await ethers.provider.getNetwork();
 
+  // Optional name for this deployment, e.g. DEPLOYMENT_LABEL=v2
+  const label = process.env.DEPLOYMENT_LABEL || undefined;
+  if (label) {
+    const expectedAddress = ethers.getCreateAddress({
+      from: deployer.address,
+      nonce: await ethers.provider.getTransactionCount(deployer.address)
+    });
+    assertLabelAvailable(network.chainId.toString(), label, expectedAddress);
+  }
+
   // Check balance
   const balance = await ethers.provider.getBalance(deployer.address);
   const currency = network.chainId === 137n ? "MATIC" : "POL";
@@ -32,24 +41,26 @@ async function main() {
   await nftContract.waitForDeployment();
 
   const address = await nftContract.getAddress();
+  const deploymentReceipt = await nftContract.deploymentTransaction()!.wait();
   console.log(`✅ SecretOfTheDeepNFT deployed to: ${address}`);
+  console.log(`📦 Deployment block: ${deploymentReceipt!.blockNumber}`);
 
-  // Save contract address to .current.json
-  const currentData = {
+  // Record the deployment in .deployments.json
+  addDeployment({
     contractAddress: address,
     network: network.chainId === 137n ? "Polygon Mainnet" : network.chainId === 80002n ? "Polygon Amoy" : "Unknown",
     chainId: network.chainId.toString(),
     deployer: deployer.address,
-    deployedAt: new Date().toISOString()
-  };
-
-  const currentFilePath = path.join(__dirname, "..", ".current.json");
-  fs.writeFileSync(currentFilePath, JSON.stringify(currentData, null, 2));
-  console.log(`📝 Contract info saved to: .current.json`);
+    deployedAt: new Date().toISOString(),
+    deploymentBlock: deploymentReceipt!.blockNumber,
+    deploymentTxHash: deploymentReceipt!.hash,
+    label
+  });
+  console.log(`📝 Contract info saved to: .deployments.json${label ? ` (label: ${label})` : ""}`);
 
   // Verify the deployment
-  const owner = await nftContract.owner();
-  console.log(`Contract owner: ${owner}`);
+  const isAdmin = await nftContract.hasRole(await nftContract.DEFAULT_ADMIN_ROLE(), deployer.address);
+  console.log(`Deployer is admin: ${isAdmin} (also minter, treasurer and metadata manager)`);
 
   // Display initial tokens
   console.log("\n📋 Initial tokens:");
@@ -0,0 +1,84 @@
+import { ethers } from "hardhat";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation, parseTokenIdList, parseUsdcAmount } from "./utils/prompts";
+import {
+  computeProRataShares,
+  distributeDividend,
+  getTokenHolders,
+  parseTokenWeights,
+  printDistributionPreview
+} from "./domain/distribute-dividend";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+
+async function main() {
+  console.log("💰 Pro-rata Dividend Distribution\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  const contractBalance = await nftContract.getUSDCBalance();
+  console.log(`📋 Available USDC: ${ethers.formatUnits(contractBalance, 6)} USDC\n`);
+
+  if (contractBalance === BigInt(0)) {
+    console.log("❌ Error: Contract has no USDC for dividend payout");
+    console.log("   Use 'add-usdc.ts' script to add USDC to the contract");
+    return;
+  }
+
+  // Get user inputs
+  const tokenIdsInput = await getUserInput("Enter token IDs to distribute to (e.g. 1,2,3): ");
+  const tokenIds = parseTokenIdList(tokenIdsInput);
+
+  const weightsInput = await getUserInput("Enter weights per token ID (e.g. 1:3,2:2,3:1) or press Enter for equal weights: ");
+  const weights = parseTokenWeights(weightsInput);
+
+  const totalAmount = parseUsdcAmount(await getUserInput("Enter total USDC amount to distribute: "));
+  if (totalAmount > contractBalance) {
+    console.log(`❌ Error: Contract only has ${ethers.formatUnits(contractBalance, 6)} USDC, but you requested ${ethers.formatUnits(totalAmount, 6)} USDC`);
+    return;
+  }
+
+  const fromBlockInput = await getUserInput("Enter block to scan holders from (press Enter for the deployment block): ");
+  const fromBlock = fromBlockInput ? parseInt(fromBlockInput) : undefined;
+
+  console.log("\n🔍 Looking up token holders...");
+  const holdersResult = await getTokenHolders(nftContract, tokenIds, fromBlock);
+  if (!holdersResult.success || !holdersResult.holders) {
+    console.error(`❌ Error: ${holdersResult.error}`);
+    return;
+  }
+
+  const distribution = computeProRataShares(holdersResult.holders, totalAmount, weights);
+
+  console.log("\n📋 Distribution Preview\n");
+  printDistributionPreview(distribution, tokenIds);
+
+  if (!(await askConfirmation(`\nPay ${ethers.formatUnits(totalAmount, 6)} USDC to ${distribution.shares.length} holders?`))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  console.log("📝 Executing dividend distribution...");
+  const result = await distributeDividend(nftContract, distribution);
+
+  result.transactionHashes.forEach(hash => console.log(`🔗 Transaction hash: ${hash}`));
+
+  if (!result.success) {
+    console.error(`❌ Distribution failed after paying ${result.paidRecipients} of ${distribution.shares.length} recipients: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`\n✅ Paid ${result.paidRecipients} recipients`);
+  console.log(`📋 Contract USDC: ${ethers.formatUnits(result.newContractBalance!, 6)} USDC`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
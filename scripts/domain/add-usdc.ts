@@ -0,0 +1,127 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * The result of adding USDC to the contract.
+ */
+export interface AddUSDCResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  approvalHash?: string;
+  blockNumber?: number;
+  error?: string;
+  newWalletBalance?: bigint;
+  newContractBalance?: bigint;
+}
+
+/**
+ * Add USDC from the signer's wallet to the contract.
+ *
+ * Approves the contract to spend the amount first if the current allowance
+ * is too low.
+ *
+ * @param nftContract - The NFT contract.
+ * @param amount - The USDC amount to add (with 6 decimals).
+ * @param signer - The signer to use for the transactions.
+ * @param options - Set `dryRun` to simulate the deposit instead of sending it.
+ * @returns The result of the deposit.
+ */
+export async function addUSDC(
+  nftContract: SecretOfTheDeepNFT,
+  amount: bigint,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<AddUSDCResult> {
+  try {
+    if (amount <= BigInt(0)) {
+      return {
+        success: false,
+        error: "Amount must be greater than 0"
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const addSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const usdcContract = await ethers.getContractAt("IERC20", await nftContract.usdcAddress());
+      const contractAddress = await nftContract.getAddress();
+      const walletBalance = await usdcContract.balanceOf(addSigner.address);
+      const contractBalance = await nftContract.getUSDCBalance();
+      const allowance = await usdcContract.allowance(addSigner.address, contractAddress);
+
+      const expectedChanges = [
+        { label: "Wallet USDC", before: ethers.formatUnits(walletBalance, 6), after: ethers.formatUnits(walletBalance - amount, 6) },
+        { label: "Contract USDC", before: ethers.formatUnits(contractBalance, 6), after: ethers.formatUnits(contractBalance + amount, 6) }
+      ];
+
+      if (allowance >= amount) {
+        return dryRunCall(nftContract, "addUSDC", [amount], addSigner.address, expectedChanges);
+      }
+
+      // addUSDC can only be simulated once the approval exists
+      const result = await dryRunCall(usdcContract, "approve", [contractAddress, amount], addSigner.address, [
+        { label: "Allowance", before: ethers.formatUnits(allowance, 6), after: ethers.formatUnits(amount, 6) },
+        ...expectedChanges
+      ]);
+      result.simulation.note = "Simulated the USDC approval only; addUSDC is sent after it and cannot be simulated before the approval exists.";
+      return result;
+    }
+
+    // Check that we hold the treasurer role
+    const roleError = await checkRole(nftContract, "treasurer", addSigner.address, "add USDC");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const usdcAddress = await nftContract.usdcAddress();
+    const usdcContract = await ethers.getContractAt("IERC20", usdcAddress, addSigner);
+    const contractAddress = await nftContract.getAddress();
+
+    // Check wallet balance
+    const walletBalance = await usdcContract.balanceOf(addSigner.address);
+    if (amount > walletBalance) {
+      return {
+        success: false,
+        error: `Amount (${ethers.formatUnits(amount, 6)} USDC) exceeds wallet balance (${ethers.formatUnits(walletBalance, 6)} USDC)`
+      };
+    }
+
+    // Approve the transfer if needed
+    let approvalHash: string | undefined;
+    const allowance = await usdcContract.allowance(addSigner.address, contractAddress);
+    if (allowance < amount) {
+      const approveTx = await usdcContract.approve(contractAddress, amount);
+      await approveTx.wait();
+      approvalHash = approveTx.hash;
+    }
+
+    // Add USDC to contract
+    const tx = await nftContract.connect(addSigner).addUSDC(amount);
+    const receipt = await tx.wait();
+
+    const newWalletBalance = await usdcContract.balanceOf(addSigner.address);
+    const newContractBalance = await nftContract.getUSDCBalance();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      approvalHash,
+      blockNumber: receipt?.blockNumber,
+      newWalletBalance,
+      newContractBalance
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
@@ -0,0 +1,375 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { formatAddress, loadAddressBook, resolveAddress } from "../utils/address-book";
+
+/**
+ * One row of a bulk mint CSV.
+ */
+export interface BulkMintRow {
+  /** Line number in the CSV file */
+  line: number;
+  /** Checksummed recipient address */
+  address: string;
+  tokenId: number;
+  amount: bigint;
+}
+
+/**
+ * A problem with one line of the CSV or with the plan as a whole.
+ */
+export interface BulkMintError {
+  /** Line number in the CSV file, undefined for plan-level errors */
+  line?: number;
+  message: string;
+}
+
+/**
+ * Supply check of one token ID over all rows.
+ */
+export interface BulkMintTokenCheck {
+  tokenId: number;
+  name: string;
+  currentSupply: bigint;
+  requested: bigint;
+  maxSupply: bigint;
+  fits: boolean;
+}
+
+/**
+ * Everything minted to one recipient, sent as one `mintBatch` transaction.
+ */
+export interface BulkMintRecipient {
+  address: string;
+  tokenIds: number[];
+  amounts: bigint[];
+  rows: BulkMintRow[];
+}
+
+/**
+ * A validated bulk mint.
+ */
+export interface BulkMintPlan {
+  rows: BulkMintRow[];
+  recipients: BulkMintRecipient[];
+  tokenChecks: BulkMintTokenCheck[];
+  /** The plan can only be executed when this is empty */
+  errors: BulkMintError[];
+}
+
+/**
+ * Outcome of one CSV row.
+ */
+export interface BulkMintRowResult extends BulkMintRow {
+  status: 'minted' | 'failed';
+  transactionHash?: string;
+  error?: string;
+}
+
+/**
+ * Result of executing a bulk mint.
+ */
+export interface BulkMintResult {
+  success: boolean;
+  error?: string;
+  rowResults: BulkMintRowResult[];
+  mintedRecipients: number;
+  failedRecipients: number;
+}
+
+/**
+ * Parse a CSV of `address,tokenId,amount` rows.
+ *
+ * A header row, blank lines and lines starting with # are skipped. The
+ * address column also accepts address book names.
+ *
+ * @param content The CSV content
+ * @returns Parsed rows and per-line errors
+ */
+export function parseBulkMintCsv(content: string): { rows: BulkMintRow[]; errors: BulkMintError[] } {
+  const rows: BulkMintRow[] = [];
+  const errors: BulkMintError[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const text = rawLine.trim();
+
+    if (text === "" || text.startsWith("#")) return;
+    if (index === 0 && /^address\s*,/i.test(text)) return;
+
+    const columns = text.split(",").map(column => column.trim());
+    if (columns.length !== 3) {
+      errors.push({ line, message: `Expected 3 columns (address,tokenId,amount), got ${columns.length}` });
+      return;
+    }
+
+    const [addressInput, tokenIdInput, amountInput] = columns;
+
+    let address: string;
+    try {
+      address = resolveAddress(addressInput);
+    } catch (error) {
+      errors.push({ line, message: error instanceof Error ? error.message : `Invalid address "${addressInput}"` });
+      return;
+    }
+
+    if (address === ethers.ZeroAddress) {
+      errors.push({ line, message: "Cannot mint to the zero address" });
+      return;
+    }
+    if (!/^\d+$/.test(tokenIdInput)) {
+      errors.push({ line, message: `Invalid token ID "${tokenIdInput}"` });
+      return;
+    }
+    if (!/^\d+$/.test(amountInput) || BigInt(amountInput) === BigInt(0)) {
+      errors.push({ line, message: `Invalid amount "${amountInput}", must be a positive integer` });
+      return;
+    }
+
+    rows.push({ line, address, tokenId: Number(tokenIdInput), amount: BigInt(amountInput) });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Validate parsed rows against the contract and group them by recipient.
+ *
+ * Checks that every token ID exists and that the total requested per token
+ * ID fits in its remaining supply, so the whole CSV is rejected up front
+ * instead of failing halfway through.
+ *
+ * @param nftContract The NFT contract instance
+ * @param rows Parsed CSV rows
+ * @param parseErrors Errors from parsing, carried over into the plan
+ * @returns The plan; check `errors` before executing it
+ */
+export async function planBulkMint(
+  nftContract: SecretOfTheDeepNFT,
+  rows: BulkMintRow[],
+  parseErrors: BulkMintError[] = []
+): Promise<BulkMintPlan> {
+  const errors = [...parseErrors];
+
+  if (rows.length === 0) {
+    errors.push({ message: "No rows to mint" });
+  }
+
+  // Total requested per token ID
+  const requested = new Map<number, bigint>();
+  for (const row of rows) {
+    requested.set(row.tokenId, (requested.get(row.tokenId) ?? BigInt(0)) + row.amount);
+  }
+
+  const tokenChecks: BulkMintTokenCheck[] = [];
+  for (const tokenId of Array.from(requested.keys()).sort((a, b) => a - b)) {
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+
+    if (!tokenInfo.exists || !tokenInfo.isActive) {
+      const message = tokenInfo.exists ? `Token ID ${tokenId} is retired and cannot be minted` : `Token ID ${tokenId} does not exist`;
+      rows.filter(row => row.tokenId === tokenId).forEach(row => {
+        errors.push({ line: row.line, message });
+      });
+      continue;
+    }
+
+    const total = requested.get(tokenId)!;
+    const fits = tokenInfo.currentSupply + total <= tokenInfo.maxSupply;
+    tokenChecks.push({
+      tokenId,
+      name: tokenInfo.name,
+      currentSupply: tokenInfo.currentSupply,
+      requested: total,
+      maxSupply: tokenInfo.maxSupply,
+      fits
+    });
+
+    if (!fits) {
+      errors.push({
+        message: `Token ${tokenId} (${tokenInfo.name}): ${total} requested, but only ${tokenInfo.maxSupply - tokenInfo.currentSupply} of ${tokenInfo.maxSupply} left`
+      });
+    }
+  }
+
+  // One mintBatch per recipient, same token IDs merged
+  const recipients = new Map<string, BulkMintRecipient>();
+  for (const row of rows) {
+    const recipient = recipients.get(row.address) ?? { address: row.address, tokenIds: [], amounts: [], rows: [] };
+    const index = recipient.tokenIds.indexOf(row.tokenId);
+
+    if (index === -1) {
+      recipient.tokenIds.push(row.tokenId);
+      recipient.amounts.push(row.amount);
+    } else {
+      recipient.amounts[index] += row.amount;
+    }
+    recipient.rows.push(row);
+    recipients.set(row.address, recipient);
+  }
+
+  return {
+    rows,
+    recipients: Array.from(recipients.values()),
+    tokenChecks,
+    errors
+  };
+}
+
+/**
+ * Print a bulk mint plan as a dry run.
+ *
+ * @param plan The plan to print
+ */
+export function printBulkMintPlan(plan: BulkMintPlan): void {
+  const addressBook = loadAddressBook();
+  console.log(`📋 Rows: ${plan.rows.length} | Recipients: ${plan.recipients.length} | Transactions: ${plan.recipients.length}\n`);
+
+  for (const recipient of plan.recipients) {
+    const tokens = recipient.tokenIds.map((id, index) => `Token ${id}: ${recipient.amounts[index]}`).join(", ");
+    console.log(`   ${formatAddress(recipient.address, addressBook)} ← ${tokens}`);
+  }
+
+  console.log("\n🔍 Supply check:");
+  for (const check of plan.tokenChecks) {
+    const after = check.currentSupply + check.requested;
+    console.log(`   Token ${check.tokenId} (${check.name}): ${check.currentSupply} + ${check.requested} = ${after}/${check.maxSupply} ${check.fits ? "✅" : "❌"}`);
+  }
+
+  if (plan.errors.length > 0) {
+    console.log(`\n❌ ${plan.errors.length} problem(s):`);
+    for (const error of plan.errors) {
+      console.log(`   ${error.line !== undefined ? `Line ${error.line}: ` : ""}${error.message}`);
+    }
+  }
+}
+
+/**
+ * Execute a bulk mint plan with one `mintBatch` transaction per recipient.
+ *
+ * A failing recipient does not stop the run; its rows are marked as failed
+ * so they can be retried from the results CSV.
+ *
+ * @param nftContract The NFT contract instance
+ * @param plan A plan without errors
+ * @param signer The signer to use for the transactions
+ * @returns BulkMintResult with the outcome of every row
+ */
+export async function executeBulkMint(
+  nftContract: SecretOfTheDeepNFT,
+  plan: BulkMintPlan,
+  signer?: any
+): Promise<BulkMintResult> {
+  const rowResults: BulkMintRowResult[] = [];
+  let mintedRecipients = 0;
+  let failedRecipients = 0;
+
+  try {
+    if (plan.errors.length > 0) {
+      return {
+        success: false,
+        error: `Plan has ${plan.errors.length} problem(s), fix the CSV first`,
+        rowResults,
+        mintedRecipients,
+        failedRecipients
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const mintSigner = signer || defaultSigner;
+
+    // Check that we hold the minter role
+    const roleError = await checkRole(nftContract, "minter", mintSigner.address, "mint tokens");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError,
+        rowResults,
+        mintedRecipients,
+        failedRecipients
+      };
+    }
+
+    const addressBook = loadAddressBook();
+    for (const recipient of plan.recipients) {
+      try {
+        const tx = await nftContract.connect(mintSigner).mintBatch(recipient.address, recipient.tokenIds, recipient.amounts);
+        await tx.wait();
+
+        mintedRecipients++;
+        recipient.rows.forEach(row => rowResults.push({ ...row, status: 'minted', transactionHash: tx.hash }));
+        console.log(`   ✅ ${formatAddress(recipient.address, addressBook)}: ${tx.hash}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error occurred";
+
+        failedRecipients++;
+        recipient.rows.forEach(row => rowResults.push({ ...row, status: 'failed', error: message }));
+        console.log(`   ❌ ${formatAddress(recipient.address, addressBook)}: ${message}`);
+      }
+    }
+
+    rowResults.sort((a, b) => a.line - b.line);
+
+    return {
+      success: failedRecipients === 0,
+      error: failedRecipients > 0 ? `${failedRecipients} of ${plan.recipients.length} recipients failed` : undefined,
+      rowResults,
+      mintedRecipients,
+      failedRecipients
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      rowResults,
+      mintedRecipients,
+      failedRecipients
+    };
+  }
+}
+
+/**
+ * Serialize row results to CSV.
+ *
+ * @param rowResults Outcome of every row
+ * @returns CSV with a `line,address,tokenId,amount,status,transactionHash,error` header
+ */
+export function bulkMintResultsToCsv(rowResults: BulkMintRowResult[]): string {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const csvRows = ["line,address,tokenId,amount,status,transactionHash,error"];
+
+  for (const row of rowResults) {
+    csvRows.push([
+      row.line,
+      row.address,
+      row.tokenId,
+      row.amount.toString(),
+      row.status,
+      row.transactionHash ?? "",
+      escape(row.error ?? "")
+    ].join(","));
+  }
+
+  return csvRows.join("\n") + "\n";
+}
+
+/**
+ * Write row results next to the input CSV, e.g. investors.csv → investors.results.csv.
+ *
+ * @param rowResults Outcome of every row
+ * @param inputPath Path of the input CSV
+ * @param outputPath Path to write to instead of the default
+ * @returns The path written to
+ */
+export function writeBulkMintResults(rowResults: BulkMintRowResult[], inputPath: string, outputPath?: string): string {
+  const parsed = path.parse(inputPath);
+  const resultsPath = outputPath ?? path.join(parsed.dir, `${parsed.name}.results.csv`);
+
+  fs.mkdirSync(path.dirname(resultsPath), { recursive: true });
+  fs.writeFileSync(resultsPath, bulkMintResultsToCsv(rowResults));
+
+  return resultsPath;
+}
@@ -0,0 +1,642 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { readIndexedEvents, syncContractEvents, type IndexedEvent } from "./event-indexer";
+import { getRoleName } from "./roles";
+import { formatAddress, loadAddressBook } from "../utils/address-book";
+
+/**
+ * Fields shared by every contract event.
+ */
+interface ContractEventBase {
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  dateTime: string;
+  transactionHash: string;
+}
+
+export interface TransferSingleEvent extends ContractEventBase {
+  kind: 'TransferSingle';
+  operator: string;
+  from: string;
+  to: string;
+  tokenId: number;
+  amount: bigint;
+}
+
+export interface TransferBatchEvent extends ContractEventBase {
+  kind: 'TransferBatch';
+  operator: string;
+  from: string;
+  to: string;
+  tokenIds: number[];
+  amounts: bigint[];
+}
+
+export interface TokenCreatedEvent extends ContractEventBase {
+  kind: 'TokenCreated';
+  tokenId: number;
+  name: string;
+  maxSupply: bigint;
+}
+
+export interface TokenMintedEvent extends ContractEventBase {
+  kind: 'TokenMinted';
+  tokenId: number;
+  to: string;
+  amount: bigint;
+}
+
+export interface TokenBurnedEvent extends ContractEventBase {
+  kind: 'TokenBurned';
+  tokenId: number;
+  from: string;
+  amount: bigint;
+}
+
+export interface TokenPaybackEvent extends ContractEventBase {
+  kind: 'TokenPayback';
+  tokenId: number;
+  from: string;
+  tokenAmount: bigint;
+  usdcAmount: bigint;
+}
+
+export interface RedemptionRequestedEvent extends ContractEventBase {
+  kind: 'RedemptionRequested';
+  redemptionId: number;
+  holder: string;
+  tokenId: number;
+  tokenAmount: bigint;
+  requestedUsdc: bigint;
+}
+
+export interface RedemptionCounteredEvent extends ContractEventBase {
+  kind: 'RedemptionCountered';
+  redemptionId: number;
+  counterUsdc: bigint;
+}
+
+export interface RedemptionAcceptedEvent extends ContractEventBase {
+  kind: 'RedemptionAccepted';
+  redemptionId: number;
+  usdcAmount: bigint;
+}
+
+export interface RedemptionRejectedEvent extends ContractEventBase {
+  kind: 'RedemptionRejected';
+  redemptionId: number;
+}
+
+export interface RedemptionCancelledEvent extends ContractEventBase {
+  kind: 'RedemptionCancelled';
+  redemptionId: number;
+}
+
+export interface TokenInfoUpdatedEvent extends ContractEventBase {
+  kind: 'TokenInfoUpdated';
+  tokenId: number;
+  name: string;
+  description: string;
+}
+
+export interface TokenDeactivatedEvent extends ContractEventBase {
+  kind: 'TokenDeactivated';
+  tokenId: number;
+}
+
+export interface TokenReactivatedEvent extends ContractEventBase {
+  kind: 'TokenReactivated';
+  tokenId: number;
+}
+
+export interface MaxSupplyUpdatedEvent extends ContractEventBase {
+  kind: 'MaxSupplyUpdated';
+  tokenId: number;
+  oldMaxSupply: bigint;
+  newMaxSupply: bigint;
+}
+
+export interface SupplyFrozenEvent extends ContractEventBase {
+  kind: 'SupplyFrozen';
+  tokenId: number;
+  maxSupply: bigint;
+}
+
+export interface TransferRestrictionSetEvent extends ContractEventBase {
+  kind: 'TransferRestrictionSet';
+  tokenId: number;
+  restricted: boolean;
+}
+
+export interface AllowlistUpdatedEvent extends ContractEventBase {
+  kind: 'AllowlistUpdated';
+  account: string;
+  allowed: boolean;
+}
+
+export interface AccountFrozenEvent extends ContractEventBase {
+  kind: 'AccountFrozen';
+  account: string;
+  frozen: boolean;
+}
+
+export interface DividendPaidEvent extends ContractEventBase {
+  kind: 'DividendPaid';
+  to: string;
+  amount: bigint;
+}
+
+export interface USDCAddedEvent extends ContractEventBase {
+  kind: 'USDCAdded';
+  from: string;
+  amount: bigint;
+}
+
+export interface USDCWithdrawnEvent extends ContractEventBase {
+  kind: 'USDCWithdrawn';
+  to: string;
+  amount: bigint;
+}
+
+export interface USDCAddressSetEvent extends ContractEventBase {
+  kind: 'USDCAddressSet';
+  oldAddress: string;
+  newAddress: string;
+}
+
+export interface MetadataUpdateEvent extends ContractEventBase {
+  kind: 'MetadataUpdate';
+  tokenId: bigint;
+}
+
+export interface BatchMetadataUpdateEvent extends ContractEventBase {
+  kind: 'BatchMetadataUpdate';
+  fromTokenId: bigint;
+  toTokenId: bigint;
+}
+
+export interface DefaultRoyaltySetEvent extends ContractEventBase {
+  kind: 'DefaultRoyaltySet';
+  receiver: string;
+  feeBasisPoints: number;
+}
+
+export interface TokenRoyaltySetEvent extends ContractEventBase {
+  kind: 'TokenRoyaltySet';
+  tokenId: number;
+  receiver: string;
+  feeBasisPoints: number;
+}
+
+export interface TokenRoyaltyResetEvent extends ContractEventBase {
+  kind: 'TokenRoyaltyReset';
+  tokenId: number;
+}
+
+export interface PausedEvent extends ContractEventBase {
+  kind: 'Paused';
+  account: string;
+}
+
+export interface UnpausedEvent extends ContractEventBase {
+  kind: 'Unpaused';
+  account: string;
+}
+
+export interface RoleGrantedEvent extends ContractEventBase {
+  kind: 'RoleGranted';
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface RoleRevokedEvent extends ContractEventBase {
+  kind: 'RoleRevoked';
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface RoleAdminChangedEvent extends ContractEventBase {
+  kind: 'RoleAdminChanged';
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+/**
+ * Any event emitted by the NFT contract, discriminated by `kind`.
+ */
+export type ContractEvent =
+  | TransferSingleEvent
+  | TransferBatchEvent
+  | TokenCreatedEvent
+  | TokenMintedEvent
+  | TokenBurnedEvent
+  | TokenPaybackEvent
+  | RedemptionRequestedEvent
+  | RedemptionCounteredEvent
+  | RedemptionAcceptedEvent
+  | RedemptionRejectedEvent
+  | RedemptionCancelledEvent
+  | TokenInfoUpdatedEvent
+  | TokenDeactivatedEvent
+  | TokenReactivatedEvent
+  | MaxSupplyUpdatedEvent
+  | SupplyFrozenEvent
+  | TransferRestrictionSetEvent
+  | AllowlistUpdatedEvent
+  | AccountFrozenEvent
+  | DividendPaidEvent
+  | USDCAddedEvent
+  | USDCWithdrawnEvent
+  | USDCAddressSetEvent
+  | MetadataUpdateEvent
+  | BatchMetadataUpdateEvent
+  | DefaultRoyaltySetEvent
+  | TokenRoyaltySetEvent
+  | TokenRoyaltyResetEvent
+  | PausedEvent
+  | UnpausedEvent
+  | RoleGrantedEvent
+  | RoleRevokedEvent
+  | RoleAdminChangedEvent;
+
+export type ContractEventKind = ContractEvent['kind'];
+
+export const CONTRACT_EVENT_KINDS: ContractEventKind[] = [
+  'TransferSingle',
+  'TransferBatch',
+  'TokenCreated',
+  'TokenMinted',
+  'TokenBurned',
+  'TokenPayback',
+  'RedemptionRequested',
+  'RedemptionCountered',
+  'RedemptionAccepted',
+  'RedemptionRejected',
+  'RedemptionCancelled',
+  'TokenInfoUpdated',
+  'TokenDeactivated',
+  'TokenReactivated',
+  'MaxSupplyUpdated',
+  'SupplyFrozen',
+  'TransferRestrictionSet',
+  'AllowlistUpdated',
+  'AccountFrozen',
+  'DividendPaid',
+  'USDCAdded',
+  'USDCWithdrawn',
+  'USDCAddressSet',
+  'MetadataUpdate',
+  'BatchMetadataUpdate',
+  'DefaultRoyaltySet',
+  'TokenRoyaltySet',
+  'TokenRoyaltyReset',
+  'Paused',
+  'Unpaused',
+  'RoleGranted',
+  'RoleRevoked',
+  'RoleAdminChanged'
+];
+
+/**
+ * Named groups of event kinds for common views.
+ */
+export const EVENT_KIND_GROUPS: Record<string, ContractEventKind[]> = {
+  transfers: ['TransferSingle', 'TransferBatch'],
+  supply: ['TokenCreated', 'TokenMinted', 'TokenBurned', 'TokenPayback', 'MaxSupplyUpdated', 'SupplyFrozen'],
+  payouts: ['TokenPayback', 'DividendPaid'],
+  redemptions: ['RedemptionRequested', 'RedemptionCountered', 'RedemptionAccepted', 'RedemptionRejected', 'RedemptionCancelled'],
+  usdc: ['USDCAdded', 'USDCWithdrawn', 'USDCAddressSet', 'DividendPaid', 'TokenPayback'],
+  admin: ['TokenCreated', 'TokenInfoUpdated', 'TokenDeactivated', 'TokenReactivated', 'MaxSupplyUpdated', 'SupplyFrozen', 'USDCAddressSet', 'MetadataUpdate', 'BatchMetadataUpdate', 'Paused', 'Unpaused'],
+  royalties: ['DefaultRoyaltySet', 'TokenRoyaltySet', 'TokenRoyaltyReset'],
+  roles: ['RoleGranted', 'RoleRevoked', 'RoleAdminChanged'],
+  compliance: ['TransferRestrictionSet', 'AllowlistUpdated', 'AccountFrozen']
+};
+
+export interface ContractEventsResult {
+  success: boolean;
+  error?: string;
+  data?: {
+    totalEvents: number;
+    /** Number of events per kind, only kinds that occurred */
+    countsByKind: Partial<Record<ContractEventKind, number>>;
+    events: ContractEvent[];
+  };
+}
+
+/**
+ * Options for getting contract events.
+ */
+export interface ContractEventsOptions {
+  /** Block to start scanning from */
+  fromBlock?: number;
+  /** Last block to include (default: latest block) */
+  toBlock?: number;
+  /** Only return these event kinds (default: all) */
+  kinds?: ContractEventKind[];
+}
+
+/**
+ * Convert an indexed event into the typed event model.
+ *
+ * @param event The indexed event
+ * @returns The typed event, or undefined for events outside the model
+ */
+export function toContractEvent(event: IndexedEvent): ContractEvent | undefined {
+  const args = event.args as Record<string, any>;
+  const base: ContractEventBase = {
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    timestamp: event.timestamp,
+    dateTime: new Date(event.timestamp * 1000).toISOString(),
+    transactionHash: event.transactionHash
+  };
+
+  switch (event.eventName) {
+    case 'TransferSingle':
+      return { ...base, kind: 'TransferSingle', operator: args.operator, from: args.from, to: args.to, tokenId: Number(args.id), amount: BigInt(args.value) };
+    case 'TransferBatch':
+      return {
+        ...base,
+        kind: 'TransferBatch',
+        operator: args.operator,
+        from: args.from,
+        to: args.to,
+        tokenIds: (args.ids as string[]).map(id => Number(id)),
+        amounts: (args.values as string[]).map(value => BigInt(value))
+      };
+    case 'TokenCreated':
+      return { ...base, kind: 'TokenCreated', tokenId: Number(args.tokenId), name: args.name, maxSupply: BigInt(args.maxSupply) };
+    case 'TokenMinted':
+      return { ...base, kind: 'TokenMinted', tokenId: Number(args.tokenId), to: args.to, amount: BigInt(args.amount) };
+    case 'TokenBurned':
+      return { ...base, kind: 'TokenBurned', tokenId: Number(args.tokenId), from: args.from, amount: BigInt(args.amount) };
+    case 'TokenPayback':
+      return {
+        ...base,
+        kind: 'TokenPayback',
+        tokenId: Number(args.tokenId),
+        from: args.from,
+        tokenAmount: BigInt(args.tokenAmount),
+        usdcAmount: BigInt(args.usdcAmount)
+      };
+    case 'RedemptionRequested':
+      return {
+        ...base,
+        kind: 'RedemptionRequested',
+        redemptionId: Number(args.redemptionId),
+        holder: args.holder,
+        tokenId: Number(args.tokenId),
+        tokenAmount: BigInt(args.tokenAmount),
+        requestedUsdc: BigInt(args.requestedUsdc)
+      };
+    case 'RedemptionCountered':
+      return { ...base, kind: 'RedemptionCountered', redemptionId: Number(args.redemptionId), counterUsdc: BigInt(args.counterUsdc) };
+    case 'RedemptionAccepted':
+      return { ...base, kind: 'RedemptionAccepted', redemptionId: Number(args.redemptionId), usdcAmount: BigInt(args.usdcAmount) };
+    case 'RedemptionRejected':
+      return { ...base, kind: 'RedemptionRejected', redemptionId: Number(args.redemptionId) };
+    case 'RedemptionCancelled':
+      return { ...base, kind: 'RedemptionCancelled', redemptionId: Number(args.redemptionId) };
+    case 'TokenInfoUpdated':
+      return { ...base, kind: 'TokenInfoUpdated', tokenId: Number(args.tokenId), name: args.name, description: args.description };
+    case 'TokenDeactivated':
+      return { ...base, kind: 'TokenDeactivated', tokenId: Number(args.tokenId) };
+    case 'TokenReactivated':
+      return { ...base, kind: 'TokenReactivated', tokenId: Number(args.tokenId) };
+    case 'MaxSupplyUpdated':
+      return { ...base, kind: 'MaxSupplyUpdated', tokenId: Number(args.tokenId), oldMaxSupply: BigInt(args.oldMaxSupply), newMaxSupply: BigInt(args.newMaxSupply) };
+    case 'SupplyFrozen':
+      return { ...base, kind: 'SupplyFrozen', tokenId: Number(args.tokenId), maxSupply: BigInt(args.maxSupply) };
+    case 'TransferRestrictionSet':
+      return { ...base, kind: 'TransferRestrictionSet', tokenId: Number(args.tokenId), restricted: Boolean(args.restricted) };
+    case 'AllowlistUpdated':
+      return { ...base, kind: 'AllowlistUpdated', account: args.account, allowed: Boolean(args.allowed) };
+    case 'AccountFrozen':
+      return { ...base, kind: 'AccountFrozen', account: args.account, frozen: Boolean(args.frozen) };
+    case 'DividendPaid':
+      return { ...base, kind: 'DividendPaid', to: args.to, amount: BigInt(args.amount) };
+    case 'USDCAdded':
+      return { ...base, kind: 'USDCAdded', from: args.from, amount: BigInt(args.amount) };
+    case 'USDCWithdrawn':
+      return { ...base, kind: 'USDCWithdrawn', to: args.to, amount: BigInt(args.amount) };
+    case 'USDCAddressSet':
+      return { ...base, kind: 'USDCAddressSet', oldAddress: args.oldAddress, newAddress: args.newAddress };
+    case 'MetadataUpdate':
+      return { ...base, kind: 'MetadataUpdate', tokenId: BigInt(args._tokenId) };
+    case 'BatchMetadataUpdate':
+      return { ...base, kind: 'BatchMetadataUpdate', fromTokenId: BigInt(args._fromTokenId), toTokenId: BigInt(args._toTokenId) };
+    case 'DefaultRoyaltySet':
+      return { ...base, kind: 'DefaultRoyaltySet', receiver: args.receiver, feeBasisPoints: Number(args.feeBasisPoints) };
+    case 'TokenRoyaltySet':
+      return { ...base, kind: 'TokenRoyaltySet', tokenId: Number(args.tokenId), receiver: args.receiver, feeBasisPoints: Number(args.feeBasisPoints) };
+    case 'TokenRoyaltyReset':
+      return { ...base, kind: 'TokenRoyaltyReset', tokenId: Number(args.tokenId) };
+    case 'Paused':
+      return { ...base, kind: 'Paused', account: args.account };
+    case 'Unpaused':
+      return { ...base, kind: 'Unpaused', account: args.account };
+    case 'RoleGranted':
+      return { ...base, kind: 'RoleGranted', role: args.role, account: args.account, sender: args.sender };
+    case 'RoleRevoked':
+      return { ...base, kind: 'RoleRevoked', role: args.role, account: args.account, sender: args.sender };
+    case 'RoleAdminChanged':
+      return { ...base, kind: 'RoleAdminChanged', role: args.role, previousAdminRole: args.previousAdminRole, newAdminRole: args.newAdminRole };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Keep only events of the given kinds, narrowing the event type.
+ *
+ * @param events Events to filter
+ * @param kinds Event kinds to keep
+ * @returns Matching events in their original order
+ */
+export function filterEventsByKind<K extends ContractEventKind>(
+  events: ContractEvent[],
+  kinds: K[]
+): Extract<ContractEvent, { kind: K }>[] {
+  return events.filter((event): event is Extract<ContractEvent, { kind: K }> =>
+    (kinds as ContractEventKind[]).includes(event.kind)
+  );
+}
+
+/**
+ * Parse a comma separated list of event kinds and group names.
+ *
+ * @param input e.g. "DividendPaid,USDCAdded" or "payouts,admin"
+ * @returns The event kinds, without duplicates
+ */
+export function parseEventKinds(input: string): ContractEventKind[] {
+  const kinds = new Set<ContractEventKind>();
+
+  for (const part of input.split(",").map(part => part.trim()).filter(part => part !== "")) {
+    const group = EVENT_KIND_GROUPS[part.toLowerCase()];
+    const kind = CONTRACT_EVENT_KINDS.find(kind => kind.toLowerCase() === part.toLowerCase());
+
+    if (group) {
+      group.forEach(kind => kinds.add(kind));
+    } else if (kind) {
+      kinds.add(kind);
+    } else {
+      throw new Error(
+        `Unknown event kind "${part}". Use one of ${CONTRACT_EVENT_KINDS.join(", ")} ` +
+        `or a group: ${Object.keys(EVENT_KIND_GROUPS).join(", ")}`
+      );
+    }
+  }
+
+  return Array.from(kinds);
+}
+
+/**
+ * Get all contract events from the local event index.
+ *
+ * @param contractAddress The NFT contract address
+ * @param options Block range and event kinds
+ * @returns ContractEventsResult with events in chain order
+ */
+export async function getContractEvents(
+  contractAddress: string,
+  options: ContractEventsOptions = {}
+): Promise<ContractEventsResult> {
+  try {
+    const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", contractAddress) as SecretOfTheDeepNFT;
+
+    const syncResult = await syncContractEvents(nftContract, { fromBlock: options.fromBlock });
+    if (!syncResult.success || !syncResult.state) {
+      return {
+        success: false,
+        error: `Event index sync failed: ${syncResult.error}`
+      };
+    }
+
+    let events = readIndexedEvents(syncResult.state.chainId, contractAddress)
+      .filter(event =>
+        (options.fromBlock === undefined || event.blockNumber >= options.fromBlock) &&
+        (options.toBlock === undefined || event.blockNumber <= options.toBlock)
+      )
+      .map(toContractEvent)
+      .filter((event): event is ContractEvent => event !== undefined);
+
+    if (options.kinds) {
+      events = filterEventsByKind(events, options.kinds);
+    }
+
+    const countsByKind: Partial<Record<ContractEventKind, number>> = {};
+    for (const event of events) {
+      countsByKind[event.kind] = (countsByKind[event.kind] ?? 0) + 1;
+    }
+
+    return {
+      success: true,
+      data: {
+        totalEvents: events.length,
+        countsByKind,
+        events
+      }
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+const usdc = (amount: bigint) => `${ethers.formatUnits(amount, 6)} USDC`;
+
+/**
+ * Describe an event in one line for a timeline.
+ *
+ * Addresses in the address book are shown with their name.
+ *
+ * @param event The event to describe
+ * @param addressBook Address book for names (default: .wallets.json)
+ * @returns Icon and description, without block or time
+ */
+export function describeContractEvent(
+  event: ContractEvent,
+  addressBook: Record<string, string> = loadAddressBook()
+): string {
+  const name = (address: string) => formatAddress(address, addressBook);
+
+  switch (event.kind) {
+    case 'TransferSingle':
+      return `📤 Transfer ${name(event.from)} → ${name(event.to)} (Token ${event.tokenId}: ${event.amount})`;
+    case 'TransferBatch':
+      return `📦 Batch transfer ${name(event.from)} → ${name(event.to)} (${event.tokenIds.map((id, index) => `Token ${id}: ${event.amounts[index]}`).join(', ')})`;
+    case 'TokenCreated':
+      return `🆕 Token ${event.tokenId} created: "${event.name}" (max supply ${event.maxSupply})`;
+    case 'TokenMinted':
+      return `🪙 Minted ${event.amount} of token ${event.tokenId} to ${name(event.to)}`;
+    case 'TokenBurned':
+      return `🔥 Burned ${event.amount} of token ${event.tokenId} from ${name(event.from)}`;
+    case 'TokenPayback':
+      return `💸 Payback: ${name(event.from)} returned ${event.tokenAmount} of token ${event.tokenId} for ${usdc(event.usdcAmount)}`;
+    case 'RedemptionRequested':
+      return `🙋 Redemption #${event.redemptionId}: ${name(event.holder)} offers ${event.tokenAmount} of token ${event.tokenId} for ${usdc(event.requestedUsdc)}`;
+    case 'RedemptionCountered':
+      return `↩️  Redemption #${event.redemptionId} countered at ${usdc(event.counterUsdc)}`;
+    case 'RedemptionAccepted':
+      return `🤝 Redemption #${event.redemptionId} accepted for ${usdc(event.usdcAmount)}`;
+    case 'RedemptionRejected':
+      return `🚫 Redemption #${event.redemptionId} rejected, tokens returned`;
+    case 'RedemptionCancelled':
+      return `↪️  Redemption #${event.redemptionId} cancelled, tokens returned`;
+    case 'TokenInfoUpdated':
+      return `✏️  Token ${event.tokenId} info updated: "${event.name}"`;
+    case 'TokenDeactivated':
+      return `🗄️  Token ${event.tokenId} retired, no more minting`;
+    case 'TokenReactivated':
+      return `♻️  Token ${event.tokenId} reactivated`;
+    case 'MaxSupplyUpdated':
+      return `📏 Token ${event.tokenId} max supply changed ${event.oldMaxSupply} → ${event.newMaxSupply}`;
+    case 'SupplyFrozen':
+      return `🧊 Token ${event.tokenId} max supply frozen at ${event.maxSupply}`;
+    case 'TransferRestrictionSet':
+      return event.restricted
+        ? `🔒 Token ${event.tokenId} transfers restricted to allowlisted investors`
+        : `🔓 Token ${event.tokenId} transfers unrestricted`;
+    case 'AllowlistUpdated':
+      return `🛂 ${name(event.account)} ${event.allowed ? "added to" : "removed from"} the allowlist`;
+    case 'AccountFrozen':
+      return `${event.frozen ? "🧊" : "💧"} ${name(event.account)} ${event.frozen ? "frozen" : "unfrozen"}`;
+    case 'DividendPaid':
+      return `💰 Dividend of ${usdc(event.amount)} paid to ${name(event.to)}`;
+    case 'USDCAdded':
+      return `🏦 ${usdc(event.amount)} added by ${name(event.from)}`;
+    case 'USDCWithdrawn':
+      return `🏧 ${usdc(event.amount)} withdrawn to ${name(event.to)}`;
+    case 'USDCAddressSet':
+      return `🔧 USDC address changed ${name(event.oldAddress)} → ${name(event.newAddress)}`;
+    case 'MetadataUpdate':
+      return `🔗 Metadata updated for token ${event.tokenId}`;
+    case 'BatchMetadataUpdate':
+      return event.toTokenId === ethers.MaxUint256
+        ? `🔗 Metadata updated for all tokens`
+        : `🔗 Metadata updated for tokens ${event.fromTokenId}-${event.toTokenId}`;
+    case 'DefaultRoyaltySet':
+      return `👑 Default royalty set to ${event.feeBasisPoints / 100}% paid to ${name(event.receiver)}`;
+    case 'TokenRoyaltySet':
+      return `👑 Token ${event.tokenId} royalty set to ${event.feeBasisPoints / 100}% paid to ${name(event.receiver)}`;
+    case 'TokenRoyaltyReset':
+      return `👑 Token ${event.tokenId} royalty reset to the default`;
+    case 'Paused':
+      return `⏸️  Contract paused by ${name(event.account)}`;
+    case 'Unpaused':
+      return `▶️  Contract unpaused by ${name(event.account)}`;
+    case 'RoleGranted':
+      return `🔑 ${getRoleName(event.role)} role granted to ${name(event.account)} by ${name(event.sender)}`;
+    case 'RoleRevoked':
+      return `🔒 ${getRoleName(event.role)} role revoked from ${name(event.account)} by ${name(event.sender)}`;
+    case 'RoleAdminChanged':
+      return `👑 ${getRoleName(event.role)} role now managed by ${getRoleName(event.newAdminRole)} (was ${getRoleName(event.previousAdminRole)})`;
+  }
+}
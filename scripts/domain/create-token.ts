@@ -0,0 +1,113 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+
+/**
+ * Largest max supply the contract can store (uint64).
+ */
+export const MAX_SUPPLY_LIMIT = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * A new token type.
+ */
+export interface NewToken {
+  tokenId: number;
+  name: string;
+  description: string;
+  maxSupply: bigint;
+}
+
+/**
+ * The result of creating a token type.
+ */
+export interface CreateTokenResult {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+/**
+ * Check a new token type against the contract before creating it.
+ *
+ * @param nftContract - The NFT contract.
+ * @param token - The token type to create.
+ * @returns An error message, or undefined if the token can be created.
+ */
+export async function validateNewToken(
+  nftContract: SecretOfTheDeepNFT,
+  token: NewToken
+): Promise<string | undefined> {
+  if (!Number.isInteger(token.tokenId) || token.tokenId < 0) {
+    return `Invalid token ID ${token.tokenId}`;
+  }
+
+  if (token.name.trim() === "") {
+    return "Token name must not be empty";
+  }
+
+  if (token.maxSupply <= BigInt(0)) {
+    return "Max supply must be greater than 0";
+  }
+
+  if (token.maxSupply > MAX_SUPPLY_LIMIT) {
+    return `Max supply cannot exceed ${MAX_SUPPLY_LIMIT}`;
+  }
+
+  const existing = await nftContract.getTokenInfo(token.tokenId);
+  if (existing.exists) {
+    return `Token ID ${token.tokenId} already exists (${existing.name})`;
+  }
+}
+
+/**
+ * Create a new token type.
+ *
+ * @param nftContract - The NFT contract.
+ * @param token - The token type to create.
+ * @param signer - The signer to use for the transaction.
+ * @returns The result of the creation.
+ */
+export async function createToken(
+  nftContract: SecretOfTheDeepNFT,
+  token: NewToken,
+  signer?: any
+): Promise<CreateTokenResult> {
+  try {
+    const validationError = await validateNewToken(nftContract, token);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const createSigner = signer || defaultSigner;
+
+    // Check that we hold the admin role
+    const roleError = await checkRole(nftContract, "admin", createSigner.address, "create tokens");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(createSigner).createToken(token.tokenId, token.name, token.description, token.maxSupply);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import type { Provider } from "ethers";
+
+/**
+ * Where a contract was created.
+ */
+export interface ContractCreation {
+  blockNumber: number;
+  /** Undefined when the contract was created by another contract */
+  transactionHash?: string;
+}
+
+/**
+ * Result of locating a contract's creation.
+ */
+export interface ContractCreationResult {
+  success: boolean;
+  error?: string;
+  data?: ContractCreation;
+}
+
+/**
+ * Locate the block and transaction that created a contract.
+ *
+ * Binary searches for the first block at which the address has code, which
+ * needs an RPC endpoint that serves historical state (an archive node), then
+ * looks for the deployment transaction in that block.
+ *
+ * @param provider The provider to query
+ * @param contractAddress The contract address
+ * @returns ContractCreationResult with the deployment block
+ */
+export async function findContractCreation(
+  provider: Provider,
+  contractAddress: string
+): Promise<ContractCreationResult> {
+  try {
+    const latestBlock = await provider.getBlockNumber();
+    if (await provider.getCode(contractAddress, latestBlock) === "0x") {
+      return {
+        success: false,
+        error: `No contract found at ${contractAddress}`
+      };
+    }
+
+    let low = 0;
+    let high = latestBlock;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+
+      let code: string;
+      try {
+        code = await provider.getCode(contractAddress, middle);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not read code at block ${middle}, the RPC endpoint may not serve historical state: ${message}`);
+      }
+
+      if (code === "0x") {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const block = await provider.getBlock(low, true);
+    if (!block) {
+      throw new Error(`Block ${low} not found`);
+    }
+
+    // Direct deployments have no `to`; anything else means a factory created the contract
+    let transactionHash: string | undefined;
+    for (const transaction of block.prefetchedTransactions) {
+      if (transaction.to !== null) continue;
+
+      const receipt = await provider.getTransactionReceipt(transaction.hash);
+      if (receipt?.contractAddress?.toLowerCase() === contractAddress.toLowerCase()) {
+        transactionHash = transaction.hash;
+        break;
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        blockNumber: low,
+        transactionHash
+      }
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
@@ -0,0 +1,325 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { getHolderSnapshot } from "./holder-snapshot";
+import { getAddressLabel, loadAddressBook } from "../utils/address-book";
+
+/**
+ * A token holder with balances for the selected token IDs.
+ */
+export interface TokenHolder {
+  address: string;
+  /** Balance per token ID */
+  balances: Record<number, bigint>;
+}
+
+/**
+ * A single holder's share of a dividend distribution.
+ */
+export interface DividendShare {
+  address: string;
+  /** Balance per token ID */
+  balances: Record<number, bigint>;
+  /** Sum of balance * weight over the selected token IDs */
+  weightedUnits: bigint;
+  /** USDC amount to pay (with 6 decimals) */
+  amount: bigint;
+}
+
+/**
+ * A computed pro-rata distribution.
+ */
+export interface DividendDistribution {
+  totalAmount: bigint;
+  totalWeightedUnits: bigint;
+  /** USDC left over after flooring each share, handed out one unit at a time */
+  dust: bigint;
+  shares: DividendShare[];
+}
+
+/**
+ * Result of getting the holders of token IDs.
+ */
+export interface TokenHoldersResult {
+  success: boolean;
+  error?: string;
+  holders?: TokenHolder[];
+}
+
+/**
+ * Result of executing a distribution.
+ */
+export interface DistributeDividendResult {
+  success: boolean;
+  error?: string;
+  transactionHashes: string[];
+  /** Number of recipients paid before a failure (all of them on success) */
+  paidRecipients: number;
+  newContractBalance?: bigint;
+}
+
+/**
+ * Get all current holders of the given token IDs.
+ *
+ * Uses a holder snapshot at the latest block. The replayed balances must
+ * match each token's current supply, otherwise the event scan missed holders.
+ *
+ * @param nftContract The NFT contract instance
+ * @param tokenIds Token IDs to get holders for
+ * @param fromBlock Block to start the event scan from
+ * @returns TokenHoldersResult with holders sorted by address
+ */
+export async function getTokenHolders(
+  nftContract: SecretOfTheDeepNFT,
+  tokenIds: number[],
+  fromBlock?: number
+): Promise<TokenHoldersResult> {
+  const snapshotResult = await getHolderSnapshot(nftContract, { fromBlock, tokenIds });
+
+  if (!snapshotResult.success || !snapshotResult.data) {
+    return {
+      success: false,
+      error: snapshotResult.error
+    };
+  }
+
+  const mismatch = snapshotResult.data.supplyChecks.find(check =>
+    tokenIds.includes(check.tokenId) && !check.matches
+  );
+  if (mismatch) {
+    return {
+      success: false,
+      error: `Found ${mismatch.replayedSupply} of ${mismatch.currentSupply} tokens for token ${mismatch.tokenId}. Some holders are missing, scan events from an earlier block.`
+    };
+  }
+
+  const holders: TokenHolder[] = [];
+  for (const holder of snapshotResult.data.holders) {
+    const balances: Record<number, bigint> = {};
+    for (const tokenId of tokenIds) {
+      if (holder.balances[tokenId] !== undefined) {
+        balances[tokenId] = holder.balances[tokenId];
+      }
+    }
+    if (Object.keys(balances).length > 0) {
+      holders.push({ address: holder.address, balances });
+    }
+  }
+
+  return {
+    success: true,
+    holders
+  };
+}
+
+/**
+ * Split a USDC amount between holders pro rata to their (weighted) balances.
+ *
+ * Each share is floored; the remaining dust is handed out one unit at a time
+ * to the holders with the largest remainders, ties broken by address, so the
+ * same inputs always produce the same distribution and the shares add up to
+ * exactly `totalAmount`.
+ *
+ * @param holders Holders with their balances
+ * @param totalAmount USDC amount to distribute (with 6 decimals)
+ * @param weights Weight per token ID (default: 1 for every token ID)
+ * @returns The computed distribution; holders with a zero share are left out
+ */
+export function computeProRataShares(
+  holders: TokenHolder[],
+  totalAmount: bigint,
+  weights: Record<number, bigint> = {}
+): DividendDistribution {
+  const weighted = holders.map(holder => {
+    let weightedUnits = BigInt(0);
+    for (const [tokenId, balance] of Object.entries(holder.balances)) {
+      weightedUnits += balance * (weights[Number(tokenId)] ?? BigInt(1));
+    }
+    return { holder, weightedUnits };
+  });
+
+  const totalWeightedUnits = weighted.reduce((sum, entry) => sum + entry.weightedUnits, BigInt(0));
+  if (totalWeightedUnits === BigInt(0)) {
+    throw new Error("Selected token types have no holders");
+  }
+
+  const entries = weighted.map(({ holder, weightedUnits }) => ({
+    holder,
+    weightedUnits,
+    amount: (totalAmount * weightedUnits) / totalWeightedUnits,
+    remainder: (totalAmount * weightedUnits) % totalWeightedUnits
+  }));
+
+  const distributed = entries.reduce((sum, entry) => sum + entry.amount, BigInt(0));
+  const dust = totalAmount - distributed;
+
+  // Largest remainder first, then by address for a stable order
+  const byRemainder = [...entries].sort((a, b) => {
+    if (a.remainder !== b.remainder) {
+      return a.remainder > b.remainder ? -1 : 1;
+    }
+    return a.holder.address.toLowerCase().localeCompare(b.holder.address.toLowerCase());
+  });
+  for (let i = BigInt(0); i < dust; i++) {
+    byRemainder[Number(i)].amount += BigInt(1);
+  }
+
+  return {
+    totalAmount,
+    totalWeightedUnits,
+    dust,
+    shares: entries
+      .filter(entry => entry.amount > BigInt(0))
+      .map(entry => ({
+        address: entry.holder.address,
+        balances: entry.holder.balances,
+        weightedUnits: entry.weightedUnits,
+        amount: entry.amount
+      }))
+  };
+}
+
+/**
+ * Parse per-token weights such as "1:3,2:2,3:1".
+ *
+ * @param input Comma separated tokenId:weight pairs
+ * @returns Weight per token ID
+ */
+export function parseTokenWeights(input: string): Record<number, bigint> {
+  const weights: Record<number, bigint> = {};
+
+  for (const pair of input.split(",").map(part => part.trim()).filter(part => part !== "")) {
+    const [tokenId, weight] = pair.split(":").map(part => part.trim());
+    if (!/^\d+$/.test(tokenId ?? "") || !/^\d+$/.test(weight ?? "")) {
+      throw new Error(`Invalid weight "${pair}". Use tokenId:weight, e.g. 1:3,2:2,3:1`);
+    }
+    weights[Number(tokenId)] = BigInt(weight);
+  }
+
+  return weights;
+}
+
+/**
+ * Print a distribution as a preview table.
+ *
+ * @param distribution The distribution to print
+ * @param tokenIds Token IDs to show balance columns for
+ */
+export function printDistributionPreview(distribution: DividendDistribution, tokenIds: number[]): void {
+  const addressBook = loadAddressBook();
+  const labels = distribution.shares.map(share => getAddressLabel(share.address, addressBook) ?? "");
+  const labelWidth = Math.max(4, ...labels.map(label => label.length));
+
+  const header = [
+    "Address".padEnd(42),
+    "Name".padEnd(labelWidth),
+    ...tokenIds.map(id => `Token ${id}`.padStart(9)),
+    "Units".padStart(9),
+    "USDC".padStart(16)
+  ].join("  ");
+
+  console.log(header);
+  console.log("━".repeat(header.length));
+
+  distribution.shares.forEach((share, index) => {
+    console.log([
+      share.address.padEnd(42),
+      labels[index].padEnd(labelWidth),
+      ...tokenIds.map(id => (share.balances[id] ?? BigInt(0)).toString().padStart(9)),
+      share.weightedUnits.toString().padStart(9),
+      ethers.formatUnits(share.amount, 6).padStart(16)
+    ].join("  "));
+  });
+
+  console.log("━".repeat(header.length));
+  console.log(`Recipients: ${distribution.shares.length}`);
+  console.log(`Total units: ${distribution.totalWeightedUnits}`);
+  console.log(`Total USDC: ${ethers.formatUnits(distribution.totalAmount, 6)} USDC`);
+  console.log(`Rounding dust: ${distribution.dust} (smallest USDC units, assigned by largest remainder)`);
+}
+
+/**
+ * Pay out a computed distribution with `payDividendBatch`.
+ *
+ * Recipients are paid in batches of `batchSize` to stay within the block gas
+ * limit. Execution stops at the first failing batch.
+ *
+ * @param nftContract The NFT contract instance
+ * @param distribution The distribution to pay out
+ * @param batchSize Maximum recipients per transaction (default: 100)
+ * @param signer The signer to use for the transactions
+ * @returns DistributeDividendResult with the transaction hashes
+ */
+export async function distributeDividend(
+  nftContract: SecretOfTheDeepNFT,
+  distribution: DividendDistribution,
+  batchSize: number = 100,
+  signer?: any
+): Promise<DistributeDividendResult> {
+  const transactionHashes: string[] = [];
+  let paidRecipients = 0;
+
+  try {
+    if (distribution.shares.length === 0) {
+      return {
+        success: false,
+        error: "Nothing to distribute",
+        transactionHashes,
+        paidRecipients
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const dividendSigner = signer || defaultSigner;
+
+    // Check that we hold the treasurer role
+    const roleError = await checkRole(nftContract, "treasurer", dividendSigner.address, "pay dividends");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError,
+        transactionHashes,
+        paidRecipients
+      };
+    }
+
+    // Check contract USDC balance
+    const contractBalance = await nftContract.getUSDCBalance();
+    if (distribution.totalAmount > contractBalance) {
+      return {
+        success: false,
+        error: `Contract only has ${ethers.formatUnits(contractBalance, 6)} USDC, but the distribution needs ${ethers.formatUnits(distribution.totalAmount, 6)} USDC`,
+        transactionHashes,
+        paidRecipients
+      };
+    }
+
+    for (let start = 0; start < distribution.shares.length; start += batchSize) {
+      const batch = distribution.shares.slice(start, start + batchSize);
+      const tx = await nftContract.connect(dividendSigner).payDividendBatch(
+        batch.map(share => share.address),
+        batch.map(share => share.amount)
+      );
+      await tx.wait();
+
+      transactionHashes.push(tx.hash);
+      paidRecipients += batch.length;
+    }
+
+    return {
+      success: true,
+      transactionHashes,
+      paidRecipients,
+      newContractBalance: await nftContract.getUSDCBalance()
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      transactionHashes,
+      paidRecipients
+    };
+  }
+}
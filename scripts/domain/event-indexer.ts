@@ -0,0 +1,433 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Log } from "ethers";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { findDeployment } from "../utils/get-current-contract";
+
+/**
+ * A decoded contract event as stored in the local index.
+ *
+ * Numeric event arguments are stored as decimal strings so the index stays
+ * plain JSON.
+ */
+export interface IndexedEvent {
+  eventName: string;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, IndexedEventArg>;
+}
+
+export type IndexedEventArg = string | boolean | IndexedEventArg[];
+
+/**
+ * A block range that could not be fetched.
+ */
+export interface EventGap {
+  fromBlock: number;
+  toBlock: number;
+  error: string;
+}
+
+/**
+ * Sync state of the index for one contract on one chain.
+ */
+export interface EventIndexState {
+  chainId: string;
+  contractAddress: string;
+  /** First block covered by the index */
+  startBlock: number;
+  /** Last block covered by the index, startBlock - 1 before the first sync */
+  lastSyncedBlock: number;
+  /**
+   * Newest block that is not re-checked on the next sync. Its hash must be
+   * unchanged, otherwise the chain reorganized deeper than the index can repair.
+   */
+  checkpoint?: { blockNumber: number; blockHash: string };
+  updatedAt: string;
+}
+
+/**
+ * Options for syncing the event index.
+ */
+export interface SyncEventsOptions {
+  /**
+   * Block to start indexing from; earlier than the indexed range triggers a
+   * backfill (default: the deployment block recorded in .deployments.json)
+   */
+  fromBlock?: number;
+  /** Blocks per eth_getLogs request (default: 1000, halved on errors) */
+  chunkSize?: number;
+  /** Number of most recent indexed blocks to re-check for reorgs (default: 12) */
+  reorgDepth?: number;
+  /** Attempts per block range before giving up (default: 3) */
+  maxRetries?: number;
+}
+
+/**
+ * Result of syncing the event index.
+ */
+export interface SyncEventsResult {
+  success: boolean;
+  error?: string;
+  state?: EventIndexState;
+  /** Events added by this sync */
+  newEvents: number;
+  /** Events dropped because their block was reorged out */
+  reorgedEvents: number;
+  /** Range that could not be fetched; the index stops right before it */
+  gap?: EventGap;
+}
+
+const MIN_CHUNK_SIZE = 10;
+
+/**
+ * Directory holding the event index of a contract.
+ *
+ * @param chainId The chain ID
+ * @param contractAddress The contract address
+ * @returns Path to the index directory
+ */
+export function getEventIndexDir(chainId: string, contractAddress: string): string {
+  return path.join(__dirname, "..", "..", ".event-index", chainId, contractAddress.toLowerCase());
+}
+
+function readState(indexDir: string): EventIndexState | undefined {
+  const statePath = path.join(indexDir, "state.json");
+  if (!fs.existsSync(statePath)) {
+    return undefined;
+  }
+
+  return JSON.parse(fs.readFileSync(statePath, "utf8"));
+}
+
+function writeState(indexDir: string, state: EventIndexState): void {
+  fs.mkdirSync(indexDir, { recursive: true });
+  fs.writeFileSync(path.join(indexDir, "state.json"), JSON.stringify(state, null, 2));
+}
+
+function readEvents(indexDir: string): IndexedEvent[] {
+  const eventsPath = path.join(indexDir, "events.jsonl");
+  if (!fs.existsSync(eventsPath)) {
+    return [];
+  }
+
+  return fs.readFileSync(eventsPath, "utf8")
+    .split("\n")
+    .filter(line => line.trim() !== "")
+    .map(line => JSON.parse(line));
+}
+
+function writeEvents(indexDir: string, events: IndexedEvent[]): void {
+  fs.mkdirSync(indexDir, { recursive: true });
+  const content = events.map(event => JSON.stringify(event)).join("\n");
+  fs.writeFileSync(path.join(indexDir, "events.jsonl"), content ? content + "\n" : "");
+}
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+function serializeArg(value: any): IndexedEventArg {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "boolean") return value;
+  if (Array.isArray(value)) return Array.from(value, serializeArg);
+  return String(value);
+}
+
+/**
+ * Decode raw logs of the contract into indexed events.
+ *
+ * Logs that do not match the contract ABI are skipped.
+ */
+async function decodeLogs(contract: SecretOfTheDeepNFT, logs: Log[]): Promise<IndexedEvent[]> {
+  const provider = contract.runner!.provider!;
+  const timestamps = new Map<number, number>();
+  const events: IndexedEvent[] = [];
+
+  for (const log of logs) {
+    const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) continue;
+
+    if (!timestamps.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+    }
+
+    const args: Record<string, IndexedEventArg> = {};
+    parsed.fragment.inputs.forEach((input, index) => {
+      args[input.name] = serializeArg(parsed.args[index]);
+    });
+
+    events.push({
+      eventName: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      timestamp: timestamps.get(log.blockNumber)!,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Fetch and decode all contract events in a block range.
+ *
+ * The range is walked in chunks; a failing chunk is split in half down to
+ * MIN_CHUNK_SIZE blocks and retried. Whatever cannot be fetched is returned
+ * as a gap, together with everything fetched before it.
+ */
+async function fetchEventRange(
+  contract: SecretOfTheDeepNFT,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number,
+  maxRetries: number
+): Promise<{ events: IndexedEvent[]; syncedTo: number; gap?: EventGap }> {
+  const provider = contract.runner!.provider!;
+  const address = await contract.getAddress();
+  const events: IndexedEvent[] = [];
+  let size = chunkSize;
+  let startBlock = fromBlock;
+
+  while (startBlock <= toBlock) {
+    const endBlock = Math.min(startBlock + size - 1, toBlock);
+    let lastError: unknown;
+    let logs: Log[] | undefined;
+
+    for (let attempt = 1; attempt <= maxRetries && !logs; attempt++) {
+      try {
+        logs = await provider.getLogs({ address, fromBlock: startBlock, toBlock: endBlock });
+      } catch (error) {
+        lastError = error;
+        // Back off before retrying, e.g. on rate limits
+        await new Promise(resolve => setTimeout(resolve, 250 * attempt));
+      }
+    }
+
+    if (!logs) {
+      if (size > MIN_CHUNK_SIZE) {
+        size = Math.max(MIN_CHUNK_SIZE, Math.floor(size / 2));
+        continue;
+      }
+
+      return {
+        events,
+        syncedTo: startBlock - 1,
+        gap: {
+          fromBlock: startBlock,
+          toBlock,
+          error: lastError instanceof Error ? lastError.message : String(lastError)
+        }
+      };
+    }
+
+    events.push(...await decodeLogs(contract, logs));
+    startBlock = endBlock + 1;
+
+    // Small delay to avoid rate limiting
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  return { events, syncedTo: toBlock };
+}
+
+/**
+ * Sync the local event index of a contract.
+ *
+ * The index lives in `.event-index/<chainId>/<address>/` as `events.jsonl`
+ * plus a `state.json` with the indexed block range. Each sync resumes after
+ * the last synced block, first re-fetching the most recent `reorgDepth`
+ * blocks so events from reorged blocks are replaced. A reorg deeper than
+ * that is detected through the checkpoint hash and reported as an error.
+ * When a block range
+ * cannot be fetched, the index stops right before it and the range is
+ * reported as a gap; the next sync retries from there.
+ *
+ * @param contract The NFT contract instance
+ * @param options Sync options
+ * @returns SyncEventsResult with the new index state
+ */
+export async function syncContractEvents(
+  contract: SecretOfTheDeepNFT,
+  options: SyncEventsOptions = {}
+): Promise<SyncEventsResult> {
+  const {
+    chunkSize = 1000,
+    reorgDepth = 12,
+    maxRetries = 3
+  } = options;
+
+  try {
+    const provider = contract.runner?.provider;
+    if (!provider) throw new Error("No provider found");
+
+    const network = await provider.getNetwork();
+    const chainId = network.chainId.toString();
+    const contractAddress = await contract.getAddress();
+    const indexDir = getEventIndexDir(chainId, contractAddress);
+
+    const latestBlock = await provider.getBlockNumber();
+
+    let state = readState(indexDir);
+    let events = state ? readEvents(indexDir) : [];
+    let newEvents = 0;
+    let reorgedEvents = 0;
+
+    const fromBlock = options.fromBlock ?? findDeployment(chainId, contractAddress)?.deploymentBlock;
+
+    if (!state) {
+      const startBlock = fromBlock;
+      if (startBlock === undefined) {
+        return {
+          success: false,
+          error: "Deployment block unknown. Run scripts/backfill-deployment-block.ts or pass a start block.",
+          newEvents,
+          reorgedEvents
+        };
+      }
+
+      state = {
+        chainId,
+        contractAddress,
+        startBlock,
+        lastSyncedBlock: startBlock - 1,
+        updatedAt: new Date().toISOString()
+      };
+    }
+
+    // Backfill history before the indexed range
+    if (fromBlock !== undefined && fromBlock < state.startBlock) {
+      const backfill = await fetchEventRange(contract, fromBlock, state.startBlock - 1, chunkSize, maxRetries);
+      if (backfill.gap) {
+        return {
+          success: false,
+          error: `Could not backfill blocks ${backfill.gap.fromBlock}-${backfill.gap.toBlock}: ${backfill.gap.error}`,
+          state,
+          newEvents,
+          reorgedEvents,
+          gap: backfill.gap
+        };
+      }
+
+      events = [...backfill.events, ...events];
+      newEvents += backfill.events.length;
+      state.startBlock = fromBlock;
+    }
+
+    // Everything up to the checkpoint is trusted, everything after it is re-checked for reorgs
+    if (state.checkpoint) {
+      const block = await provider.getBlock(state.checkpoint.blockNumber);
+      if (block?.hash !== state.checkpoint.blockHash) {
+        return {
+          success: false,
+          error: `Block ${state.checkpoint.blockNumber} changed since the last sync. ` +
+            `The chain reorganized deeper than the re-checked blocks or was reset; reset the event index and sync again.`,
+          state,
+          newEvents,
+          reorgedEvents
+        };
+      }
+    }
+    const resumeFrom = state.checkpoint ? state.checkpoint.blockNumber + 1 : state.startBlock;
+    const recheckedEvents = events.filter(event => event.blockNumber >= resumeFrom);
+    events = events.filter(event => event.blockNumber < resumeFrom);
+
+    const fetched = await fetchEventRange(contract, resumeFrom, latestBlock, chunkSize, maxRetries);
+
+    // Events we had before and fetched again are not new; missing ones were reorged out
+    const fetchedKeys = new Set(fetched.events.map(event => `${event.blockHash}:${event.logIndex}`));
+    const recheckedKeys = new Set(recheckedEvents.map(event => `${event.blockHash}:${event.logIndex}`));
+    const recheckedUpTo = Math.min(state.lastSyncedBlock, fetched.syncedTo);
+
+    reorgedEvents += recheckedEvents.filter(event =>
+      event.blockNumber <= recheckedUpTo && !fetchedKeys.has(`${event.blockHash}:${event.logIndex}`)
+    ).length;
+    newEvents += fetched.events.filter(event => !recheckedKeys.has(`${event.blockHash}:${event.logIndex}`)).length;
+
+    // Events beyond a gap are dropped; they are fetched again once the gap is synced
+    events = [...events, ...fetched.events].sort(compareEvents);
+    state.lastSyncedBlock = fetched.syncedTo;
+
+    const checkpointBlock = state.lastSyncedBlock - reorgDepth;
+    if (checkpointBlock >= state.startBlock) {
+      const block = await provider.getBlock(checkpointBlock);
+      state.checkpoint = block?.hash ? { blockNumber: checkpointBlock, blockHash: block.hash } : undefined;
+    } else {
+      state.checkpoint = undefined;
+    }
+    state.updatedAt = new Date().toISOString();
+
+    writeEvents(indexDir, events);
+    writeState(indexDir, state);
+
+    if (fetched.gap) {
+      return {
+        success: false,
+        error: `Could not fetch blocks ${fetched.gap.fromBlock}-${fetched.gap.toBlock}: ${fetched.gap.error}`,
+        state,
+        newEvents,
+        reorgedEvents,
+        gap: fetched.gap
+      };
+    }
+
+    return {
+      success: true,
+      state,
+      newEvents,
+      reorgedEvents
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      newEvents: 0,
+      reorgedEvents: 0
+    };
+  }
+}
+
+/**
+ * Read indexed events of a contract without syncing.
+ *
+ * @param chainId The chain ID
+ * @param contractAddress The contract address
+ * @param eventNames Only return events with these names (default: all)
+ * @returns Indexed events in chain order
+ */
+export function readIndexedEvents(
+  chainId: string,
+  contractAddress: string,
+  eventNames?: string[]
+): IndexedEvent[] {
+  const events = readEvents(getEventIndexDir(chainId, contractAddress));
+  return eventNames ? events.filter(event => eventNames.includes(event.eventName)) : events;
+}
+
+/**
+ * Read the sync state of a contract's event index.
+ *
+ * @param chainId The chain ID
+ * @param contractAddress The contract address
+ * @returns The index state, or undefined if the contract was never indexed
+ */
+export function readEventIndexState(chainId: string, contractAddress: string): EventIndexState | undefined {
+  return readState(getEventIndexDir(chainId, contractAddress));
+}
+
+/**
+ * Delete the event index of a contract so the next sync starts from scratch.
+ *
+ * @param chainId The chain ID
+ * @param contractAddress The contract address
+ */
+export function resetEventIndex(chainId: string, contractAddress: string): void {
+  fs.rmSync(getEventIndexDir(chainId, contractAddress), { recursive: true, force: true });
+}
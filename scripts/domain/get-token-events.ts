@@ -1,84 +1,16 @@
 import { ethers } from "hardhat";
 import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { readIndexedEvents, syncContractEvents } from "./event-indexer";
 
 // Helper function to check if address is zero address
 function isZeroAddress(address: string): boolean {
   return address === "0x0000000000000000000000000000000000000000";
 }
 
-// Helper function to get all events in chunks to avoid "range too large" errors
-async function getAllEventsInChunks(
-  contract: SecretOfTheDeepNFT,
-  fromBlock?: number,
-  chunkSize: number = 100
-): Promise<any[]> {
-  const provider = contract.runner?.provider;
-  if (!provider) throw new Error("No provider found");
-
-  const currentBlock = await provider.getBlockNumber();
-  
-  // If no fromBlock specified, start from 0 or try to estimate deployment block
-  let startFrom = fromBlock;
-  if (!startFrom) {
-    // For mainnet, try to start from a reasonable recent block to avoid scanning too far back
-    const blocksToScanBack = 100000; // Scan last ~55 hours on Polygon (2 sec blocks)
-    startFrom = Math.max(0, currentBlock - blocksToScanBack);
-  }
-  
-  const allEvents = [];
-
-  for (let startBlock = startFrom; startBlock <= currentBlock; startBlock += chunkSize) {
-    const endBlock = Math.min(startBlock + chunkSize - 1, currentBlock);
-    
-    // Skip if startBlock > endBlock (safety check)
-    if (startBlock > endBlock) break;
-    
-    try {
-      // Get TransferSingle events
-      const singleEvents = await contract.queryFilter(
-        contract.filters.TransferSingle(),
-        startBlock,
-        endBlock
-      );
-      
-      // Get TransferBatch events
-      const batchEvents = await contract.queryFilter(
-        contract.filters.TransferBatch(),
-        startBlock,
-        endBlock
-      );
-      
-      allEvents.push(...singleEvents, ...batchEvents);
-      
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-    } catch (error) {
-      // If chunk is still too large, try much smaller chunks
-      if (error instanceof Error && error.message.includes("range is too large")) {
-        const smallerChunkSize = Math.max(10, Math.floor(chunkSize / 10));
-        
-        try {
-          const smallerEvents = await getAllEventsInChunks(contract, startBlock, smallerChunkSize);
-          allEvents.push(...smallerEvents);
-          startBlock = endBlock; // Skip the range we just processed
-        } catch (nestedError) {
-          // Continue with next chunk instead of failing completely
-          continue;
-        }
-      } else {
-        // For other errors, log and continue
-        continue;
-      }
-    }
-  }
-
-  return allEvents;
-}
-
 export interface TokenTransferEvent {
   eventType: 'single' | 'batch';
   blockNumber: number;
+  logIndex: number;
   timestamp: number;
   dateTime: string;
   from: string;
@@ -119,62 +51,70 @@ export interface TokenEventsSummary {
 
 /**
  * Get all token transfer events for the contract
+ *
+ * Syncs the local event index first, so only blocks after the last sync are
+ * fetched from the RPC. Fails if the index cannot be brought up to date.
+ *
+ * @param contractAddress The NFT contract address
+ * @param fromBlock Block to start scanning from
+ * @param toBlock Last block to include (default: latest block)
  */
 export async function getTokenEvents(
   contractAddress: string,
-  fromBlock?: number
+  fromBlock?: number,
+  toBlock?: number
 ): Promise<TokenEventsInfo> {
   try {
     const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", contractAddress) as SecretOfTheDeepNFT;
-    
-    // Get all transfer events using chunked approach
-    const allEvents = await getAllEventsInChunks(nftContract, fromBlock);
-    
-    // Get block info for all events and sort by timestamp
-    const eventsWithTimestamps = await Promise.all(
-      allEvents.map(async (event) => {
-        const block = await event.getBlock();
-        return {
-          event,
-          timestamp: block.timestamp,
-          blockNumber: block.number
-        };
-      })
+
+    const syncResult = await syncContractEvents(nftContract, { fromBlock });
+    if (!syncResult.success || !syncResult.state) {
+      return {
+        success: false,
+        error: `Event index sync failed: ${syncResult.error}`
+      };
+    }
+
+    const indexedEvents = readIndexedEvents(
+      syncResult.state.chainId,
+      contractAddress,
+      ['TransferSingle', 'TransferBatch']
+    ).filter(event =>
+      (fromBlock === undefined || event.blockNumber >= fromBlock) &&
+      (toBlock === undefined || event.blockNumber <= toBlock)
     );
-    
-    // Sort by timestamp (oldest first)
-    eventsWithTimestamps.sort((a, b) => a.timestamp - b.timestamp);
-    
+
     // Convert to our interface format
     const events: TokenTransferEvent[] = [];
-    
-    for (const { event, timestamp, blockNumber } of eventsWithTimestamps) {
-      const dateTime = new Date(timestamp * 1000).toISOString();
-      
+
+    for (const event of indexedEvents) {
+      const dateTime = new Date(event.timestamp * 1000).toISOString();
+      const args = event.args as Record<string, any>;
+
       if (event.eventName === 'TransferSingle') {
-        const args = event.args as any;
         events.push({
           eventType: 'single',
-          blockNumber,
-          timestamp,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          timestamp: event.timestamp,
           dateTime,
           from: args.from,
           to: args.to,
           tokenId: Number(args.id),
-          amount: args.value,
+          amount: BigInt(args.value),
           transactionHash: event.transactionHash
         });
-      } else if (event.eventName === 'TransferBatch') {
-        const args = event.args as any;
+      } else {
         events.push({
           eventType: 'batch',
-          blockNumber,
-          timestamp,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          timestamp: event.timestamp,
           dateTime,
           from: args.from,
           to: args.to,
-          tokenIds: args.ids.map((id: any) => Number(id)),
-          amounts: args.values,
+          tokenIds: (args.ids as string[]).map(id => Number(id)),
+          amounts: (args.values as string[]).map(value => BigInt(value)),
           transactionHash: event.transactionHash
         });
       }
@@ -1,5 +1,6 @@
 import { ethers } from "hardhat";
 import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { DEFAULT_IPFS_GATEWAY, resolveIpfsUri } from "./ipfs";
 
 /**
  * Token metadata information
@@ -41,6 +42,8 @@ export interface GetMetadataOptions {
   fetchMetadata?: boolean;
   /** Specific token ID to check (if provided, only this token will be checked) */
   tokenId?: number;
+  /** Gateway used for ipfs:// URIs (default: IPFS_GATEWAY or https://ipfs.io/ipfs/) */
+  ipfsGateway?: string;
 }
 
 /**
@@ -56,7 +59,7 @@ async function getAllTokens(nftContract: SecretOfTheDeepNFT, maxTokenIds: number
   for (let i = 1; i <= maxTokenIds; i++) {
     try {
       const tokenInfo = await nftContract.getTokenInfo(i);
-      if (tokenInfo.isActive) {
+      if (tokenInfo.exists) {
         const uri = await nftContract.uri(i);
         tokens.push({
           id: i,
@@ -78,19 +81,52 @@ async function getAllTokens(nftContract: SecretOfTheDeepNFT, maxTokenIds: number
   return tokens;
 }
 
+/**
+ * Decode a `data:` URI, as returned by uri() in on-chain metadata mode
+ * 
+ * @param uri The data: URI
+ * @returns The media type and content, or undefined if the URI is malformed
+ */
+export function decodeDataUri(uri: string): { mimeType: string; data: Buffer } | undefined {
+  const match = uri.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+  if (!match) {
+    return undefined;
+  }
+
+  const mimeType = match[1].split(";")[0] || "text/plain";
+  const data = match[2] ? Buffer.from(match[3], "base64") : Buffer.from(decodeURIComponent(match[3]));
+  return { mimeType, data };
+}
+
 /**
  * Check if a URI is accessible and fetch metadata
  * 
  * @param uri The URI to check
  * @param fetchContent Whether to fetch the actual metadata content
+ * @param ipfsGateway Gateway used for ipfs:// URIs
  * @returns Object with accessibility status and metadata
  */
 async function checkUriAccessibility(
   uri: string, 
-  fetchContent: boolean = true
+  fetchContent: boolean = true,
+  ipfsGateway: string = DEFAULT_IPFS_GATEWAY
 ): Promise<{ accessible: boolean; statusCode?: number; metadata?: any }> {
   try {
-    const response = await fetch(uri);
+    // On-chain metadata is embedded in the URI itself
+    if (uri.startsWith("data:")) {
+      const decoded = decodeDataUri(uri);
+      let metadata: any = undefined;
+      if (decoded && fetchContent) {
+        try {
+          metadata = JSON.parse(decoded.data.toString("utf8"));
+        } catch (error) {
+          // Metadata is not valid JSON, but the URI could be decoded
+        }
+      }
+      return { accessible: decoded !== undefined, metadata };
+    }
+
+    const response = await fetch(resolveIpfsUri(uri, ipfsGateway));
     const accessible = response.ok;
     const statusCode = response.status;
     
@@ -125,7 +161,8 @@ export async function getTokenMetadata(
       maxTokenIds = 20,
       checkAccessibility = true,
       fetchMetadata = true,
-      tokenId
+      tokenId,
+      ipfsGateway
     } = options;
 
     let tokens: TokenMetadata[];
@@ -134,11 +171,11 @@ export async function getTokenMetadata(
       // Get specific token
       try {
         const tokenInfo = await nftContract.getTokenInfo(tokenId);
-        if (!tokenInfo.isActive) {
+        if (!tokenInfo.exists) {
           return {
             success: false,
             tokens: [],
-            error: `Token ID ${tokenId} is not active`
+            error: `Token ID ${tokenId} does not exist`
           };
         }
 
@@ -176,7 +213,7 @@ export async function getTokenMetadata(
     // Check accessibility and fetch metadata if requested
     if (checkAccessibility) {
       for (const token of tokens) {
-        const uriCheck = await checkUriAccessibility(token.uri, fetchMetadata);
+        const uriCheck = await checkUriAccessibility(token.uri, fetchMetadata, ipfsGateway);
         token.accessible = uriCheck.accessible;
         token.statusCode = uriCheck.statusCode;
         if (fetchMetadata) {
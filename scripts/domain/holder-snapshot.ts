@@ -0,0 +1,358 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { getTokenEvents, type TokenTransferEvent } from "./get-token-events";
+import { readIndexedEvents } from "./event-indexer";
+import { getAddressLabel, loadAddressBook } from "../utils/address-book";
+
+/**
+ * Balances of one address at the snapshot block.
+ */
+export interface SnapshotHolder {
+  address: string;
+  /** Balance per token ID, only non-zero balances */
+  balances: Record<number, bigint>;
+}
+
+/**
+ * Comparison of replayed totals with the on-chain supply of a token ID.
+ */
+export interface SupplyCheck {
+  tokenId: number;
+  replayedSupply: bigint;
+  currentSupply: bigint;
+  matches: boolean;
+}
+
+/**
+ * Who held how many of each token ID at a given block.
+ */
+export interface HolderSnapshot {
+  contractAddress: string;
+  blockNumber: number;
+  blockTimestamp: number;
+  dateTime: string;
+  /** First block of the event scan */
+  fromBlock?: number;
+  /** Whether the snapshot was taken at the latest block */
+  isLatest: boolean;
+  /** Holders sorted by address */
+  holders: SnapshotHolder[];
+  /** Total balance per token ID over all holders */
+  totals: Record<number, bigint>;
+  /** Only filled in when the snapshot block is the latest block */
+  supplyChecks: SupplyCheck[];
+}
+
+/**
+ * Result of taking a holder snapshot.
+ */
+export interface HolderSnapshotResult {
+  success: boolean;
+  error?: string;
+  data?: HolderSnapshot;
+}
+
+/**
+ * Options for taking a holder snapshot.
+ */
+export interface HolderSnapshotOptions {
+  /** Record date block (default: latest block) */
+  blockNumber?: number;
+  /** Block to start the event scan from, should be at or before the deployment */
+  fromBlock?: number;
+  /** Token IDs to always cross-check, even if they have no transfers */
+  tokenIds?: number[];
+}
+
+/**
+ * Replay transfer events into per-address, per-token balances.
+ *
+ * Mints come from and burns go to the zero address, which is not tracked as
+ * a holder.
+ *
+ * @param events Transfer events in chain order
+ * @returns Balance per address (checksummed) and token ID
+ */
+export function replayTransfers(events: TokenTransferEvent[]): Map<string, Map<number, bigint>> {
+  const balances = new Map<string, Map<number, bigint>>();
+
+  const apply = (address: string, tokenId: number, delta: bigint, event: TokenTransferEvent) => {
+    if (address === ethers.ZeroAddress) return;
+
+    const key = ethers.getAddress(address);
+    const holderBalances = balances.get(key) ?? new Map<number, bigint>();
+    const balance = (holderBalances.get(tokenId) ?? BigInt(0)) + delta;
+
+    if (balance < BigInt(0)) {
+      throw new Error(
+        `Balance of ${key} for token ${tokenId} went negative at block ${event.blockNumber}. ` +
+        `Some transfers are missing, scan events from an earlier block.`
+      );
+    }
+
+    holderBalances.set(tokenId, balance);
+    balances.set(key, holderBalances);
+  };
+
+  for (const event of events) {
+    const ids = event.eventType === 'single' ? [event.tokenId!] : event.tokenIds!;
+    const amounts = event.eventType === 'single' ? [event.amount!] : event.amounts!;
+
+    ids.forEach((tokenId, index) => {
+      apply(event.from, tokenId, -amounts[index], event);
+      apply(event.to, tokenId, amounts[index], event);
+    });
+  }
+
+  return balances;
+}
+
+/**
+ * Hand tokens locked in the contract for a redemption back to the holders
+ * who requested it.
+ *
+ * While a request is pending or countered its tokens sit in the contract, but
+ * they still belong to the holder until the request is accepted. The contract
+ * itself is removed from the balances.
+ *
+ * Open requests are rebuilt from the indexed redemption events instead of
+ * reading contract state at the snapshot block, which would need an archive node.
+ *
+ * @param contractAddress The NFT contract address
+ * @param chainId Chain ID of the event index
+ * @param balances Replayed balances, updated in place
+ * @param blockNumber Last block of the snapshot
+ */
+function creditLockedTokens(
+  contractAddress: string,
+  chainId: string,
+  balances: Map<string, Map<number, bigint>>,
+  blockNumber: number
+): void {
+  if (!balances.delete(ethers.getAddress(contractAddress))) return;
+
+  // Every request is closed by exactly one accept, reject or cancel
+  const openRequests = new Map<string, { holder: string; tokenId: number; tokenAmount: bigint }>();
+  const events = readIndexedEvents(chainId, contractAddress, [
+    'RedemptionRequested',
+    'RedemptionAccepted',
+    'RedemptionRejected',
+    'RedemptionCancelled'
+  ]).filter(event => event.blockNumber <= blockNumber);
+
+  for (const event of events) {
+    const args = event.args as Record<string, string>;
+    if (event.eventName === 'RedemptionRequested') {
+      openRequests.set(args.redemptionId, {
+        holder: ethers.getAddress(args.holder),
+        tokenId: Number(args.tokenId),
+        tokenAmount: BigInt(args.tokenAmount)
+      });
+    } else {
+      openRequests.delete(args.redemptionId);
+    }
+  }
+
+  for (const { holder, tokenId, tokenAmount } of openRequests.values()) {
+    const holderBalances = balances.get(holder) ?? new Map<number, bigint>();
+    holderBalances.set(tokenId, (holderBalances.get(tokenId) ?? BigInt(0)) + tokenAmount);
+    balances.set(holder, holderBalances);
+  }
+}
+
+/**
+ * Take a snapshot of all token holders at a given block.
+ *
+ * Tokens locked for an open redemption are counted for the holder who
+ * requested it, not for the contract.
+ *
+ * When the snapshot block is the latest block, the replayed totals are
+ * cross-checked against `tokenInfo(id).currentSupply`.
+ *
+ * @param nftContract The NFT contract instance
+ * @param options Snapshot options
+ * @returns HolderSnapshotResult with the snapshot
+ */
+export async function getHolderSnapshot(
+  nftContract: SecretOfTheDeepNFT,
+  options: HolderSnapshotOptions = {}
+): Promise<HolderSnapshotResult> {
+  try {
+    const provider = nftContract.runner?.provider;
+    if (!provider) throw new Error("No provider found");
+
+    const contractAddress = await nftContract.getAddress();
+    const latestBlock = await provider.getBlockNumber();
+    const blockNumber = options.blockNumber ?? latestBlock;
+
+    if (blockNumber > latestBlock) {
+      return {
+        success: false,
+        error: `Block ${blockNumber} is in the future (latest block is ${latestBlock})`
+      };
+    }
+
+    const eventsResult = await getTokenEvents(contractAddress, options.fromBlock, blockNumber);
+    if (!eventsResult.success || !eventsResult.data) {
+      return {
+        success: false,
+        error: eventsResult.error
+      };
+    }
+
+    const balances = replayTransfers(eventsResult.data.events);
+    // getTokenEvents has just synced the index up to the latest block
+    const { chainId } = await provider.getNetwork();
+    creditLockedTokens(contractAddress, chainId.toString(), balances, blockNumber);
+
+    const holders: SnapshotHolder[] = [];
+    const totals: Record<number, bigint> = {};
+
+    for (const [address, holderBalances] of balances) {
+      const nonZero: Record<number, bigint> = {};
+      for (const [tokenId, balance] of holderBalances) {
+        if (balance > BigInt(0)) {
+          nonZero[tokenId] = balance;
+          totals[tokenId] = (totals[tokenId] ?? BigInt(0)) + balance;
+        }
+      }
+      if (Object.keys(nonZero).length > 0) {
+        holders.push({ address, balances: nonZero });
+      }
+    }
+
+    holders.sort((a, b) => a.address.toLowerCase().localeCompare(b.address.toLowerCase()));
+
+    // Cross-check against the contract's own bookkeeping at the latest block
+    const isLatest = blockNumber === latestBlock;
+    const supplyChecks: SupplyCheck[] = [];
+    if (isLatest) {
+      const tokenIds = new Set<number>([
+        ...Object.keys(totals).map(Number),
+        ...(options.tokenIds ?? [])
+      ]);
+
+      for (const tokenId of Array.from(tokenIds).sort((a, b) => a - b)) {
+        const tokenInfo = await nftContract.tokenInfo(tokenId);
+        const replayedSupply = totals[tokenId] ?? BigInt(0);
+        supplyChecks.push({
+          tokenId,
+          replayedSupply,
+          currentSupply: tokenInfo.currentSupply,
+          matches: replayedSupply === tokenInfo.currentSupply
+        });
+      }
+    }
+
+    const block = await provider.getBlock(blockNumber);
+    const blockTimestamp = block?.timestamp ?? 0;
+
+    return {
+      success: true,
+      data: {
+        contractAddress,
+        blockNumber,
+        blockTimestamp,
+        dateTime: new Date(blockTimestamp * 1000).toISOString(),
+        fromBlock: options.fromBlock,
+        isLatest,
+        holders,
+        totals,
+        supplyChecks
+      }
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Serialize a snapshot to JSON, with balances as decimal strings.
+ *
+ * @param snapshot The snapshot to serialize
+ * @returns Pretty-printed JSON
+ */
+export function snapshotToJson(snapshot: HolderSnapshot): string {
+  return JSON.stringify(
+    snapshot,
+    (_key, value) => typeof value === 'bigint' ? value.toString() : value,
+    2
+  );
+}
+
+/**
+ * Serialize a snapshot to CSV with one `address,tokenId,balance` row per holding.
+ *
+ * @param snapshot The snapshot to serialize
+ * @returns CSV with a header row
+ */
+export function snapshotToCsv(snapshot: HolderSnapshot): string {
+  const rows = ["address,tokenId,balance"];
+
+  for (const holder of snapshot.holders) {
+    for (const [tokenId, balance] of Object.entries(holder.balances)) {
+      rows.push(`${holder.address},${tokenId},${balance}`);
+    }
+  }
+
+  return rows.join("\n") + "\n";
+}
+
+/**
+ * Write a snapshot to a file, as CSV if the path ends with .csv and as JSON otherwise.
+ *
+ * @param snapshot The snapshot to write
+ * @param outputPath The file to write to; missing directories are created
+ */
+export function writeSnapshot(snapshot: HolderSnapshot, outputPath: string): void {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+
+  const content = outputPath.toLowerCase().endsWith(".csv")
+    ? snapshotToCsv(snapshot)
+    : snapshotToJson(snapshot);
+
+  fs.writeFileSync(outputPath, content);
+}
+
+/**
+ * Print a snapshot as a cap table, with address book names next to addresses.
+ *
+ * @param snapshot The snapshot to print
+ */
+export function printHolderSnapshot(snapshot: HolderSnapshot): void {
+  const tokenIds = Object.keys(snapshot.totals).map(Number).sort((a, b) => a - b);
+  const addressBook = loadAddressBook();
+  const labels = snapshot.holders.map(holder => getAddressLabel(holder.address, addressBook) ?? "");
+  const labelWidth = Math.max(4, ...labels.map(label => label.length));
+
+  console.log(`📅 Block ${snapshot.blockNumber} | ${snapshot.dateTime}${snapshot.isLatest ? " (latest)" : ""}`);
+  console.log(`👥 Holders: ${snapshot.holders.length}\n`);
+
+  const header = ["Address".padEnd(42), "Name".padEnd(labelWidth), ...tokenIds.map(id => `Token ${id}`.padStart(9))].join("  ");
+  console.log(header);
+  console.log("━".repeat(header.length));
+
+  snapshot.holders.forEach((holder, index) => {
+    console.log([
+      holder.address.padEnd(42),
+      labels[index].padEnd(labelWidth),
+      ...tokenIds.map(id => (holder.balances[id] ?? BigInt(0)).toString().padStart(9))
+    ].join("  "));
+  });
+
+  console.log("━".repeat(header.length));
+  console.log(["Total".padEnd(42), "".padEnd(labelWidth), ...tokenIds.map(id => snapshot.totals[id].toString().padStart(9))].join("  "));
+
+  if (snapshot.supplyChecks.length > 0) {
+    console.log("\n🔍 Supply check against tokenInfo(id).currentSupply:");
+    for (const check of snapshot.supplyChecks) {
+      console.log(`   Token ${check.tokenId}: ${check.replayedSupply}/${check.currentSupply} ${check.matches ? "✅" : "❌"}`);
+    }
+  }
+}
@@ -0,0 +1,409 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as path from "path";
+import { buildMetadataFiles, loadManifest, METADATA_DIR, type MetadataManifest } from "./metadata-build";
+
+/**
+ * Gateway used to fetch `ipfs://` URIs (override with IPFS_GATEWAY).
+ */
+export const DEFAULT_IPFS_GATEWAY = process.env.IPFS_GATEWAY || "https://ipfs.io/ipfs/";
+
+// Same layout as ipfs-car: 256 KiB chunks stored as raw blocks, at most 174
+// links per node, so the CIDs match a CAR packed with `ipfs-car pack`.
+// Folders are never sharded, which ipfs-car only does above 1000 entries.
+const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+const RAW_CODEC = 0x55;
+const DAG_PB_CODEC = 0x70;
+const SHA2_256 = 0x12;
+
+/**
+ * A content-addressed block.
+ */
+export interface IpfsBlock {
+  cid: Uint8Array;
+  data: Uint8Array;
+}
+
+/**
+ * A file or directory added to the DAG.
+ */
+interface DagEntry {
+  cid: Uint8Array;
+  /** Total size of all blocks below and including this one */
+  cumulativeSize: number;
+}
+
+/**
+ * The result of packing the metadata for IPFS.
+ */
+export interface IpfsPackResult {
+  success: boolean;
+  error?: string;
+  /** CID of the root folder with the metadata files and images/ */
+  rootCid?: string;
+  /** CID of the images folder */
+  imagesCid?: string;
+  /** Base URI for updateTokenMetadata, e.g. ipfs://bafy…/{id}.json */
+  baseURI?: string;
+  contractURI?: string;
+  carFile?: string;
+  carSize?: number;
+  files?: string[];
+}
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function decodeVarint(data: Uint8Array, offset: number): [value: number, offset: number] {
+  let value = 0;
+  let shift = 1;
+  let byte: number;
+  do {
+    byte = data[offset++];
+    value += (byte & 0x7f) * shift;
+    shift *= 128;
+  } while (byte & 0x80);
+  return [value, offset];
+}
+
+/**
+ * Encode a protobuf length-delimited field.
+ */
+function protoBytes(field: number, value: Uint8Array): number[] {
+  return [...encodeVarint((field << 3) | 2), ...encodeVarint(value.length), ...value];
+}
+
+/**
+ * Encode a protobuf varint field.
+ */
+function protoVarint(field: number, value: number): number[] {
+  return [...encodeVarint(field << 3), ...encodeVarint(value)];
+}
+
+/**
+ * Read the fields of a protobuf message, as [field number, value] pairs.
+ */
+function decodeProto(data: Uint8Array): [number, number | Uint8Array][] {
+  const fields: [number, number | Uint8Array][] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    let key: number;
+    [key, offset] = decodeVarint(data, offset);
+    let value: number;
+    [value, offset] = decodeVarint(data, offset);
+    if ((key & 7) === 2) {
+      fields.push([key >> 3, data.subarray(offset, offset + value)]);
+      offset += value;
+    } else {
+      fields.push([key >> 3, value]);
+    }
+  }
+  return fields;
+}
+
+function createCid(codec: number, data: Uint8Array): Uint8Array {
+  const digest = createHash("sha256").update(data).digest();
+  return Uint8Array.from([1, codec, SHA2_256, digest.length, ...digest]);
+}
+
+/**
+ * Format a binary CIDv1 as a base32 string ("bafy…" / "bafk…").
+ *
+ * @param cid The binary CID
+ * @returns The CID string
+ */
+export function formatCid(cid: Uint8Array): string {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz234567";
+  let result = "b";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of cid) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      result += alphabet[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    result += alphabet[(buffer << (5 - bits)) & 31];
+  }
+  return result;
+}
+
+/**
+ * Encode a dag-pb node. Links come before Data, sorted by name.
+ */
+function encodeDagPbNode(unixfsData: number[], links: { cid: Uint8Array; name: string; size: number }[]): Uint8Array {
+  const encodedLinks = [...links]
+    .sort((a, b) => Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)))
+    .flatMap(link => protoBytes(2, Uint8Array.from([
+      ...protoBytes(1, link.cid),
+      ...protoBytes(2, Buffer.from(link.name)),
+      ...protoVarint(3, link.size)
+    ])));
+
+  return Uint8Array.from([...encodedLinks, ...protoBytes(1, Uint8Array.from(unixfsData))]);
+}
+
+/**
+ * Add a file to the DAG as raw 256 KiB chunks and, if needed, balanced
+ * UnixFS file nodes above them.
+ */
+function addFile(content: Uint8Array, blocks: IpfsBlock[]): DagEntry {
+  type Node = DagEntry & { fileSize: number };
+  let level: Node[] = [];
+
+  for (let offset = 0; offset < content.length || level.length === 0; offset += CHUNK_SIZE) {
+    const data = content.subarray(offset, offset + CHUNK_SIZE);
+    const cid = createCid(RAW_CODEC, data);
+    blocks.push({ cid, data });
+    level.push({ cid, cumulativeSize: data.length, fileSize: data.length });
+  }
+
+  while (level.length > 1) {
+    const parents: Node[] = [];
+    for (let i = 0; i < level.length; i += MAX_LINKS) {
+      const children = level.slice(i, i + MAX_LINKS);
+      const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+      const data = encodeDagPbNode(
+        [...protoVarint(1, 2), ...protoVarint(3, fileSize), ...children.flatMap(child => protoVarint(4, child.fileSize))],
+        children.map(child => ({ cid: child.cid, name: "", size: child.cumulativeSize }))
+      );
+      const cid = createCid(DAG_PB_CODEC, data);
+      blocks.push({ cid, data });
+      parents.push({
+        cid,
+        cumulativeSize: data.length + children.reduce((sum, child) => sum + child.cumulativeSize, 0),
+        fileSize
+      });
+    }
+    level = parents;
+  }
+
+  return level[0];
+}
+
+/**
+ * Add a UnixFS directory to the DAG.
+ */
+function addDirectory(entries: Map<string, DagEntry>, blocks: IpfsBlock[]): DagEntry {
+  const links = [...entries].map(([name, entry]) => ({ cid: entry.cid, name, size: entry.cumulativeSize }));
+  const data = encodeDagPbNode(protoVarint(1, 1), links);
+  const cid = createCid(DAG_PB_CODEC, data);
+  blocks.push({ cid, data });
+
+  return {
+    cid,
+    cumulativeSize: data.length + links.reduce((sum, link) => sum + link.size, 0)
+  };
+}
+
+/**
+ * Write blocks to a CARv1 file.
+ *
+ * @param filePath The CAR file to write
+ * @param root The root CID
+ * @param blocks The blocks
+ * @returns The file size in bytes
+ */
+export function writeCar(filePath: string, root: Uint8Array, blocks: IpfsBlock[]): number {
+  // dag-cbor {roots: [root], version: 1}, CIDs as tag 42 with a 0x00 prefix
+  const header = Uint8Array.from([
+    0xa2,
+    0x65, ...Buffer.from("roots"), 0x81, 0xd8, 0x2a, 0x58, root.length + 1, 0x00, ...root,
+    0x67, ...Buffer.from("version"), 0x01
+  ]);
+
+  const parts: Uint8Array[] = [Uint8Array.from(encodeVarint(header.length)), header];
+  for (const block of blocks) {
+    parts.push(Uint8Array.from(encodeVarint(block.cid.length + block.data.length)), block.cid, block.data);
+  }
+
+  const car = Buffer.concat(parts);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, car);
+  return car.length;
+}
+
+/**
+ * Read the blocks of a CARv1 file written by writeCar (CIDv1, SHA-256).
+ *
+ * @param filePath The CAR file
+ * @returns The root CID and the blocks keyed by CID string
+ */
+export function readCar(filePath: string): { root: string; blocks: Map<string, IpfsBlock> } {
+  const car = new Uint8Array(fs.readFileSync(filePath));
+  let [length, offset] = decodeVarint(car, 0);
+
+  // The root is the first CID in the header, after the tag 42 byte string prefix
+  const header = car.subarray(offset, offset + length);
+  const cidStart = header.indexOf(0x2a) + 4;
+  const root = formatCid(header.subarray(cidStart, cidStart + 36));
+  offset += length;
+
+  const blocks = new Map<string, IpfsBlock>();
+  while (offset < car.length) {
+    [length, offset] = decodeVarint(car, offset);
+    const cid = car.subarray(offset, offset + 36);
+    blocks.set(formatCid(cid), { cid, data: car.subarray(offset + 36, offset + length) });
+    offset += length;
+  }
+
+  return { root, blocks };
+}
+
+/**
+ * Pack the metadata files and images into a CAR file.
+ *
+ * The images folder is added first; the token files and contract.json are
+ * then generated from the manifest with image URLs pointing at
+ * `ipfs://<images CID>/`. The root folder holds those files and images/.
+ *
+ * @param carFile The CAR file to write
+ * @param dir Folder with manifest.json and images/ (default: metadata/)
+ * @returns IpfsPackResult with the CIDs and URIs
+ */
+export function packMetadataForIpfs(carFile: string, dir: string = METADATA_DIR): IpfsPackResult {
+  try {
+    const manifest = loadManifest(path.join(dir, "manifest.json"));
+    const blocks: IpfsBlock[] = [];
+
+    const images = new Map<string, DagEntry>();
+    for (const fileName of fs.readdirSync(path.join(dir, "images")).sort()) {
+      images.set(fileName, addFile(fs.readFileSync(path.join(dir, "images", fileName)), blocks));
+    }
+    const imagesDir = addDirectory(images, blocks);
+    const imagesCid = formatCid(imagesDir.cid);
+
+    const ipfsManifest: MetadataManifest = { ...manifest, imageBaseUrl: `ipfs://${imagesCid}/` };
+    const files = buildMetadataFiles(ipfsManifest);
+
+    const rootEntries = new Map<string, DagEntry>([["images", imagesDir]]);
+    for (const file of files) {
+      rootEntries.set(file.fileName, addFile(Buffer.from(file.content), blocks));
+    }
+    const root = addDirectory(rootEntries, blocks);
+    const rootCid = formatCid(root.cid);
+
+    const carSize = writeCar(carFile, root.cid, blocks);
+
+    return {
+      success: true,
+      rootCid,
+      imagesCid,
+      baseURI: `ipfs://${rootCid}/{id}.json`,
+      contractURI: `ipfs://${rootCid}/contract.json`,
+      carFile,
+      carSize,
+      files: [...files.map(file => file.fileName), ...[...images.keys()].map(fileName => `images/${fileName}`)]
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Turn an `ipfs://` URI into a gateway URL. Other URIs are returned unchanged.
+ *
+ * @param uri e.g. ipfs://bafy…/1.json
+ * @param gateway Gateway base URL (default: IPFS_GATEWAY or https://ipfs.io/ipfs/)
+ * @returns e.g. https://ipfs.io/ipfs/bafy…/1.json
+ */
+export function resolveIpfsUri(uri: string, gateway: string = DEFAULT_IPFS_GATEWAY): string {
+  if (!uri.startsWith("ipfs://")) {
+    return uri;
+  }
+  return `${gateway.replace(/\/+$/, "")}/${uri.slice("ipfs://".length).replace(/^ipfs\//, "")}`;
+}
+
+/**
+ * Read a file from blocks by walking dag-pb links.
+ *
+ * @returns The file content, or undefined if the path does not exist
+ */
+function readFromBlocks(blocks: Map<string, IpfsBlock>, cid: string, segments: string[]): Uint8Array | undefined {
+  const block = blocks.get(cid);
+  if (!block) {
+    return undefined;
+  }
+  if (block.cid[1] === RAW_CODEC) {
+    return segments.length === 0 ? block.data : undefined;
+  }
+
+  const links = decodeProto(block.data)
+    .filter(([field]) => field === 2)
+    .map(([, link]) => {
+      const linkFields = decodeProto(link as Uint8Array);
+      return {
+        cid: formatCid(linkFields.find(([field]) => field === 1)![1] as Uint8Array),
+        name: Buffer.from((linkFields.find(([field]) => field === 2)?.[1] as Uint8Array) ?? []).toString()
+      };
+    });
+
+  if (segments.length > 0) {
+    const link = links.find(candidate => candidate.name === segments[0]);
+    return link ? readFromBlocks(blocks, link.cid, segments.slice(1)) : undefined;
+  }
+
+  const chunks = links.map(link => readFromBlocks(blocks, link.cid, []));
+  return chunks.every(chunk => chunk) ? Buffer.concat(chunks as Uint8Array[]) : undefined;
+}
+
+/**
+ * Serve a CAR file like an IPFS gateway (`/ipfs/<cid>/<path>`), as a local
+ * stand-in for tests and offline development.
+ *
+ * @param carFile The CAR file
+ * @param port Port to listen on, 0 for any free port
+ * @returns The gateway URL to pass to resolveIpfsUri and a close function
+ */
+export async function startLocalIpfsGateway(
+  carFile: string,
+  port: number = 0
+): Promise<{ gateway: string; close(): Promise<void> }> {
+  const { blocks } = readCar(carFile);
+
+  const server = http.createServer((request, response) => {
+    const [cid, ...segments] = decodeURIComponent(new URL(request.url ?? "/", "http://localhost").pathname)
+      .replace(/^\/ipfs\//, "")
+      .split("/")
+      .filter(segment => segment !== "");
+    const content = cid ? readFromBlocks(blocks, cid, segments) : undefined;
+
+    if (!content) {
+      response.writeHead(404, { "Content-Type": "text/plain" });
+      response.end("Not found");
+      return;
+    }
+
+    const extension = path.extname(segments[segments.length - 1] ?? "");
+    const contentType = extension === ".json" ? "application/json" : extension === ".png" ? "image/png" : "application/octet-stream";
+    response.writeHead(200, { "Content-Type": contentType });
+    response.end(content);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => resolve());
+  });
+
+  return {
+    gateway: `http://127.0.0.1:${(server.address() as AddressInfo).port}/ipfs/`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
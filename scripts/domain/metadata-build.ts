@@ -0,0 +1,271 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+
+/**
+ * Folder the metadata files are published from.
+ */
+export const METADATA_DIR = path.join(__dirname, "..", "..", "metadata");
+
+/**
+ * The single source the metadata files are generated from.
+ */
+export const MANIFEST_PATH = path.join(METADATA_DIR, "manifest.json");
+
+/**
+ * An OpenSea style trait.
+ */
+export interface MetadataAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: string;
+}
+
+/**
+ * One token in the manifest.
+ */
+export interface ManifestToken {
+  id: number;
+  /** Must match the on-chain name from getTokenInfo */
+  name: string;
+  description: string;
+  /** File name in metadata/images (default: the 64 hex character ID + .png) */
+  image?: string;
+  external_url?: string;
+  attributes?: MetadataAttribute[];
+}
+
+/**
+ * Collection level fields written to contract.json.
+ */
+export interface ManifestCollection {
+  name: string;
+  symbol: string;
+  description?: string;
+  /** File name in metadata/images */
+  image: string;
+  external_link?: string;
+  seller_fee_basis_points?: number;
+  fee_recipient?: string;
+}
+
+/**
+ * The metadata manifest.
+ */
+export interface MetadataManifest {
+  /** Image URLs are this base followed by the image file name */
+  imageBaseUrl: string;
+  collection: ManifestCollection;
+  tokens: ManifestToken[];
+}
+
+/**
+ * A generated metadata file.
+ */
+export interface BuiltMetadataFile {
+  fileName: string;
+  content: string;
+}
+
+/**
+ * The result of writing (or checking) the generated files.
+ */
+export interface MetadataBuildResult {
+  success: boolean;
+  error?: string;
+  /** Files written, or that would be written in check mode */
+  changed: string[];
+  unchanged: string[];
+  /** JSON files in the output folder the manifest does not produce */
+  stale: string[];
+}
+
+/**
+ * A difference between the manifest and getTokenInfo.
+ */
+export interface ChainMismatch {
+  tokenId: number;
+  field: 'name' | 'description' | 'token';
+  manifest: string;
+  onChain: string;
+  /** Name and missing token mismatches are errors, description mismatches warnings */
+  severity: 'error' | 'warning';
+}
+
+/**
+ * The file name `uri()` resolves a token ID to: the ID as 64 lowercase hex
+ * characters, as substituted for `{id}` by the contract.
+ *
+ * @param tokenId The token ID
+ * @returns e.g. "000…001.json"
+ */
+export function tokenFileName(tokenId: number | bigint): string {
+  return `${BigInt(tokenId).toString(16).padStart(64, "0")}.json`;
+}
+
+/**
+ * Load and check the manifest.
+ *
+ * @param filePath The manifest file (default: metadata/manifest.json)
+ * @returns The manifest
+ */
+export function loadManifest(filePath: string = MANIFEST_PATH): MetadataManifest {
+  const manifest: MetadataManifest = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  if (!manifest.imageBaseUrl || !manifest.collection?.name || !manifest.collection?.image) {
+    throw new Error(`${filePath} needs imageBaseUrl, collection.name and collection.image`);
+  }
+  if (!Array.isArray(manifest.tokens) || manifest.tokens.length === 0) {
+    throw new Error(`${filePath} has no tokens`);
+  }
+
+  const ids = new Set<number>();
+  for (const token of manifest.tokens) {
+    if (!Number.isInteger(token.id) || token.id < 1) {
+      throw new Error(`Invalid token ID ${token.id} in ${filePath}`);
+    }
+    if (ids.has(token.id)) {
+      throw new Error(`Token ${token.id} is listed twice in ${filePath}`);
+    }
+    if (!token.name || !token.description) {
+      throw new Error(`Token ${token.id} in ${filePath} needs a name and a description`);
+    }
+    ids.add(token.id);
+  }
+
+  return manifest;
+}
+
+/**
+ * Build the metadata JSON of one token.
+ *
+ * @param manifest The manifest
+ * @param token The token from the manifest
+ * @returns The token metadata
+ */
+export function buildTokenMetadata(manifest: MetadataManifest, token: ManifestToken): Record<string, unknown> {
+  const image = token.image ?? tokenFileName(token.id).replace(/\.json$/, ".png");
+
+  return {
+    name: token.name,
+    description: token.description,
+    image: `${manifest.imageBaseUrl}${image}`,
+    ...(token.external_url ? { external_url: token.external_url } : {}),
+    ...(token.attributes ? { attributes: token.attributes } : {})
+  };
+}
+
+/**
+ * Build the collection metadata (contract.json).
+ *
+ * @param manifest The manifest
+ * @returns The collection metadata
+ */
+export function buildContractMetadata(manifest: MetadataManifest): Record<string, unknown> {
+  return {
+    ...manifest.collection,
+    image: `${manifest.imageBaseUrl}${manifest.collection.image}`
+  };
+}
+
+/**
+ * Build every file generated from the manifest.
+ *
+ * @param manifest The manifest
+ * @returns contract.json followed by the token files
+ */
+export function buildMetadataFiles(manifest: MetadataManifest): BuiltMetadataFile[] {
+  const serialize = (value: unknown) => JSON.stringify(value, null, 2) + "\n";
+
+  return [
+    { fileName: "contract.json", content: serialize(buildContractMetadata(manifest)) },
+    ...manifest.tokens.map(token => ({
+      fileName: tokenFileName(token.id),
+      content: serialize(buildTokenMetadata(manifest, token))
+    }))
+  ];
+}
+
+/**
+ * Write the generated files, or only report what would change.
+ *
+ * @param manifest The manifest
+ * @param outputDir Folder to write to (default: metadata/)
+ * @param options `check` to write nothing, `clean` to delete stale JSON files
+ * @returns MetadataBuildResult with changed, unchanged and stale files
+ */
+export function writeMetadataFiles(
+  manifest: MetadataManifest,
+  outputDir: string = METADATA_DIR,
+  options: { check?: boolean; clean?: boolean } = {}
+): MetadataBuildResult {
+  const result: MetadataBuildResult = { success: true, changed: [], unchanged: [], stale: [] };
+
+  try {
+    const files = buildMetadataFiles(manifest);
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    for (const file of files) {
+      const filePath = path.join(outputDir, file.fileName);
+      const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : undefined;
+
+      if (current === file.content) {
+        result.unchanged.push(file.fileName);
+        continue;
+      }
+
+      result.changed.push(file.fileName);
+      if (!options.check) {
+        fs.writeFileSync(filePath, file.content);
+      }
+    }
+
+    const generated = new Set([...files.map(file => file.fileName), path.basename(MANIFEST_PATH)]);
+    result.stale = fs.readdirSync(outputDir)
+      .filter(fileName => fileName.endsWith(".json") && !generated.has(fileName));
+
+    if (options.clean && !options.check) {
+      result.stale.forEach(fileName => fs.unlinkSync(path.join(outputDir, fileName)));
+    }
+
+    return result;
+
+  } catch (error) {
+    return {
+      ...result,
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Compare the manifest with the token names and descriptions on chain.
+ *
+ * @param nftContract The NFT contract
+ * @param manifest The manifest
+ * @returns Every mismatch found, empty if the manifest matches
+ */
+export async function compareWithChain(
+  nftContract: SecretOfTheDeepNFT,
+  manifest: MetadataManifest
+): Promise<ChainMismatch[]> {
+  const mismatches: ChainMismatch[] = [];
+
+  for (const token of manifest.tokens) {
+    const tokenInfo = await nftContract.getTokenInfo(token.id);
+
+    if (!tokenInfo.exists) {
+      mismatches.push({ tokenId: token.id, field: 'token', manifest: token.name, onChain: "(does not exist)", severity: 'error' });
+      continue;
+    }
+    if (tokenInfo.name !== token.name) {
+      mismatches.push({ tokenId: token.id, field: 'name', manifest: token.name, onChain: tokenInfo.name, severity: 'error' });
+    }
+    if (tokenInfo.description !== token.description) {
+      mismatches.push({ tokenId: token.id, field: 'description', manifest: token.description, onChain: tokenInfo.description, severity: 'warning' });
+    }
+  }
+
+  return mismatches;
+}
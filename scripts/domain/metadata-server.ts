@@ -0,0 +1,211 @@
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as path from "path";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { loadManifest, METADATA_DIR, tokenFileName } from "./metadata-build";
+
+/**
+ * Options for the local metadata server.
+ */
+export interface MetadataServerOptions {
+  /** Port to listen on, 0 for any free port (default: 4000) */
+  port?: number;
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** Folder with the metadata templates and images (default: metadata/) */
+  dir?: string;
+  /** Log every request (default: false) */
+  logRequests?: boolean;
+}
+
+/**
+ * A running metadata server.
+ */
+export interface MetadataServer {
+  /** e.g. http://127.0.0.1:4000 */
+  url: string;
+  /** Base URI to pass to setBaseURI */
+  baseURI: string;
+  /** Contract URI to pass to setContractURI */
+  contractURI: string;
+  close(): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp"
+};
+
+/**
+ * The URIs the contract needs to use a metadata server at the given URL.
+ *
+ * @param url Server URL, e.g. http://127.0.0.1:4000
+ * @returns Base URI and contract URI
+ */
+export function getMetadataServerURIs(url: string): { baseURI: string; contractURI: string } {
+  const root = url.replace(/\/+$/, "");
+  return {
+    baseURI: `${root}/{id}.json`,
+    contractURI: `${root}/contract.json`
+  };
+}
+
+/**
+ * Whether a parsed JSON value is an object, as templates and attributes must be.
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a JSON template from the metadata folder, empty if it does not exist.
+ */
+function readTemplate(dir: string, fileName: string): Record<string, unknown> {
+  const filePath = path.join(dir, fileName);
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  const template: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (!isJsonObject(template)) {
+    throw new Error(`${fileName} must contain a JSON object`);
+  }
+  return template;
+}
+
+/**
+ * Serve images from the local folder instead of the published image URL.
+ */
+function localImage(image: unknown, imageBaseUrl: string | undefined, url: string): unknown {
+  if (typeof image === "string" && imageBaseUrl && image.startsWith(imageBaseUrl)) {
+    return `${url}/images/${image.slice(imageBaseUrl.length)}`;
+  }
+  return image;
+}
+
+/**
+ * Build the metadata of a token from its template and getTokenInfo.
+ *
+ * @returns The metadata, or undefined if the token does not exist
+ */
+async function buildLiveTokenMetadata(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: bigint,
+  dir: string,
+  imageBaseUrl: string | undefined,
+  url: string
+): Promise<Record<string, unknown> | undefined> {
+  const tokenInfo = await nftContract.getTokenInfo(tokenId);
+  if (!tokenInfo.exists) {
+    return undefined;
+  }
+
+  const template = readTemplate(dir, tokenFileName(tokenId));
+  const attributes = (Array.isArray(template.attributes) ? template.attributes : [])
+    .filter(isJsonObject)
+    .filter(attribute => attribute.trait_type !== "Current Supply" && attribute.trait_type !== "Max Supply");
+
+  return {
+    ...template,
+    name: tokenInfo.name,
+    description: tokenInfo.description,
+    image: localImage(template.image, imageBaseUrl, url),
+    attributes: [
+      ...attributes,
+      { trait_type: "Current Supply", value: Number(tokenInfo.currentSupply), max_value: Number(tokenInfo.maxSupply), display_type: "number" },
+      { trait_type: "Max Supply", value: Number(tokenInfo.maxSupply), display_type: "number" }
+    ]
+  };
+}
+
+/**
+ * Start an HTTP server that serves token metadata for local development.
+ *
+ * `/{64 hex id}.json` and `/contract.json` are the templates in the metadata
+ * folder with the name, description and supply (or collection name and
+ * symbol) read from the contract on every request; `/images/*` serves the
+ * local images, and image URLs under the manifest's imageBaseUrl point there.
+ *
+ * @param nftContract The NFT contract
+ * @param options Server options
+ * @returns The running server
+ */
+export async function startMetadataServer(
+  nftContract: SecretOfTheDeepNFT,
+  options: MetadataServerOptions = {}
+): Promise<MetadataServer> {
+  const { port = 4000, host = "127.0.0.1", dir = METADATA_DIR, logRequests = false } = options;
+  const manifestPath = path.join(dir, "manifest.json");
+  const imageBaseUrl = fs.existsSync(manifestPath) ? loadManifest(manifestPath).imageBaseUrl : undefined;
+  let url = "";
+
+  const server = http.createServer(async (request, response) => {
+    const send = (status: number, body: unknown, contentType = "application/json") => {
+      response.writeHead(status, {
+        "Content-Type": contentType,
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "no-store"
+      });
+      response.end(contentType === "application/json" ? JSON.stringify(body, null, 2) : body as Buffer);
+      if (logRequests) {
+        console.log(`${status} ${request.method} ${request.url}`);
+      }
+    };
+
+    try {
+      const pathname = new URL(request.url ?? "/", url).pathname;
+      const tokenMatch = pathname.match(/^\/([0-9a-f]{64})\.json$/);
+
+      if (request.method !== "GET") {
+        send(405, { error: "Only GET is supported" });
+      } else if (tokenMatch) {
+        const metadata = await buildLiveTokenMetadata(nftContract, BigInt(`0x${tokenMatch[1]}`), dir, imageBaseUrl, url);
+        if (metadata) {
+          send(200, metadata);
+        } else {
+          send(404, { error: "Token does not exist" });
+        }
+      } else if (pathname === "/contract.json") {
+        const template = readTemplate(dir, "contract.json");
+        send(200, {
+          ...template,
+          name: await nftContract.name(),
+          symbol: await nftContract.symbol(),
+          image: localImage(template.image, imageBaseUrl, url)
+        });
+      } else if (pathname.startsWith("/images/")) {
+        const fileName = path.basename(decodeURIComponent(pathname));
+        const filePath = path.join(dir, "images", fileName);
+        const contentType = CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+        if (contentType && fs.existsSync(filePath)) {
+          send(200, fs.readFileSync(filePath), contentType);
+        } else {
+          send(404, { error: "Image not found" });
+        }
+      } else {
+        send(404, { error: "Not found. Token metadata is served as /{64 hex character id}.json" });
+      }
+    } catch (error) {
+      send(500, { error: error instanceof Error ? error.message : "Unknown error occurred" });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  url = `http://${host}:${address.port}`;
+
+  return {
+    url,
+    ...getMetadataServerURIs(url),
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
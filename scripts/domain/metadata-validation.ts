@@ -0,0 +1,481 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { decodeDataUri, getTokenMetadata } from "./get-token-metadata";
+import { DEFAULT_IPFS_GATEWAY, resolveIpfsUri } from "./ipfs";
+import { loadManifest, METADATA_DIR, tokenFileName } from "./metadata-build";
+
+/**
+ * Display types OpenSea understands. All of them need a numeric value.
+ */
+export const NUMERIC_DISPLAY_TYPES = ["number", "boost_number", "boost_percentage", "date"];
+
+/**
+ * Limits the token images are checked against.
+ */
+export interface ImageLimits {
+  /** Smallest width and height in pixels */
+  minDimension: number;
+  /** Largest width and height in pixels */
+  maxDimension: number;
+  /** Largest file size in bytes */
+  maxBytes: number;
+}
+
+/**
+ * Default image limits: OpenSea's recommended minimum and a size that still
+ * loads quickly in wallets.
+ */
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = {
+  minDimension: 350,
+  maxDimension: 4096,
+  maxBytes: 10 * 1024 * 1024
+};
+
+/**
+ * A single problem found in a metadata file.
+ */
+export interface MetadataIssue {
+  /** Errors fail the validation, warnings are only reported */
+  severity: 'error' | 'warning';
+  /** The JSON field, e.g. "attributes[1].value", or "file" / "uri" */
+  field: string;
+  message: string;
+}
+
+/**
+ * Validation result of one metadata file.
+ */
+export interface MetadataFileReport {
+  /** Local file path or fetched URI */
+  source: string;
+  tokenId?: number;
+  issues: MetadataIssue[];
+}
+
+/**
+ * Validation result of all files.
+ */
+export interface MetadataValidationResult {
+  success: boolean;
+  error?: string;
+  reports: MetadataFileReport[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Options for validating metadata.
+ */
+export interface MetadataValidationOptions {
+  /** Whether to load the images and check their size (default: true) */
+  checkImages?: boolean;
+  imageLimits?: ImageLimits;
+  /** Only validate this token ID */
+  tokenId?: number;
+  /** Gateway used for ipfs:// URIs (default: IPFS_GATEWAY or https://ipfs.io/ipfs/) */
+  ipfsGateway?: string;
+}
+
+/**
+ * Read the dimensions from a PNG header.
+ *
+ * @param data The file content (the first 24 bytes are enough)
+ * @returns Width and height, or undefined if the data is not a PNG
+ */
+export function readPngSize(data: Uint8Array): { width: number; height: number } | undefined {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (data.length < 24 || signature.some((byte, i) => data[i] !== byte)) {
+    return undefined;
+  }
+
+  // The IHDR chunk always comes first: length (4), type (4), width (4), height (4)
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+/**
+ * Check a URL field.
+ */
+function checkUrl(field: string, value: unknown, schemes: string[], issues: MetadataIssue[]): void {
+  if (typeof value !== "string" || value.trim() === "") {
+    issues.push({ severity: 'error', field, message: "must be a non-empty string" });
+    return;
+  }
+
+  let scheme: string;
+  try {
+    scheme = new URL(value.replace(/\{id\}/g, "0")).protocol.replace(/:$/, "");
+  } catch {
+    issues.push({ severity: 'error', field, message: `"${value}" is not a valid URL` });
+    return;
+  }
+
+  if (!schemes.includes(scheme)) {
+    issues.push({ severity: 'error', field, message: `unsupported scheme "${scheme}:", use ${schemes.join(", ")}` });
+  } else if (scheme === "http") {
+    issues.push({ severity: 'warning', field, message: "uses http, marketplaces may block mixed content" });
+  }
+}
+
+/**
+ * Check the `{id}` placeholders in a string value. Clients only substitute the
+ * lowercase `{id}`, with the token ID as 64 lowercase hex characters.
+ */
+function checkIdPlaceholders(field: string, value: string, issues: MetadataIssue[]): void {
+  const placeholders = value.match(/\{id\}/gi) ?? [];
+  if (placeholders.some(placeholder => placeholder !== "{id}")) {
+    issues.push({ severity: 'error', field, message: "only the lowercase {id} placeholder is substituted by clients" });
+  }
+}
+
+/**
+ * Check the `attributes` array against the OpenSea conventions.
+ */
+function checkAttributes(attributes: unknown, issues: MetadataIssue[]): void {
+  if (!Array.isArray(attributes)) {
+    issues.push({ severity: 'error', field: "attributes", message: "must be an array" });
+    return;
+  }
+
+  const traitTypes = new Set<string>();
+  attributes.forEach((attribute, index) => {
+    const field = `attributes[${index}]`;
+    if (typeof attribute !== "object" || attribute === null || Array.isArray(attribute)) {
+      issues.push({ severity: 'error', field, message: "must be an object with trait_type and value" });
+      return;
+    }
+
+    const { trait_type, value, display_type, max_value } = attribute as Record<string, unknown>;
+
+    if (trait_type === undefined) {
+      issues.push({ severity: 'warning', field: `${field}.trait_type`, message: "missing, the value is shown without a trait name" });
+    } else if (typeof trait_type !== "string" || trait_type === "") {
+      issues.push({ severity: 'error', field: `${field}.trait_type`, message: "must be a non-empty string" });
+    } else if (traitTypes.has(trait_type)) {
+      issues.push({ severity: 'warning', field: `${field}.trait_type`, message: `"${trait_type}" is used more than once` });
+    } else {
+      traitTypes.add(trait_type);
+    }
+
+    if (value === undefined || value === null) {
+      issues.push({ severity: 'error', field: `${field}.value`, message: "is required" });
+    } else if (!["string", "number", "boolean"].includes(typeof value)) {
+      issues.push({ severity: 'error', field: `${field}.value`, message: "must be a string, number or boolean" });
+    }
+
+    if (display_type !== undefined) {
+      if (typeof display_type !== "string" || !NUMERIC_DISPLAY_TYPES.includes(display_type)) {
+        issues.push({ severity: 'error', field: `${field}.display_type`, message: `must be one of ${NUMERIC_DISPLAY_TYPES.join(", ")}` });
+      } else if (typeof value !== "number") {
+        issues.push({ severity: 'error', field: `${field}.value`, message: `must be a number for display_type "${display_type}"` });
+      }
+    }
+
+    if (max_value !== undefined && (typeof max_value !== "number" || typeof value !== "number" || value > max_value)) {
+      issues.push({ severity: 'error', field: `${field}.max_value`, message: "must be a number not below value" });
+    }
+  });
+}
+
+/**
+ * Check a token metadata document against the ERC-1155 metadata JSON schema
+ * and the OpenSea conventions. Images are not loaded, see checkImage.
+ *
+ * @param metadata The parsed JSON
+ * @returns Every issue found, empty if the document is valid
+ */
+export function validateMetadataJson(metadata: unknown): MetadataIssue[] {
+  const issues: MetadataIssue[] = [];
+
+  if (typeof metadata !== "object" || metadata === null || Array.isArray(metadata)) {
+    return [{ severity: 'error', field: "(root)", message: "must be a JSON object" }];
+  }
+  const json = metadata as Record<string, unknown>;
+
+  for (const field of ["name", "description"]) {
+    if (typeof json[field] !== "string" || (json[field] as string).trim() === "") {
+      issues.push({ severity: 'error', field, message: "is required and must be a non-empty string" });
+    }
+  }
+
+  checkUrl("image", json.image, ["https", "http", "ipfs", "ar", "data"], issues);
+
+  if (json.external_url !== undefined) {
+    checkUrl("external_url", json.external_url, ["https", "http"], issues);
+  }
+  if (json.animation_url !== undefined) {
+    checkUrl("animation_url", json.animation_url, ["https", "http", "ipfs", "ar"], issues);
+  }
+  if (json.decimals !== undefined && (!Number.isInteger(json.decimals) || (json.decimals as number) < 0)) {
+    issues.push({ severity: 'error', field: "decimals", message: "must be a non-negative integer" });
+  }
+  if (json.properties !== undefined && (typeof json.properties !== "object" || json.properties === null || Array.isArray(json.properties))) {
+    issues.push({ severity: 'error', field: "properties", message: "must be an object" });
+  }
+  if (json.background_color !== undefined && !/^[0-9a-fA-F]{6}$/.test(String(json.background_color))) {
+    issues.push({ severity: 'error', field: "background_color", message: "must be six hex characters without a leading #" });
+  }
+  if (json.attributes !== undefined) {
+    checkAttributes(json.attributes, issues);
+  }
+
+  for (const [field, value] of Object.entries(json)) {
+    if (typeof value === "string") {
+      checkIdPlaceholders(field, value, issues);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Load an image and check that it is reachable, a PNG and within the limits.
+ *
+ * @param image The image URL, with `{id}` already substituted
+ * @param limits Size limits
+ * @param localFile Read this file instead of fetching the URL
+ * @param ipfsGateway Gateway used for ipfs:// URLs
+ * @returns Every issue found
+ */
+export async function checkImage(
+  image: string,
+  limits: ImageLimits,
+  localFile?: string,
+  ipfsGateway: string = DEFAULT_IPFS_GATEWAY
+): Promise<MetadataIssue[]> {
+  const issues: MetadataIssue[] = [];
+  const imageUrl = resolveIpfsUri(image, ipfsGateway);
+  let data: Uint8Array;
+
+  if (localFile) {
+    if (!fs.existsSync(localFile)) {
+      return [{ severity: 'error', field: "image", message: `${path.relative(process.cwd(), localFile)} does not exist` }];
+    }
+    data = fs.readFileSync(localFile);
+  } else if (/^https?:\/\//.test(imageUrl)) {
+    try {
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        return [{ severity: 'error', field: "image", message: `${imageUrl} returned HTTP ${response.status}` }];
+      }
+      const contentType = response.headers.get("content-type") ?? "";
+      if (!contentType.startsWith("image/")) {
+        issues.push({ severity: 'warning', field: "image", message: `served as "${contentType || "no content type"}" instead of image/*` });
+      }
+      data = new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+      return [{ severity: 'error', field: "image", message: `${imageUrl} is not reachable: ${error instanceof Error ? error.message : error}` }];
+    }
+  } else if (image.startsWith("data:")) {
+    const decoded = decodeDataUri(image);
+    if (!decoded) {
+      return [{ severity: 'error', field: "image", message: "malformed data: URI" }];
+    }
+    if (decoded.mimeType === "image/svg+xml") {
+      // Vector images scale to any size
+      return decoded.data.length > limits.maxBytes
+        ? [{ severity: 'error', field: "image", message: `SVG exceeds ${(limits.maxBytes / 1024 / 1024).toFixed(1)} MB` }]
+        : [];
+    }
+    data = decoded.data;
+  } else {
+    return [{ severity: 'warning', field: "image", message: `${image.split(":")[0]}: images are not loaded, size not checked` }];
+  }
+
+  if (data.length > limits.maxBytes) {
+    issues.push({ severity: 'error', field: "image", message: `${(data.length / 1024 / 1024).toFixed(1)} MB exceeds ${(limits.maxBytes / 1024 / 1024).toFixed(1)} MB` });
+  }
+
+  const size = readPngSize(data);
+  if (!size) {
+    issues.push({ severity: 'warning', field: "image", message: "not a PNG, dimensions not checked" });
+    return issues;
+  }
+
+  const { width, height } = size;
+  if (Math.min(width, height) < limits.minDimension || Math.max(width, height) > limits.maxDimension) {
+    issues.push({ severity: 'error', field: "image", message: `${width}x${height} px is outside ${limits.minDimension}-${limits.maxDimension} px` });
+  }
+  if (width !== height) {
+    issues.push({ severity: 'warning', field: "image", message: `${width}x${height} px is not square and will be cropped in grid views` });
+  }
+
+  return issues;
+}
+
+/**
+ * Substitute `{id}` with the token ID as 64 lowercase hex characters.
+ */
+function substituteId(value: string, tokenId: number): string {
+  return value.replace(/\{id\}/g, tokenFileName(tokenId).replace(/\.json$/, ""));
+}
+
+/**
+ * Count errors and warnings of the reports.
+ */
+function summarize(reports: MetadataFileReport[]): MetadataValidationResult {
+  const issues = reports.flatMap(report => report.issues);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    success: errorCount === 0,
+    reports,
+    errorCount,
+    warningCount: issues.length - errorCount
+  };
+}
+
+/**
+ * Validate the token metadata files in a local folder.
+ *
+ * Images under the manifest's imageBaseUrl are read from the images folder
+ * next to the files, so they can be checked before they are published.
+ *
+ * @param dir Folder with the metadata files (default: metadata/)
+ * @param options Validation options
+ * @returns MetadataValidationResult with one report per token file
+ */
+export async function validateLocalMetadata(
+  dir: string = METADATA_DIR,
+  options: MetadataValidationOptions = {}
+): Promise<MetadataValidationResult> {
+  const { checkImages = true, imageLimits = DEFAULT_IMAGE_LIMITS, tokenId } = options;
+
+  try {
+    const manifestPath = path.join(dir, "manifest.json");
+    const imageBaseUrl = fs.existsSync(manifestPath) ? loadManifest(manifestPath).imageBaseUrl : undefined;
+    const fileNames = fs.readdirSync(dir)
+      .filter(fileName => fileName.endsWith(".json") && fileName !== "manifest.json" && fileName !== "contract.json")
+      .filter(fileName => tokenId === undefined || fileName === tokenFileName(tokenId))
+      .sort();
+
+    if (fileNames.length === 0) {
+      return { ...summarize([]), success: false, error: `No token metadata files found in ${dir}` };
+    }
+
+    const reports: MetadataFileReport[] = [];
+    for (const fileName of fileNames) {
+      const source = path.join(dir, fileName);
+      const report: MetadataFileReport = { source, issues: [] };
+      reports.push(report);
+
+      if (!/^[0-9a-f]{64}\.json$/.test(fileName)) {
+        report.issues.push({
+          severity: 'error',
+          field: "file",
+          message: "uri() substitutes {id} with 64 lowercase hex characters, so this file is never requested"
+        });
+      } else {
+        report.tokenId = parseInt(fileName.slice(0, 64), 16);
+      }
+
+      let metadata: unknown;
+      try {
+        metadata = JSON.parse(fs.readFileSync(source, "utf8"));
+      } catch (error) {
+        report.issues.push({ severity: 'error', field: "(root)", message: `invalid JSON: ${error instanceof Error ? error.message : error}` });
+        continue;
+      }
+
+      report.issues.push(...validateMetadataJson(metadata));
+
+      const image = (metadata as Record<string, unknown>)?.image;
+      if (checkImages && typeof image === "string" && !report.issues.some(issue => issue.field === "image")) {
+        const resolved = report.tokenId !== undefined ? substituteId(image, report.tokenId) : image;
+        const localFile = imageBaseUrl && resolved.startsWith(imageBaseUrl)
+          ? path.join(dir, "images", resolved.slice(imageBaseUrl.length))
+          : undefined;
+        report.issues.push(...await checkImage(resolved, imageLimits, localFile));
+      }
+    }
+
+    return summarize(reports);
+
+  } catch (error) {
+    return {
+      ...summarize([]),
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Validate the metadata the deployed contract points to, fetched through
+ * `uri()` for every active token.
+ *
+ * @param nftContract The NFT contract
+ * @param options Validation options
+ * @returns MetadataValidationResult with one report per token
+ */
+export async function validateDeployedMetadata(
+  nftContract: SecretOfTheDeepNFT,
+  options: MetadataValidationOptions = {}
+): Promise<MetadataValidationResult> {
+  const { checkImages = true, imageLimits = DEFAULT_IMAGE_LIMITS, tokenId, ipfsGateway } = options;
+
+  const metadataResult = await getTokenMetadata(nftContract, { tokenId, ipfsGateway });
+  if (!metadataResult.success) {
+    return { ...summarize([]), success: false, error: metadataResult.error };
+  }
+
+  const reports: MetadataFileReport[] = [];
+  for (const token of metadataResult.tokens) {
+    const report: MetadataFileReport = { source: token.uri, tokenId: token.id, issues: [] };
+    reports.push(report);
+
+    if (token.uri.startsWith("data:")) {
+      report.source = "(on-chain data: URI)";
+    } else if (token.uri.includes("{id}")) {
+      report.issues.push({ severity: 'error', field: "uri", message: "uri() returned an unsubstituted {id}" });
+    } else if (!token.uri.includes(tokenFileName(token.id).replace(/\.json$/, ""))) {
+      report.issues.push({ severity: 'warning', field: "uri", message: "does not contain the 64 hex character token ID, tokens may share one file" });
+    }
+
+    if (!token.accessible) {
+      report.issues.push({ severity: 'error', field: "uri", message: `not reachable${token.statusCode ? ` (HTTP ${token.statusCode})` : ""}` });
+      continue;
+    }
+    if (token.metadata === undefined) {
+      report.issues.push({ severity: 'error', field: "(root)", message: "response is not valid JSON" });
+      continue;
+    }
+
+    report.issues.push(...validateMetadataJson(token.metadata));
+
+    if (typeof token.metadata.name === "string" && token.metadata.name !== token.name) {
+      report.issues.push({ severity: 'warning', field: "name", message: `"${token.metadata.name}" differs from the on-chain name "${token.name}"` });
+    }
+
+    if (checkImages && typeof token.metadata.image === "string" && !report.issues.some(issue => issue.field === "image")) {
+      report.issues.push(...await checkImage(substituteId(token.metadata.image, token.id), imageLimits, undefined, ipfsGateway));
+    }
+  }
+
+  return summarize(reports);
+}
+
+/**
+ * Print the validation report.
+ *
+ * @param result Result of validateLocalMetadata or validateDeployedMetadata
+ */
+export function printValidationResult(result: MetadataValidationResult): void {
+  console.log("🔎 Metadata Validation");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  for (const report of result.reports) {
+    const hasErrors = report.issues.some(issue => issue.severity === 'error');
+    const icon = hasErrors ? "❌" : report.issues.length > 0 ? "⚠️ " : "✅";
+    const token = report.tokenId !== undefined ? `Token ${report.tokenId}: ` : "";
+    console.log(`${icon} ${token}${path.isAbsolute(report.source) ? path.relative(process.cwd(), report.source) : report.source}`);
+
+    report.issues.forEach(issue => {
+      console.log(`   ${issue.severity === 'error' ? "error  " : "warning"}  ${issue.field}: ${issue.message}`);
+    });
+  }
+
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(`${result.reports.length} file(s), ${result.errorCount} error(s), ${result.warningCount} warning(s)`);
+}
@@ -1,10 +1,12 @@
 import { ethers } from "hardhat";
-import type { SecretOfTheDeepNFT } from "../../typechain-types/contracts/SecretOfTheDeepNFT";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
 
 /**
  * The result of minting tokens to a wallet.
  */
-export interface MintResult {
+export interface MintResult extends DryRunFields {
     success: boolean;
     transactionHash?: string;
     error?: string;
@@ -21,6 +23,7 @@ export interface MintResult {
  * @param tokenId - The token ID to mint.
  * @param amount - The amount of tokens to mint.
  * @param signer - The signer to use for the transaction.
+ * @param options - Set `dryRun` to simulate the mint instead of sending it.
  * @returns The result of the minting.
  */
 export async function mintToWallet(
@@ -28,7 +31,8 @@ export async function mintToWallet(
     targetWallet: string, 
     tokenId: number, 
     amount: number,
-    signer?: any
+    signer?: any,
+    options: DryRunOptions = {}
 ): Promise<MintResult> {
     try {
       // Validate inputs
@@ -50,17 +54,38 @@ export async function mintToWallet(
       const [defaultSigner] = await ethers.getSigners();
       const mintSigner = signer || defaultSigner;
   
-      // Check if we're the contract owner
-      const contractOwner = await nftContract.owner();
-      if (contractOwner !== mintSigner.address) {
+      if (options.dryRun) {
+        const tokenInfo = await nftContract.getTokenInfo(tokenId);
+        const balance = await nftContract.balanceOf(targetWallet, tokenId);
+        const mintAmount = BigInt(amount);
+
+        return {
+          ...await dryRunCall(nftContract, "mint", [targetWallet, tokenId, amount], mintSigner.address, [
+            { label: `Recipient ${tokenInfo.name} balance`, before: `${balance}`, after: `${balance + mintAmount}` },
+            { label: `${tokenInfo.name} supply`, before: `${tokenInfo.currentSupply}/${tokenInfo.maxSupply}`, after: `${tokenInfo.currentSupply + mintAmount}/${tokenInfo.maxSupply}` }
+          ]),
+          tokenName: tokenInfo.name
+        };
+      }
+
+      // Check that we hold the minter role
+      const roleError = await checkRole(nftContract, "minter", mintSigner.address, "mint tokens");
+      if (roleError) {
         return {
           success: false,
-          error: "You are not the contract owner. Only the owner can mint tokens."
+          error: roleError
         };
       }
   
       // Get token info before minting
       const tokenInfo = await nftContract.getTokenInfo(tokenId);
+
+      if (!tokenInfo.isActive) {
+        return {
+          success: false,
+          error: tokenInfo.exists ? `Token ID ${tokenId} is retired and cannot be minted` : `Token ID ${tokenId} does not exist`
+        };
+      }
       
       // Check if we can mint the requested amount
       if (tokenInfo.currentSupply + BigInt(amount) > tokenInfo.maxSupply) {
@@ -71,7 +96,7 @@ export async function mintToWallet(
       }
   
       // Mint tokens
-      const mintTx = await nftContract.mint(targetWallet, tokenId, amount);
+      const mintTx = await nftContract.connect(mintSigner).mint(targetWallet, tokenId, amount);
       const receipt = await mintTx.wait();
       
       // Get updated balances
@@ -0,0 +1,129 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+
+/**
+ * One recipient of a multi-recipient mint.
+ */
+export interface RecipientMint {
+  to: string;
+  tokenId: number;
+  amount: bigint;
+}
+
+/**
+ * The result of minting to multiple recipients.
+ */
+export interface MintToManyResult {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+/**
+ * Mint tokens to multiple recipients in one transaction with `mintToMany`.
+ *
+ * Inputs and the total per token ID are checked against the remaining supply
+ * before sending, so a batch that would revert on-chain is rejected up front.
+ *
+ * @param nftContract - The NFT contract.
+ * @param mints - The recipient, token ID and amount of every mint.
+ * @param signer - The signer to use for the transaction.
+ * @returns The result of the minting.
+ */
+export async function mintToMany(
+  nftContract: SecretOfTheDeepNFT,
+  mints: RecipientMint[],
+  signer?: any
+): Promise<MintToManyResult> {
+  try {
+    // Validate inputs
+    if (mints.length === 0) {
+      return {
+        success: false,
+        error: "No recipients"
+      };
+    }
+
+    for (const mint of mints) {
+      if (!ethers.isAddress(mint.to) || mint.to === ethers.ZeroAddress) {
+        return {
+          success: false,
+          error: `Invalid recipient address ${mint.to}`
+        };
+      }
+
+      if (mint.amount <= BigInt(0)) {
+        return {
+          success: false,
+          error: `Amount for ${mint.to} must be greater than 0`
+        };
+      }
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const mintSigner = signer || defaultSigner;
+
+    // Check that we hold the minter role
+    const roleError = await checkRole(nftContract, "minter", mintSigner.address, "mint tokens");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    // Check the total per token ID against the remaining supply
+    const totals = new Map<number, bigint>();
+    for (const mint of mints) {
+      totals.set(mint.tokenId, (totals.get(mint.tokenId) ?? BigInt(0)) + mint.amount);
+    }
+
+    for (const [tokenId, total] of totals) {
+      const tokenInfo = await nftContract.getTokenInfo(tokenId);
+
+      if (!tokenInfo.exists) {
+        return {
+          success: false,
+          error: `Token ID ${tokenId} does not exist`
+        };
+      }
+
+      if (!tokenInfo.isActive) {
+        return {
+          success: false,
+          error: `Token ID ${tokenId} is retired and cannot be minted`
+        };
+      }
+
+      if (tokenInfo.currentSupply + total > tokenInfo.maxSupply) {
+        return {
+          success: false,
+          error: `Cannot mint ${total} of token ${tokenId}. Would exceed max supply of ${tokenInfo.maxSupply}`
+        };
+      }
+    }
+
+    // Mint tokens
+    const tx = await nftContract.connect(mintSigner).mintToMany(
+      mints.map(mint => mint.to),
+      mints.map(mint => mint.tokenId),
+      mints.map(mint => mint.amount)
+    );
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
@@ -0,0 +1,211 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { getTokenMetadata } from "./get-token-metadata";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * Placeholders filled in by the on-chain image template.
+ */
+export const IMAGE_TEMPLATE_PLACEHOLDERS = ["{name}", "{supply}", "{maxSupply}"];
+
+/**
+ * Which tokens serve on-chain metadata.
+ */
+export interface OnChainMetadataState {
+  /** True when every token serves on-chain metadata */
+  enabled: boolean;
+  tokens: { tokenId: number; name: string; enabled: boolean }[];
+  imageTemplate: string;
+  rendererAddress: string;
+}
+
+/**
+ * The result of switching the metadata mode or changing the image template.
+ */
+export interface OnChainMetadataResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  /** True when the token or collection was already in the requested mode */
+  unchanged?: boolean;
+}
+
+/**
+ * Get the metadata mode of the collection and of every token.
+ *
+ * @param nftContract The NFT contract
+ * @returns The on-chain metadata state
+ */
+export async function getOnChainMetadataState(nftContract: SecretOfTheDeepNFT): Promise<OnChainMetadataState> {
+  const enabled = await nftContract.onChainMetadata();
+  const metadata = await getTokenMetadata(nftContract, { checkAccessibility: false });
+
+  const tokens = [];
+  for (const token of metadata.tokens) {
+    tokens.push({
+      tokenId: token.id,
+      name: token.name,
+      enabled: enabled || await nftContract.tokenOnChainMetadata(token.id)
+    });
+  }
+
+  return {
+    enabled,
+    tokens,
+    imageTemplate: await nftContract.imageTemplate(),
+    rendererAddress: await nftContract.metadataRenderer()
+  };
+}
+
+/**
+ * Switch the whole collection, or a single token, between on-chain metadata
+ * and the base URI.
+ *
+ * @param nftContract - The NFT contract.
+ * @param enabled - True to serve on-chain metadata.
+ * @param tokenId - Only switch this token, undefined for the whole collection.
+ * @param signer - The signer to use for the transaction (must be a metadata manager).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setOnChainMetadata(
+  nftContract: SecretOfTheDeepNFT,
+  enabled: boolean,
+  tokenId?: number,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<OnChainMetadataResult> {
+  try {
+    const current = tokenId === undefined
+      ? await nftContract.onChainMetadata()
+      : await nftContract.tokenOnChainMetadata(tokenId);
+    if (current === enabled) {
+      return {
+        success: true,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const metadataSigner = signer || defaultSigner;
+
+    const method = tokenId === undefined ? "setOnChainMetadata" : "setTokenOnChainMetadata";
+    const args = tokenId === undefined ? [enabled] : [tokenId, enabled];
+
+    if (options.dryRun) {
+      const label = tokenId === undefined ? "Collection metadata" : `Token ${tokenId} metadata`;
+      const mode = (onChain: boolean) => onChain ? "on-chain" : "base URI";
+      return dryRunCall(nftContract, method, args, metadataSigner.address, [
+        { label, before: mode(current), after: mode(enabled) }
+      ]);
+    }
+
+    // Check that we hold the metadata role
+    const roleError = await checkRole(nftContract, "metadata", metadataSigner.address, "switch on-chain metadata");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = tokenId === undefined
+      ? await nftContract.connect(metadataSigner).setOnChainMetadata(enabled)
+      : await nftContract.connect(metadataSigner).setTokenOnChainMetadata(tokenId, enabled);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Replace the SVG image template of on-chain metadata.
+ *
+ * @param nftContract - The NFT contract.
+ * @param template - SVG markup, may use {name}, {supply} and {maxSupply}.
+ * @param signer - The signer to use for the transaction (must be a metadata manager).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setImageTemplate(
+  nftContract: SecretOfTheDeepNFT,
+  template: string,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<OnChainMetadataResult> {
+  try {
+    if (!/^\s*<svg[\s>]/.test(template) || !template.trimEnd().endsWith("</svg>")) {
+      return {
+        success: false,
+        error: "Image template must be an SVG document (<svg ...>...</svg>)"
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const metadataSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const current = await nftContract.imageTemplate();
+      return dryRunCall(nftContract, "setImageTemplate", [template], metadataSigner.address, [
+        { label: "Image template", before: `${current.length} characters`, after: `${template.length} characters` }
+      ]);
+    }
+
+    // Check that we hold the metadata role
+    const roleError = await checkRole(nftContract, "metadata", metadataSigner.address, "change the image template");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(metadataSigner).setImageTemplate(template);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Print which tokens serve on-chain metadata.
+ *
+ * @param state State returned by getOnChainMetadataState
+ */
+export function printOnChainMetadataState(state: OnChainMetadataState): void {
+  console.log("⛓️  On-chain Metadata");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(`Collection: ${state.enabled ? "on-chain for every token" : "base URI, unless switched per token"}`);
+
+  for (const token of state.tokens) {
+    console.log(`   Token ${token.tokenId} (${token.name}): ${token.enabled ? "⛓️  on-chain" : "🔗 base URI"}`);
+  }
+
+  const missing = IMAGE_TEMPLATE_PLACEHOLDERS.filter(placeholder => !state.imageTemplate.includes(placeholder));
+  console.log(`Image template: ${state.imageTemplate.length} characters${missing.length > 0 ? `, without ${missing.join(", ")}` : ""}`);
+  console.log(`Renderer: ${state.rendererAddress}`);
+}
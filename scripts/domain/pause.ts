@@ -0,0 +1,116 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * What stops and what keeps working while the contract is paused.
+ */
+export const PAUSE_POLICY = {
+  halted: [
+    "Transfers between holders",
+    "Minting (mint, mintBatch, mintToMany) and burning",
+    "Paybacks and redemption settlements",
+    "New redemption requests",
+    "Dividend payouts and USDC withdrawals"
+  ],
+  available: [
+    "Rejecting or cancelling redemptions (tokens go back to the holder)",
+    "Counter-offers on redemptions",
+    "Adding USDC",
+    "Token creation and metadata updates",
+    "Role management and setting the USDC address"
+  ]
+};
+
+/**
+ * The result of pausing or unpausing the contract.
+ */
+export interface PauseResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  /** Pause state after the call */
+  paused?: boolean;
+  /** True when the contract was already in the requested state */
+  unchanged?: boolean;
+}
+
+/**
+ * Pause or unpause the contract.
+ *
+ * @param nftContract - The NFT contract.
+ * @param paused - True to pause, false to unpause.
+ * @param signer - The signer to use for the transaction (must be a pauser).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setPaused(
+  nftContract: SecretOfTheDeepNFT,
+  paused: boolean,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<PauseResult> {
+  try {
+    const wasPaused = await nftContract.paused();
+    if (wasPaused === paused) {
+      return {
+        success: true,
+        paused,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const pauseSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      return dryRunCall(nftContract, paused ? "pause" : "unpause", [], pauseSigner.address, [
+        { label: "Paused", before: `${wasPaused}`, after: `${paused}` }
+      ]);
+    }
+
+    // Check that we hold the pauser role
+    const roleError = await checkRole(nftContract, "pauser", pauseSigner.address, "pause or unpause the contract");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = paused
+      ? await nftContract.connect(pauseSigner).pause()
+      : await nftContract.connect(pauseSigner).unpause();
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber,
+      paused: await nftContract.paused()
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Print whether the contract is paused and what that means.
+ *
+ * @param paused The current pause state
+ */
+export function printPauseState(paused: boolean): void {
+  console.log(paused ? "⏸️  Contract is PAUSED" : "▶️  Contract is running");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(paused ? "Halted:" : "Halted while paused:");
+  PAUSE_POLICY.halted.forEach(item => console.log(`   ⛔ ${item}`));
+  console.log(paused ? "Still available:" : "Still available while paused:");
+  PAUSE_POLICY.available.forEach(item => console.log(`   ✅ ${item}`));
+}
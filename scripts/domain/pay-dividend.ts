@@ -0,0 +1,102 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * The result of paying a dividend.
+ */
+export interface DividendResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  newContractBalance?: bigint;
+}
+
+/**
+ * Pay a USDC dividend from the contract to a single address.
+ *
+ * @param nftContract - The NFT contract.
+ * @param toAddress - The recipient of the dividend.
+ * @param usdcAmount - The USDC amount to pay (with 6 decimals).
+ * @param signer - The signer to use for the transaction.
+ * @param options - Set `dryRun` to simulate the payout instead of sending it.
+ * @returns The result of the payout.
+ */
+export async function payDividend(
+  nftContract: SecretOfTheDeepNFT,
+  toAddress: string,
+  usdcAmount: bigint,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<DividendResult> {
+  try {
+    // Validate inputs
+    if (!ethers.isAddress(toAddress) || toAddress === ethers.ZeroAddress) {
+      return {
+        success: false,
+        error: "Invalid recipient address"
+      };
+    }
+
+    if (usdcAmount <= BigInt(0)) {
+      return {
+        success: false,
+        error: "USDC amount must be greater than 0"
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const dividendSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const contractBalance = await nftContract.getUSDCBalance();
+      const usdcContract = await ethers.getContractAt("IERC20", await nftContract.usdcAddress());
+      const recipientUsdc = await usdcContract.balanceOf(toAddress);
+
+      return dryRunCall(nftContract, "payDividend", [toAddress, usdcAmount], dividendSigner.address, [
+        { label: "Recipient USDC", before: ethers.formatUnits(recipientUsdc, 6), after: ethers.formatUnits(recipientUsdc + usdcAmount, 6) },
+        { label: "Contract USDC", before: ethers.formatUnits(contractBalance, 6), after: ethers.formatUnits(contractBalance - usdcAmount, 6) }
+      ]);
+    }
+
+    // Check that we hold the treasurer role
+    const roleError = await checkRole(nftContract, "treasurer", dividendSigner.address, "pay dividends");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    // Check contract USDC balance
+    const contractBalance = await nftContract.getUSDCBalance();
+    if (usdcAmount > contractBalance) {
+      return {
+        success: false,
+        error: `Contract only has ${ethers.formatUnits(contractBalance, 6)} USDC, but you requested ${ethers.formatUnits(usdcAmount, 6)} USDC`
+      };
+    }
+
+    // Execute dividend payout
+    const tx = await nftContract.connect(dividendSigner).payDividend(toAddress, usdcAmount);
+    const receipt = await tx.wait();
+
+    const newContractBalance = await nftContract.getUSDCBalance();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber,
+      newContractBalance
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * The result of buying tokens back for USDC.
+ */
+export interface PaybackResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  newHolderBalance?: bigint;
+  newContractBalance?: bigint;
+}
+
+/**
+ * Buy tokens back from a holder for USDC.
+ *
+ * Burns `tokenAmount` tokens of `tokenId` held by `fromAddress` and pays
+ * `usdcAmount` (6 decimals) from the contract's USDC balance.
+ *
+ * @param nftContract - The NFT contract.
+ * @param fromAddress - The holder to buy tokens back from.
+ * @param tokenId - The token ID to buy back.
+ * @param tokenAmount - The amount of tokens to buy back.
+ * @param usdcAmount - The USDC amount to pay (with 6 decimals).
+ * @param signer - The signer to use for the transaction.
+ * @param options - Set `dryRun` to simulate the payback instead of sending it.
+ * @returns The result of the payback.
+ */
+export async function paybackTokens(
+  nftContract: SecretOfTheDeepNFT,
+  fromAddress: string,
+  tokenId: number,
+  tokenAmount: bigint,
+  usdcAmount: bigint,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<PaybackResult> {
+  try {
+    // Validate inputs
+    if (!ethers.isAddress(fromAddress)) {
+      return {
+        success: false,
+        error: "Invalid wallet address format"
+      };
+    }
+
+    if (tokenAmount <= BigInt(0)) {
+      return {
+        success: false,
+        error: "Token amount must be greater than 0"
+      };
+    }
+
+    if (usdcAmount <= BigInt(0)) {
+      return {
+        success: false,
+        error: "USDC amount must be greater than 0"
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const paybackSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const tokenInfo = await nftContract.getTokenInfo(tokenId);
+      const holderBalance = await nftContract.balanceOf(fromAddress, tokenId);
+      const contractBalance = await nftContract.getUSDCBalance();
+      const usdcContract = await ethers.getContractAt("IERC20", await nftContract.usdcAddress());
+      const holderUsdc = await usdcContract.balanceOf(fromAddress);
+
+      return dryRunCall(nftContract, "payback", [fromAddress, tokenId, tokenAmount, usdcAmount], paybackSigner.address, [
+        { label: `Holder ${tokenInfo.name} balance`, before: `${holderBalance}`, after: `${holderBalance - tokenAmount}` },
+        { label: `${tokenInfo.name} supply`, before: `${tokenInfo.currentSupply}`, after: `${tokenInfo.currentSupply - tokenAmount}` },
+        { label: "Holder USDC", before: ethers.formatUnits(holderUsdc, 6), after: ethers.formatUnits(holderUsdc + usdcAmount, 6) },
+        { label: "Contract USDC", before: ethers.formatUnits(contractBalance, 6), after: ethers.formatUnits(contractBalance - usdcAmount, 6) }
+      ]);
+    }
+
+    // Check that we hold the treasurer role
+    const roleError = await checkRole(nftContract, "treasurer", paybackSigner.address, "buy back tokens");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      return {
+        success: false,
+        error: `Token ID ${tokenId} does not exist`
+      };
+    }
+
+    // Check holder balance
+    const holderBalance = await nftContract.balanceOf(fromAddress, tokenId);
+    if (holderBalance === BigInt(0)) {
+      return {
+        success: false,
+        error: `Address ${fromAddress} has no ${tokenInfo.name} tokens`
+      };
+    }
+
+    if (tokenAmount > holderBalance) {
+      return {
+        success: false,
+        error: `Holder only has ${holderBalance} tokens, but you requested ${tokenAmount}`
+      };
+    }
+
+    // Check contract USDC balance
+    const contractBalance = await nftContract.getUSDCBalance();
+    if (usdcAmount > contractBalance) {
+      return {
+        success: false,
+        error: `Contract only has ${ethers.formatUnits(contractBalance, 6)} USDC, but you requested ${ethers.formatUnits(usdcAmount, 6)} USDC`
+      };
+    }
+
+    // Execute payback
+    const tx = await nftContract.connect(paybackSigner).payback(fromAddress, tokenId, tokenAmount, usdcAmount);
+    const receipt = await tx.wait();
+
+    // Get updated balances
+    const newHolderBalance = await nftContract.balanceOf(fromAddress, tokenId);
+    const newContractBalance = await nftContract.getUSDCBalance();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber,
+      newHolderBalance,
+      newContractBalance
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
@@ -0,0 +1,487 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+
+/**
+ * Status of a redemption request, in the order of the contract's
+ * `RedemptionStatus` enum.
+ */
+export const REDEMPTION_STATUSES = ['None', 'Pending', 'Countered', 'Accepted', 'Rejected', 'Cancelled'] as const;
+
+export type RedemptionStatus = typeof REDEMPTION_STATUSES[number];
+
+/**
+ * A holder's request to sell tokens back to the contract.
+ */
+export interface Redemption {
+  id: number;
+  holder: string;
+  tokenId: number;
+  tokenAmount: bigint;
+  /** Price asked by the holder (6 decimals) */
+  requestedUsdc: bigint;
+  /** Price offered by the owner, 0 until countered (6 decimals) */
+  counterUsdc: bigint;
+  status: RedemptionStatus;
+}
+
+/**
+ * The result of a redemption transaction.
+ */
+export interface RedemptionResult {
+  success: boolean;
+  redemptionId?: number;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+/**
+ * Options for listing redemption requests.
+ */
+export interface ListRedemptionsOptions {
+  /** Only requests of this holder */
+  holder?: string;
+  /** Only requests that are still pending or countered */
+  openOnly?: boolean;
+}
+
+/**
+ * Whether a request can still be accepted, countered, rejected or cancelled.
+ *
+ * @param redemption The redemption request
+ */
+export function isOpenRedemption(redemption: Redemption): boolean {
+  return redemption.status === 'Pending' || redemption.status === 'Countered';
+}
+
+/**
+ * Read one redemption request from the contract.
+ *
+ * @param nftContract The NFT contract instance
+ * @param redemptionId The ID of the request
+ * @returns The request, or undefined if the ID was never used
+ */
+export async function getRedemption(
+  nftContract: SecretOfTheDeepNFT,
+  redemptionId: number
+): Promise<Redemption | undefined> {
+  const request = await nftContract.redemptions(redemptionId);
+  const status = REDEMPTION_STATUSES[Number(request.status)];
+
+  if (status === 'None') {
+    return undefined;
+  }
+
+  return {
+    id: redemptionId,
+    holder: request.holder,
+    tokenId: Number(request.tokenId),
+    tokenAmount: request.tokenAmount,
+    requestedUsdc: request.requestedUsdc,
+    counterUsdc: request.counterUsdc,
+    status
+  };
+}
+
+/**
+ * List redemption requests, oldest first.
+ *
+ * @param nftContract The NFT contract instance
+ * @param options Filter by holder or open status
+ * @returns The matching requests
+ */
+export async function listRedemptions(
+  nftContract: SecretOfTheDeepNFT,
+  options: ListRedemptionsOptions = {}
+): Promise<Redemption[]> {
+  const count = Number(await nftContract.redemptionCount());
+  const redemptions: Redemption[] = [];
+
+  for (let id = 1; id <= count; id++) {
+    const redemption = await getRedemption(nftContract, id);
+    if (!redemption) continue;
+
+    if (options.holder && redemption.holder.toLowerCase() !== options.holder.toLowerCase()) continue;
+    if (options.openOnly && !isOpenRedemption(redemption)) continue;
+
+    redemptions.push(redemption);
+  }
+
+  return redemptions;
+}
+
+/**
+ * Request a buyback of the signer's tokens.
+ *
+ * The tokens are locked in the contract until the owner accepts or rejects
+ * the request, or the holder cancels it.
+ *
+ * @param nftContract The NFT contract instance
+ * @param tokenId The token ID to redeem
+ * @param tokenAmount The amount of tokens to redeem
+ * @param requestedUsdc The asked price (with 6 decimals)
+ * @param signer The holder's signer
+ * @returns RedemptionResult with the new request ID
+ */
+export async function requestRedemption(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: number,
+  tokenAmount: bigint,
+  requestedUsdc: bigint,
+  signer?: any
+): Promise<RedemptionResult> {
+  try {
+    // Validate inputs
+    if (tokenAmount <= BigInt(0)) {
+      return {
+        success: false,
+        error: "Token amount must be greater than 0"
+      };
+    }
+
+    if (requestedUsdc <= BigInt(0)) {
+      return {
+        success: false,
+        error: "USDC amount must be greater than 0"
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const holderSigner = signer || defaultSigner;
+
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      return {
+        success: false,
+        error: `Token ID ${tokenId} does not exist`
+      };
+    }
+
+    const balance = await nftContract.balanceOf(holderSigner.address, tokenId);
+    if (tokenAmount > balance) {
+      return {
+        success: false,
+        error: `You only have ${balance} ${tokenInfo.name} tokens, but requested to redeem ${tokenAmount}`
+      };
+    }
+
+    const tx = await nftContract.connect(holderSigner).requestRedemption(tokenId, tokenAmount, requestedUsdc);
+    const receipt = await tx.wait();
+
+    // Read the new ID from the RedemptionRequested event
+    const requested = receipt?.logs
+      .map(log => nftContract.interface.parseLog(log))
+      .find(parsed => parsed?.name === 'RedemptionRequested');
+
+    return {
+      success: true,
+      redemptionId: requested ? Number(requested.args.redemptionId) : undefined,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Load an open request and check that the signer may act on it.
+ */
+async function loadOpenRedemption(
+  nftContract: SecretOfTheDeepNFT,
+  redemptionId: number,
+  signerAddress: string,
+  side: 'treasurer' | 'holder'
+): Promise<{ redemption?: Redemption; error?: string }> {
+  const redemption = await getRedemption(nftContract, redemptionId);
+  if (!redemption) {
+    return { error: `Redemption #${redemptionId} does not exist` };
+  }
+
+  if (!isOpenRedemption(redemption)) {
+    return { error: `Redemption #${redemptionId} is already ${redemption.status.toLowerCase()}` };
+  }
+
+  if (side === 'treasurer') {
+    const roleError = await checkRole(nftContract, "treasurer", signerAddress, "accept, counter or reject redemptions");
+    if (roleError) {
+      return { error: roleError };
+    }
+  } else if (redemption.holder.toLowerCase() !== signerAddress.toLowerCase()) {
+    return { error: `Redemption #${redemptionId} belongs to ${redemption.holder}` };
+  }
+
+  return { redemption };
+}
+
+/**
+ * Check that the contract holds enough USDC to pay for a redemption.
+ */
+async function checkUsdcBalance(nftContract: SecretOfTheDeepNFT, usdcAmount: bigint): Promise<string | undefined> {
+  const contractBalance = await nftContract.getUSDCBalance();
+  if (usdcAmount > contractBalance) {
+    return `Contract only has ${ethers.formatUnits(contractBalance, 6)} USDC, but the redemption pays ${ethers.formatUnits(usdcAmount, 6)} USDC`;
+  }
+}
+
+/**
+ * Accept a redemption request at the holder's price (treasurer only).
+ *
+ * Burns the locked tokens and pays the holder from the contract's USDC.
+ *
+ * @param nftContract The NFT contract instance
+ * @param redemptionId The ID of the request
+ * @param signer The treasurer's signer
+ * @returns RedemptionResult
+ */
+export async function acceptRedemption(
+  nftContract: SecretOfTheDeepNFT,
+  redemptionId: number,
+  signer?: any
+): Promise<RedemptionResult> {
+  try {
+    const [defaultSigner] = await ethers.getSigners();
+    const treasurerSigner = signer || defaultSigner;
+
+    const { redemption, error } = await loadOpenRedemption(nftContract, redemptionId, treasurerSigner.address, 'treasurer');
+    if (!redemption) {
+      return { success: false, error };
+    }
+
+    const balanceError = await checkUsdcBalance(nftContract, redemption.requestedUsdc);
+    if (balanceError) {
+      return { success: false, error: balanceError };
+    }
+
+    const tx = await nftContract.connect(treasurerSigner).acceptRedemption(redemptionId);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      redemptionId,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Offer a different price for a redemption request (treasurer only).
+ *
+ * The holder can accept the counter-offer or cancel the request.
+ *
+ * @param nftContract The NFT contract instance
+ * @param redemptionId The ID of the request
+ * @param counterUsdc The offered price (with 6 decimals)
+ * @param signer The treasurer's signer
+ * @returns RedemptionResult
+ */
+export async function counterRedemption(
+  nftContract: SecretOfTheDeepNFT,
+  redemptionId: number,
+  counterUsdc: bigint,
+  signer?: any
+): Promise<RedemptionResult> {
+  try {
+    if (counterUsdc <= BigInt(0)) {
+      return {
+        success: false,
+        error: "USDC amount must be greater than 0"
+      };
+    }
+
+    const [defaultSigner] = await ethers.getSigners();
+    const treasurerSigner = signer || defaultSigner;
+
+    const { redemption, error } = await loadOpenRedemption(nftContract, redemptionId, treasurerSigner.address, 'treasurer');
+    if (!redemption) {
+      return { success: false, error };
+    }
+
+    const tx = await nftContract.connect(treasurerSigner).counterRedemption(redemptionId, counterUsdc);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      redemptionId,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Reject a redemption request and return the tokens to the holder (treasurer only).
+ *
+ * @param nftContract The NFT contract instance
+ * @param redemptionId The ID of the request
+ * @param signer The treasurer's signer
+ * @returns RedemptionResult
+ */
+export async function rejectRedemption(
+  nftContract: SecretOfTheDeepNFT,
+  redemptionId: number,
+  signer?: any
+): Promise<RedemptionResult> {
+  try {
+    const [defaultSigner] = await ethers.getSigners();
+    const treasurerSigner = signer || defaultSigner;
+
+    const { redemption, error } = await loadOpenRedemption(nftContract, redemptionId, treasurerSigner.address, 'treasurer');
+    if (!redemption) {
+      return { success: false, error };
+    }
+
+    const tx = await nftContract.connect(treasurerSigner).rejectRedemption(redemptionId);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      redemptionId,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Accept the owner's counter-offer on the signer's redemption request.
+ *
+ * @param nftContract The NFT contract instance
+ * @param redemptionId The ID of the request
+ * @param signer The holder's signer
+ * @returns RedemptionResult
+ */
+export async function acceptCounterOffer(
+  nftContract: SecretOfTheDeepNFT,
+  redemptionId: number,
+  signer?: any
+): Promise<RedemptionResult> {
+  try {
+    const [defaultSigner] = await ethers.getSigners();
+    const holderSigner = signer || defaultSigner;
+
+    const { redemption, error } = await loadOpenRedemption(nftContract, redemptionId, holderSigner.address, 'holder');
+    if (!redemption) {
+      return { success: false, error };
+    }
+
+    if (redemption.status !== 'Countered') {
+      return {
+        success: false,
+        error: `Redemption #${redemptionId} has no counter-offer to accept`
+      };
+    }
+
+    const balanceError = await checkUsdcBalance(nftContract, redemption.counterUsdc);
+    if (balanceError) {
+      return { success: false, error: balanceError };
+    }
+
+    const tx = await nftContract.connect(holderSigner).acceptCounterOffer(redemptionId);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      redemptionId,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Cancel the signer's open redemption request and get the tokens back.
+ *
+ * @param nftContract The NFT contract instance
+ * @param redemptionId The ID of the request
+ * @param signer The holder's signer
+ * @returns RedemptionResult
+ */
+export async function cancelRedemption(
+  nftContract: SecretOfTheDeepNFT,
+  redemptionId: number,
+  signer?: any
+): Promise<RedemptionResult> {
+  try {
+    const [defaultSigner] = await ethers.getSigners();
+    const holderSigner = signer || defaultSigner;
+
+    const { redemption, error } = await loadOpenRedemption(nftContract, redemptionId, holderSigner.address, 'holder');
+    if (!redemption) {
+      return { success: false, error };
+    }
+
+    const tx = await nftContract.connect(holderSigner).cancelRedemption(redemptionId);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      redemptionId,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Print redemption requests as a table.
+ *
+ * @param redemptions The requests to print
+ * @param formatAddress Formats holder addresses, e.g. with address book names
+ */
+export function printRedemptions(
+  redemptions: Redemption[],
+  formatAddress: (address: string) => string = address => address
+): void {
+  if (redemptions.length === 0) {
+    console.log("📭 No redemption requests");
+    return;
+  }
+
+  const usdc = (amount: bigint) => `${ethers.formatUnits(amount, 6)} USDC`;
+
+  console.log("🙋 Redemption Requests");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  for (const redemption of redemptions) {
+    const counter = redemption.status === 'Countered' ? ` | Counter-offer: ${usdc(redemption.counterUsdc)}` : "";
+    console.log(`#${redemption.id} [${redemption.status}] ${formatAddress(redemption.holder)}`);
+    console.log(`   Token ${redemption.tokenId}: ${redemption.tokenAmount} | Asked: ${usdc(redemption.requestedUsdc)}${counter}`);
+  }
+}
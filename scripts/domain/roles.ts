@@ -0,0 +1,226 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { readIndexedEvents, syncContractEvents } from "./event-indexer";
+
+/**
+ * Contract roles by their short name. The admin role grants and revokes
+ * the other roles, creates tokens and sets the USDC address.
+ */
+export const ROLES = {
+  admin: ethers.ZeroHash,
+  minter: ethers.id("MINTER_ROLE"),
+  treasurer: ethers.id("TREASURER_ROLE"),
+  metadata: ethers.id("METADATA_MANAGER_ROLE"),
+  pauser: ethers.id("PAUSER_ROLE"),
+  compliance: ethers.id("COMPLIANCE_ROLE")
+} as const;
+
+export type RoleName = keyof typeof ROLES;
+
+export const ROLE_NAMES = Object.keys(ROLES) as RoleName[];
+
+/**
+ * Human readable role names for messages.
+ */
+export const ROLE_LABELS: Record<RoleName, string> = {
+  admin: "admin",
+  minter: "minter",
+  treasurer: "treasurer",
+  metadata: "metadata manager",
+  pauser: "pauser",
+  compliance: "compliance officer"
+};
+
+/**
+ * Accounts holding each role.
+ */
+export type RoleMembers = Record<RoleName, string[]>;
+
+/**
+ * The result of granting or revoking a role.
+ */
+export interface RoleChangeResult {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  /** True when the account already had (or already lacked) the role */
+  unchanged?: boolean;
+}
+
+/**
+ * Parse a role name as typed by the user.
+ *
+ * @param input e.g. "minter", "TREASURER" or "METADATA_MANAGER_ROLE"
+ * @returns The role name
+ */
+export function parseRoleName(input: string): RoleName {
+  const aliases: Record<string, RoleName> = { default_admin: "admin", metadata_manager: "metadata" };
+  const normalized = input.trim().toLowerCase().replace(/_role$/, "");
+  const role = aliases[normalized] ?? normalized;
+
+  if (!ROLE_NAMES.includes(role as RoleName)) {
+    throw new Error(`Unknown role "${input}". Use one of ${ROLE_NAMES.join(", ")}`);
+  }
+
+  return role as RoleName;
+}
+
+/**
+ * Get the name of a role hash.
+ *
+ * @param roleHash The bytes32 role identifier
+ * @returns The role name, or the hash itself for unknown roles
+ */
+export function getRoleName(roleHash: string): string {
+  const role = ROLE_NAMES.find(name => ROLES[name] === roleHash.toLowerCase());
+  return role ?? roleHash;
+}
+
+/**
+ * Check that an account holds the role an action needs.
+ *
+ * @param nftContract The NFT contract
+ * @param role The required role
+ * @param account The account that would send the transaction
+ * @param action What the role is needed for, e.g. "mint tokens"
+ * @returns An error message, or undefined if the account has the role
+ */
+export async function checkRole(
+  nftContract: SecretOfTheDeepNFT,
+  role: RoleName,
+  account: string,
+  action: string
+): Promise<string | undefined> {
+  if (await nftContract.hasRole(ROLES[role], account)) {
+    return undefined;
+  }
+
+  const label = ROLE_LABELS[role];
+  return `You do not have the ${label} role. Only ${/^[aeiou]/.test(label) ? "an" : "a"} ${label} can ${action}.`;
+}
+
+/**
+ * Get the accounts holding each role by replaying the RoleGranted and
+ * RoleRevoked events from the local event index.
+ *
+ * @param nftContract The NFT contract
+ * @returns Role members in the order they were granted
+ */
+export async function getRoleMembers(nftContract: SecretOfTheDeepNFT): Promise<RoleMembers> {
+  const syncResult = await syncContractEvents(nftContract);
+  if (!syncResult.success || !syncResult.state) {
+    throw new Error(`Event index sync failed: ${syncResult.error}`);
+  }
+
+  const members = new Map<string, Set<string>>();
+  const events = readIndexedEvents(
+    syncResult.state.chainId,
+    await nftContract.getAddress(),
+    ["RoleGranted", "RoleRevoked"]
+  );
+
+  for (const event of events) {
+    const args = event.args as Record<string, string>;
+    const accounts = members.get(args.role) ?? new Set<string>();
+    if (event.eventName === "RoleGranted") {
+      accounts.add(ethers.getAddress(args.account));
+    } else {
+      accounts.delete(ethers.getAddress(args.account));
+    }
+    members.set(args.role, accounts);
+  }
+
+  return Object.fromEntries(
+    ROLE_NAMES.map(role => [role, Array.from(members.get(ROLES[role]) ?? [])])
+  ) as RoleMembers;
+}
+
+/**
+ * Grant a role to an account.
+ *
+ * @param nftContract - The NFT contract.
+ * @param role - The role to grant.
+ * @param account - The account receiving the role.
+ * @param signer - The signer to use for the transaction (must be an admin).
+ * @returns The result of the grant.
+ */
+export async function grantRole(
+  nftContract: SecretOfTheDeepNFT,
+  role: RoleName,
+  account: string,
+  signer?: any
+): Promise<RoleChangeResult> {
+  return changeRole(nftContract, role, account, true, signer);
+}
+
+/**
+ * Revoke a role from an account.
+ *
+ * @param nftContract - The NFT contract.
+ * @param role - The role to revoke.
+ * @param account - The account losing the role.
+ * @param signer - The signer to use for the transaction (must be an admin).
+ * @returns The result of the revocation.
+ */
+export async function revokeRole(
+  nftContract: SecretOfTheDeepNFT,
+  role: RoleName,
+  account: string,
+  signer?: any
+): Promise<RoleChangeResult> {
+  return changeRole(nftContract, role, account, false, signer);
+}
+
+async function changeRole(
+  nftContract: SecretOfTheDeepNFT,
+  role: RoleName,
+  account: string,
+  grant: boolean,
+  signer?: any
+): Promise<RoleChangeResult> {
+  try {
+    if (!ethers.isAddress(account)) {
+      return {
+        success: false,
+        error: "Invalid account address format"
+      };
+    }
+
+    const [defaultSigner] = await ethers.getSigners();
+    const roleSigner = signer || defaultSigner;
+
+    const roleError = await checkRole(nftContract, "admin", roleSigner.address, grant ? "grant roles" : "revoke roles");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const hasRole = await nftContract.hasRole(ROLES[role], account);
+    if (hasRole === grant) {
+      return {
+        success: true,
+        unchanged: true
+      };
+    }
+
+    const tx = grant
+      ? await nftContract.connect(roleSigner).grantRole(ROLES[role], account)
+      : await nftContract.connect(roleSigner).revokeRole(ROLES[role], account);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
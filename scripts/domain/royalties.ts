@@ -0,0 +1,342 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { readIndexedEvents, syncContractEvents } from "./event-indexer";
+import { loadManifest, MANIFEST_PATH, writeMetadataFiles } from "./metadata-build";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * ERC-2981 fees are expressed against this denominator (basis points).
+ */
+export const ROYALTY_DENOMINATOR = 10_000;
+
+/**
+ * A royalty receiver and fee.
+ */
+export interface RoyaltySetting {
+  receiver: string;
+  feeBasisPoints: number;
+}
+
+/**
+ * The royalty that applies to a token.
+ */
+export interface TokenRoyalty extends RoyaltySetting {
+  tokenId: number;
+  name: string;
+  /** True when the token has its own royalty instead of the default */
+  isOverride: boolean;
+}
+
+/**
+ * Royalty settings of the contract.
+ */
+export interface RoyaltySettings {
+  /** The default royalty, undefined if the index has no DefaultRoyaltySet event */
+  defaultRoyalty?: RoyaltySetting;
+  tokens: TokenRoyalty[];
+}
+
+/**
+ * The result of changing a royalty setting.
+ */
+export interface RoyaltyResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+/**
+ * Format basis points as a percentage.
+ *
+ * @param feeBasisPoints Fee in basis points, e.g. 250
+ * @returns e.g. "2.5%"
+ */
+export function formatRoyalty(feeBasisPoints: number): string {
+  return `${feeBasisPoints / 100}%`;
+}
+
+/**
+ * Parse a royalty percentage as typed by the user.
+ *
+ * @param input e.g. "5", "2.5%" or "0"
+ * @returns The fee in basis points
+ */
+export function parseRoyaltyPercent(input: string): number {
+  const trimmed = input.trim().replace(/%$/, "");
+  if (!/^\d+(\.\d{1,2})?$/.test(trimmed)) {
+    throw new Error(`Invalid royalty "${input}". Use a percentage with at most two decimals, e.g. 5 or 2.5`);
+  }
+
+  const feeBasisPoints = Math.round(parseFloat(trimmed) * 100);
+  if (feeBasisPoints > ROYALTY_DENOMINATOR) {
+    throw new Error("Royalty cannot exceed 100%");
+  }
+
+  return feeBasisPoints;
+}
+
+/**
+ * Get the default royalty and the royalty of every token.
+ *
+ * Tokens and overrides come from the local event index; the receiver and fee
+ * of each token are read from `royaltyInfo`.
+ *
+ * @param nftContract The NFT contract
+ * @returns The royalty settings
+ */
+export async function getRoyaltySettings(nftContract: SecretOfTheDeepNFT): Promise<RoyaltySettings> {
+  const syncResult = await syncContractEvents(nftContract);
+  if (!syncResult.success || !syncResult.state) {
+    throw new Error(`Event index sync failed: ${syncResult.error}`);
+  }
+
+  const events = readIndexedEvents(
+    syncResult.state.chainId,
+    await nftContract.getAddress(),
+    ["TokenCreated", "DefaultRoyaltySet", "TokenRoyaltySet", "TokenRoyaltyReset"]
+  );
+
+  let defaultRoyalty: RoyaltySetting | undefined;
+  const tokenNames = new Map<number, string>();
+  const overrides = new Set<number>();
+
+  for (const event of events) {
+    const args = event.args as Record<string, string>;
+    switch (event.eventName) {
+      case "TokenCreated":
+        tokenNames.set(Number(args.tokenId), args.name);
+        break;
+      case "DefaultRoyaltySet":
+        defaultRoyalty = { receiver: args.receiver, feeBasisPoints: Number(args.feeBasisPoints) };
+        break;
+      case "TokenRoyaltySet":
+        overrides.add(Number(args.tokenId));
+        break;
+      case "TokenRoyaltyReset":
+        overrides.delete(Number(args.tokenId));
+        break;
+    }
+  }
+
+  const tokens: TokenRoyalty[] = [];
+  for (const [tokenId, name] of tokenNames) {
+    const [receiver, royaltyAmount] = await nftContract.royaltyInfo(tokenId, ROYALTY_DENOMINATOR);
+    tokens.push({
+      tokenId,
+      name,
+      receiver,
+      feeBasisPoints: Number(royaltyAmount),
+      isOverride: overrides.has(tokenId)
+    });
+  }
+
+  return { defaultRoyalty, tokens };
+}
+
+/**
+ * Validate a royalty receiver and fee.
+ */
+function validateRoyalty(receiver: string, feeBasisPoints: number): string | undefined {
+  if (!ethers.isAddress(receiver) || receiver === ethers.ZeroAddress) {
+    return "Invalid royalty receiver address";
+  }
+  if (!Number.isInteger(feeBasisPoints) || feeBasisPoints < 0 || feeBasisPoints > ROYALTY_DENOMINATOR) {
+    return "Royalty must be between 0 and 10000 basis points";
+  }
+  return undefined;
+}
+
+/**
+ * Set the royalty of every token without an override.
+ *
+ * @param nftContract - The NFT contract.
+ * @param receiver - The address receiving royalties.
+ * @param feeBasisPoints - The royalty in basis points.
+ * @param signer - The signer to use for the transaction (must be an admin).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setDefaultRoyalty(
+  nftContract: SecretOfTheDeepNFT,
+  receiver: string,
+  feeBasisPoints: number,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<RoyaltyResult> {
+  try {
+    const validationError = validateRoyalty(receiver, feeBasisPoints);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const royaltySigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const { defaultRoyalty } = await getRoyaltySettings(nftContract);
+      return dryRunCall(nftContract, "setDefaultRoyalty", [receiver, feeBasisPoints], royaltySigner.address, [
+        {
+          label: "Default royalty",
+          before: defaultRoyalty ? `${formatRoyalty(defaultRoyalty.feeBasisPoints)} to ${defaultRoyalty.receiver}` : "unknown",
+          after: `${formatRoyalty(feeBasisPoints)} to ${receiver}`
+        }
+      ]);
+    }
+
+    // Check that we hold the admin role
+    const roleError = await checkRole(nftContract, "admin", royaltySigner.address, "change royalties");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(royaltySigner).setDefaultRoyalty(receiver, feeBasisPoints);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Give a single token its own royalty, or remove its override.
+ *
+ * @param nftContract - The NFT contract.
+ * @param tokenId - The token ID.
+ * @param royalty - The token's receiver and fee, or undefined to fall back to the default.
+ * @param signer - The signer to use for the transaction (must be an admin).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setTokenRoyalty(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: number,
+  royalty: RoyaltySetting | undefined,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<RoyaltyResult> {
+  try {
+    if (royalty) {
+      const validationError = validateRoyalty(royalty.receiver, royalty.feeBasisPoints);
+      if (validationError) {
+        return {
+          success: false,
+          error: validationError
+        };
+      }
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const royaltySigner = signer || defaultSigner;
+
+    const method = royalty ? "setTokenRoyalty" : "resetTokenRoyalty";
+    const args = royalty ? [tokenId, royalty.receiver, royalty.feeBasisPoints] : [tokenId];
+
+    if (options.dryRun) {
+      const [receiver, royaltyAmount] = await nftContract.royaltyInfo(tokenId, ROYALTY_DENOMINATOR);
+      return dryRunCall(nftContract, method, args, royaltySigner.address, [
+        {
+          label: `Token ${tokenId} royalty`,
+          before: `${formatRoyalty(Number(royaltyAmount))} to ${receiver}`,
+          after: royalty ? `${formatRoyalty(royalty.feeBasisPoints)} to ${royalty.receiver}` : "default"
+        }
+      ]);
+    }
+
+    // Check that we hold the admin role
+    const roleError = await checkRole(nftContract, "admin", royaltySigner.address, "change royalties");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = royalty
+      ? await nftContract.connect(royaltySigner).setTokenRoyalty(tokenId, royalty.receiver, royalty.feeBasisPoints)
+      : await nftContract.connect(royaltySigner).resetTokenRoyalty(tokenId);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Write the default royalty into the manifest and regenerate contract.json,
+ * where marketplaces that do not read ERC-2981 look for it. The file has to be
+ * republished for the change to show up.
+ *
+ * @param royalty The default royalty
+ * @param manifestPath The metadata manifest (default: metadata/manifest.json)
+ * @returns True if the manifest changed
+ */
+export function writeCollectionRoyalty(royalty: RoyaltySetting, manifestPath: string = MANIFEST_PATH): boolean {
+  const manifest = loadManifest(manifestPath);
+  const receiver = ethers.getAddress(royalty.receiver);
+
+  if (manifest.collection.seller_fee_basis_points === royalty.feeBasisPoints && manifest.collection.fee_recipient === receiver) {
+    return false;
+  }
+
+  manifest.collection.seller_fee_basis_points = royalty.feeBasisPoints;
+  manifest.collection.fee_recipient = receiver;
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+
+  const result = writeMetadataFiles(manifest, path.dirname(manifestPath));
+  if (!result.success) {
+    throw new Error(`Regenerating contract.json failed: ${result.error}`);
+  }
+  return true;
+}
+
+/**
+ * Print the default royalty and the royalty of every token.
+ *
+ * @param settings Settings returned by getRoyaltySettings
+ * @param formatAddress Formats addresses, e.g. with address book names
+ */
+export function printRoyaltySettings(
+  settings: RoyaltySettings,
+  formatAddress: (address: string) => string = address => address
+): void {
+  console.log("👑 Royalties (ERC-2981)");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(settings.defaultRoyalty
+    ? `Default: ${formatRoyalty(settings.defaultRoyalty.feeBasisPoints)} to ${formatAddress(settings.defaultRoyalty.receiver)}`
+    : "Default: unknown");
+
+  for (const token of settings.tokens) {
+    const source = token.isOverride ? "override" : "default";
+    console.log(`   Token ${token.tokenId} (${token.name}): ${formatRoyalty(token.feeBasisPoints)} to ${formatAddress(token.receiver)} [${source}]`);
+  }
+}
@@ -0,0 +1,194 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+import type { Interface, ParamType } from "ethers";
+
+/**
+ * One transaction in a Safe Transaction Builder batch.
+ */
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  /** Shown by the Transaction Builder instead of raw calldata */
+  contractMethod: {
+    inputs: Array<{ internalType: string; name: string; type: string }>;
+    name: string;
+    payable: boolean;
+  };
+  contractInputsValues: Record<string, string>;
+}
+
+/**
+ * A Safe Transaction Builder batch file, as exported and imported by the
+ * Transaction Builder Safe App.
+ */
+export interface SafeBatchFile {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+/**
+ * Safe and chain a batch is created for.
+ */
+export interface SafeBatchTarget {
+  chainId: string;
+  /** The Safe that will execute the batch, i.e. the holder of the required role */
+  safeAddress: string;
+  /** Batch name shown in the Transaction Builder (only used for new files) */
+  name?: string;
+}
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+/**
+ * Format an argument the way the Transaction Builder shows and re-encodes it:
+ * plain strings for scalars and JSON for arrays and tuples.
+ */
+function formatInputValue(param: ParamType, value: unknown): string {
+  if (param.isArray() || param.isTuple()) {
+    return JSON.stringify(value, (_, item) => typeof item === "bigint" ? item.toString() : item);
+  }
+
+  return String(value);
+}
+
+/**
+ * Encode a contract call as a Safe batch transaction.
+ *
+ * @param to The contract to call
+ * @param contractInterface The ABI of the contract
+ * @param method The function name
+ * @param args The function arguments
+ * @returns The transaction with calldata and readable inputs
+ */
+export function encodeSafeTransaction(
+  to: string,
+  contractInterface: Interface,
+  method: string,
+  args: unknown[]
+): SafeBatchTransaction {
+  const fragment = contractInterface.getFunction(method);
+  if (!fragment) {
+    throw new Error(`Function ${method} not found in the contract ABI`);
+  }
+
+  const contractInputsValues: Record<string, string> = {};
+  fragment.inputs.forEach((input, index) => {
+    contractInputsValues[input.name] = formatInputValue(input, args[index]);
+  });
+
+  return {
+    to: ethers.getAddress(to),
+    value: "0",
+    data: contractInterface.encodeFunctionData(fragment, args),
+    contractMethod: {
+      inputs: fragment.inputs.map(input => ({ internalType: input.type, name: input.name, type: input.type })),
+      name: fragment.name,
+      payable: fragment.payable
+    },
+    contractInputsValues
+  };
+}
+
+/**
+ * Serialize JSON with sorted keys, matching the Transaction Builder's own
+ * checksum serialization.
+ */
+function serializeForChecksum(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeForChecksum).join(",")}]`;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).sort();
+    return `{${JSON.stringify(keys)}${keys.map(key => `${serializeForChecksum(record[key])},`).join("")}}`;
+  }
+
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+/**
+ * Calculate the checksum the Transaction Builder uses to detect edited batch files.
+ *
+ * @param batch The batch, without a checksum
+ * @returns The keccak256 checksum
+ */
+export function calculateSafeBatchChecksum(batch: SafeBatchFile): string {
+  const { checksum, ...meta } = batch.meta;
+  return ethers.id(serializeForChecksum({ ...batch, meta: { ...meta, name: null } }));
+}
+
+/**
+ * Load a batch file.
+ *
+ * @param filePath Path of the batch file
+ * @returns The batch, or undefined if the file does not exist
+ */
+export function loadSafeBatch(filePath: string): SafeBatchFile | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Append transactions to a batch file, creating it if needed.
+ *
+ * Collecting several operations in one file lets the Safe owners review and
+ * sign them as a single Safe transaction.
+ *
+ * @param filePath Path of the batch file
+ * @param transactions Transactions to append
+ * @param target Chain and Safe the batch is for
+ * @returns The updated batch
+ */
+export function appendToSafeBatch(
+  filePath: string,
+  transactions: SafeBatchTransaction[],
+  target: SafeBatchTarget
+): SafeBatchFile {
+  const existing = loadSafeBatch(filePath);
+
+  if (existing && existing.chainId !== target.chainId) {
+    throw new Error(`${filePath} is a batch for chain ${existing.chainId}, not chain ${target.chainId}`);
+  }
+  if (existing && existing.meta.createdFromSafeAddress.toLowerCase() !== target.safeAddress.toLowerCase()) {
+    throw new Error(`${filePath} is a batch for Safe ${existing.meta.createdFromSafeAddress}, not ${target.safeAddress}`);
+  }
+
+  const batch: SafeBatchFile = existing ?? {
+    version: "1.0",
+    chainId: target.chainId,
+    createdAt: Date.now(),
+    meta: {
+      name: target.name ?? path.parse(filePath).name,
+      description: "",
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: ethers.getAddress(target.safeAddress),
+      createdFromOwnerAddress: ""
+    },
+    transactions: []
+  };
+
+  batch.transactions.push(...transactions);
+  delete batch.meta.checksum;
+  batch.meta.checksum = calculateSafeBatchChecksum(batch);
+
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(batch, null, 2) + "\n");
+
+  return batch;
+}
@@ -0,0 +1,98 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+
+/**
+ * Well-known USDC token addresses.
+ */
+export const KNOWN_USDC_ADDRESSES: Record<string, string> = {
+  "Polygon Native USDC": "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+  "Polygon Bridged USDC": "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
+  "Polygon Mumbai": "0xe6b8a5CF854791412c1f6EFC7CAf629f5Df1c747",
+  "Arbitrum": "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8",
+  "Optimism": "0x7F5c764cBc14f9669B88837ca1490cCa17c31607"
+};
+
+/**
+ * The result of setting the USDC address.
+ */
+export interface SetUSDCAddressResult {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  oldAddress?: string;
+  newAddress?: string;
+  /** True when the contract already pointed at the requested address */
+  unchanged?: boolean;
+}
+
+/**
+ * Set the USDC token address used by the contract.
+ *
+ * @param nftContract - The NFT contract.
+ * @param newUSDCAddress - The new USDC token address.
+ * @param signer - The signer to use for the transaction.
+ * @returns The result of the update.
+ */
+export async function setUSDCAddress(
+  nftContract: SecretOfTheDeepNFT,
+  newUSDCAddress: string,
+  signer?: any
+): Promise<SetUSDCAddressResult> {
+  try {
+    if (!ethers.isAddress(newUSDCAddress)) {
+      return {
+        success: false,
+        error: "Invalid USDC address format"
+      };
+    }
+
+    if (newUSDCAddress === ethers.ZeroAddress) {
+      return {
+        success: false,
+        error: "USDC address cannot be zero"
+      };
+    }
+
+    const oldAddress = await nftContract.usdcAddress();
+    if (oldAddress.toLowerCase() === newUSDCAddress.toLowerCase()) {
+      return {
+        success: true,
+        oldAddress,
+        newAddress: oldAddress,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const updateSigner = signer || defaultSigner;
+
+    // Check that we hold the admin role
+    const roleError = await checkRole(nftContract, "admin", updateSigner.address, "set the USDC address");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(updateSigner).setUSDCAddress(newUSDCAddress);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber,
+      oldAddress,
+      newAddress: await nftContract.usdcAddress()
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
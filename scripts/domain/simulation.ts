@@ -0,0 +1,196 @@
+import { ethers } from "hardhat";
+import type { BaseContract, Interface } from "ethers";
+
+/**
+ * Outcome of simulating a transaction with `staticCall` and `estimateGas`.
+ */
+export interface SimulationResult {
+  /** The transaction would go through */
+  willSucceed: boolean;
+  /** Decoded revert reason, e.g. "Exceeds max supply" or "AccessControlUnauthorizedAccount(0x..., 0x...)" */
+  revertReason?: string;
+  gasEstimate?: bigint;
+  /** Gas price the cost is based on (wei) */
+  gasPrice?: bigint;
+  /** gasEstimate × gasPrice (wei) */
+  estimatedCost?: bigint;
+  /** Anything the simulation could not cover */
+  note?: string;
+}
+
+/**
+ * A value the transaction is expected to change.
+ */
+export interface StateChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Options shared by the write functions.
+ */
+export interface DryRunOptions {
+  /** Simulate the transaction and report the expected changes instead of sending it */
+  dryRun?: boolean;
+}
+
+/**
+ * Fields a write result carries when it was a dry run.
+ */
+export interface DryRunFields {
+  dryRun?: boolean;
+  simulation?: SimulationResult;
+  expectedChanges?: StateChange[];
+}
+
+/**
+ * Turn a failed call into a readable revert reason.
+ *
+ * Handles `require` messages, custom errors such as
+ * `AccessControlUnauthorizedAccount` and panics.
+ *
+ * @param error The error thrown by `staticCall` or `estimateGas`
+ * @param contractInterface ABI used to decode custom errors
+ * @returns The revert reason
+ */
+export function decodeRevertReason(error: unknown, contractInterface?: Interface): string {
+  const err = error as {
+    revert?: { name: string; args: unknown[] };
+    reason?: string | null;
+    data?: string;
+    shortMessage?: string;
+    message?: string;
+  };
+
+  if (err?.revert) {
+    if (err.revert.name === "Error") {
+      return String(err.revert.args[0]);
+    }
+    return `${err.revert.name}(${err.revert.args.map(String).join(", ")})`;
+  }
+
+  if (err?.reason) {
+    return err.reason;
+  }
+
+  if (contractInterface && typeof err?.data === "string" && err.data !== "0x") {
+    const parsed = contractInterface.parseError(err.data);
+    if (parsed) {
+      return parsed.name === "Error"
+        ? String(parsed.args[0])
+        : `${parsed.name}(${Array.from(parsed.args).map(String).join(", ")})`;
+    }
+  }
+
+  // Hardhat network puts the decoded reason in the message
+  const message = err?.shortMessage ?? err?.message ?? "Unknown error occurred";
+  const hardhatReason = message.match(/reverted with (?:reason string|custom error) '(.*)'/);
+  return hardhatReason ? hardhatReason[1].replace(/"/g, "") : message;
+}
+
+/**
+ * Simulate a contract call from a given address without sending it.
+ *
+ * @param contract The contract to call
+ * @param method The function name
+ * @param args The function arguments
+ * @param from The address that would send the transaction
+ * @returns The simulation outcome with gas and cost estimates
+ */
+export async function simulateCall(
+  contract: BaseContract,
+  method: string,
+  args: unknown[],
+  from: string
+): Promise<SimulationResult> {
+  // Connect to the provider so `from` is not checked against the contract's signer
+  const fn = contract.connect(ethers.provider).getFunction(method);
+
+  try {
+    await fn.staticCall(...args, { from });
+    const gasEstimate = await fn.estimateGas(...args, { from });
+
+    const feeData = await ethers.provider.getFeeData();
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? undefined;
+
+    return {
+      willSucceed: true,
+      gasEstimate,
+      gasPrice,
+      estimatedCost: gasPrice !== undefined ? gasEstimate * gasPrice : undefined
+    };
+  } catch (error) {
+    return {
+      willSucceed: false,
+      revertReason: decodeRevertReason(error, contract.interface)
+    };
+  }
+}
+
+/**
+ * Simulate a call and wrap it as the result of a dry run.
+ *
+ * @param contract The contract to call
+ * @param method The function name
+ * @param args The function arguments
+ * @param from The address that would send the transaction
+ * @param expectedChanges Values the transaction would change
+ * @returns A write result with `dryRun` set; `success` is false if the call would revert
+ */
+export async function dryRunCall(
+  contract: BaseContract,
+  method: string,
+  args: unknown[],
+  from: string,
+  expectedChanges: StateChange[]
+): Promise<{ success: boolean; error?: string } & Required<DryRunFields>> {
+  const simulation = await simulateCall(contract, method, args, from);
+
+  return {
+    success: simulation.willSucceed,
+    error: simulation.willSucceed ? undefined : `Transaction would revert: ${simulation.revertReason}`,
+    dryRun: true,
+    simulation,
+    expectedChanges
+  };
+}
+
+/**
+ * Print the outcome of a dry run.
+ *
+ * @param result A write result returned with `dryRun: true`
+ */
+export async function printDryRun(result: DryRunFields): Promise<void> {
+  const { simulation, expectedChanges = [] } = result;
+  if (!simulation) return;
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const currency = chainId === BigInt(137) || chainId === BigInt(80002) ? "POL" : "ETH";
+
+  console.log("\n🧪 Dry Run (nothing was sent)");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  if (simulation.willSucceed) {
+    console.log("✅ Would succeed");
+  } else {
+    console.log(`❌ Would revert: ${simulation.revertReason}`);
+  }
+
+  if (simulation.gasEstimate !== undefined) {
+    console.log(`⛽ Gas estimate: ${simulation.gasEstimate.toLocaleString()}`);
+  }
+  if (simulation.estimatedCost !== undefined && simulation.gasPrice !== undefined) {
+    console.log(`💸 Estimated cost: ${ethers.formatEther(simulation.estimatedCost)} ${currency} (at ${ethers.formatUnits(simulation.gasPrice, "gwei")} gwei)`);
+  }
+  if (simulation.note) {
+    console.log(`ℹ️  ${simulation.note}`);
+  }
+
+  if (expectedChanges.length > 0) {
+    console.log(simulation.willSucceed ? "\n📋 Expected changes:" : "\n📋 Changes if it went through:");
+    for (const change of expectedChanges) {
+      console.log(`   ${change.label}: ${change.before} → ${change.after}`);
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { MAX_SUPPLY_LIMIT } from "./create-token";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * A token type and its lifecycle state.
+ */
+export interface CatalogToken {
+  tokenId: number;
+  name: string;
+  description: string;
+  currentSupply: bigint;
+  maxSupply: bigint;
+  /** False once the token type is retired; existing tokens still move */
+  isActive: boolean;
+  /** True when the max supply can never change again */
+  supplyFrozen: boolean;
+}
+
+/**
+ * The result of a lifecycle change.
+ */
+export interface TokenLifecycleResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  /** True when the token was already in the requested state */
+  unchanged?: boolean;
+}
+
+/**
+ * Get every created token type with its lifecycle state.
+ *
+ * @param nftContract The NFT contract
+ * @param maxTokenIds Highest token ID to check (default: 20)
+ * @returns The token types, retired ones included
+ */
+export async function getTokenCatalog(nftContract: SecretOfTheDeepNFT, maxTokenIds: number = 20): Promise<CatalogToken[]> {
+  const tokens: CatalogToken[] = [];
+
+  for (let tokenId = 1; tokenId <= maxTokenIds; tokenId++) {
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      continue;
+    }
+
+    tokens.push({
+      tokenId,
+      name: tokenInfo.name,
+      description: tokenInfo.description,
+      currentSupply: tokenInfo.currentSupply,
+      maxSupply: tokenInfo.maxSupply,
+      isActive: tokenInfo.isActive,
+      supplyFrozen: tokenInfo.supplyFrozen
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Retire a token type so no more tokens can be minted, or reactivate it.
+ *
+ * @param nftContract - The NFT contract.
+ * @param tokenId - The token ID.
+ * @param active - False to retire the token type, true to reactivate it.
+ * @param signer - The signer to use for the transaction (must be an admin).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setTokenActive(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: number,
+  active: boolean,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<TokenLifecycleResult> {
+  try {
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      return {
+        success: false,
+        error: `Token ID ${tokenId} does not exist`
+      };
+    }
+    if (tokenInfo.isActive === active) {
+      return {
+        success: true,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const adminSigner = signer || defaultSigner;
+
+    const method = active ? "reactivateToken" : "deactivateToken";
+
+    if (options.dryRun) {
+      const state = (isActive: boolean) => isActive ? "active" : "retired";
+      return dryRunCall(nftContract, method, [tokenId], adminSigner.address, [
+        { label: `${tokenInfo.name} status`, before: state(tokenInfo.isActive), after: state(active) }
+      ]);
+    }
+
+    // Check that we hold the admin role
+    const roleError = await checkRole(nftContract, "admin", adminSigner.address, active ? "reactivate tokens" : "retire tokens");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = active
+      ? await nftContract.connect(adminSigner).reactivateToken(tokenId)
+      : await nftContract.connect(adminSigner).deactivateToken(tokenId);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Raise or lower the max supply of a token type.
+ *
+ * @param nftContract - The NFT contract.
+ * @param tokenId - The token ID.
+ * @param maxSupply - The new max supply, at least the current supply.
+ * @param signer - The signer to use for the transaction (must be an admin).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setMaxSupply(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: number,
+  maxSupply: bigint,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<TokenLifecycleResult> {
+  try {
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      return {
+        success: false,
+        error: `Token ID ${tokenId} does not exist`
+      };
+    }
+    if (tokenInfo.supplyFrozen) {
+      return {
+        success: false,
+        error: `The max supply of ${tokenInfo.name} is frozen at ${tokenInfo.maxSupply}`
+      };
+    }
+    if (maxSupply <= BigInt(0)) {
+      return {
+        success: false,
+        error: "Max supply must be greater than 0"
+      };
+    }
+    if (maxSupply > MAX_SUPPLY_LIMIT) {
+      return {
+        success: false,
+        error: `Max supply cannot exceed ${MAX_SUPPLY_LIMIT}`
+      };
+    }
+    if (maxSupply < tokenInfo.currentSupply) {
+      return {
+        success: false,
+        error: `Max supply cannot be below the ${tokenInfo.currentSupply} ${tokenInfo.name} tokens already minted`
+      };
+    }
+    if (maxSupply === tokenInfo.maxSupply) {
+      return {
+        success: true,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const adminSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      return dryRunCall(nftContract, "setMaxSupply", [tokenId, maxSupply], adminSigner.address, [
+        { label: `${tokenInfo.name} max supply`, before: tokenInfo.maxSupply.toString(), after: maxSupply.toString() }
+      ]);
+    }
+
+    // Check that we hold the admin role
+    const roleError = await checkRole(nftContract, "admin", adminSigner.address, "change max supply");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(adminSigner).setMaxSupply(tokenId, maxSupply);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Lock the max supply of a token type for good. This cannot be undone.
+ *
+ * @param nftContract - The NFT contract.
+ * @param tokenId - The token ID.
+ * @param signer - The signer to use for the transaction (must be an admin).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function freezeSupply(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: number,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<TokenLifecycleResult> {
+  try {
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      return {
+        success: false,
+        error: `Token ID ${tokenId} does not exist`
+      };
+    }
+    if (tokenInfo.supplyFrozen) {
+      return {
+        success: true,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const adminSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      return dryRunCall(nftContract, "freezeSupply", [tokenId], adminSigner.address, [
+        { label: `${tokenInfo.name} max supply`, before: `${tokenInfo.maxSupply} (adjustable)`, after: `${tokenInfo.maxSupply} (frozen)` }
+      ]);
+    }
+
+    // Check that we hold the admin role
+    const roleError = await checkRole(nftContract, "admin", adminSigner.address, "freeze supply");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(adminSigner).freezeSupply(tokenId);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Print every token type with its supply and lifecycle state.
+ *
+ * @param tokens Tokens returned by getTokenCatalog
+ */
+export function printTokenCatalog(tokens: CatalogToken[]): void {
+  console.log("🗂️  Token Catalog");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  if (tokens.length === 0) {
+    console.log("No tokens found");
+    return;
+  }
+
+  for (const token of tokens) {
+    const status = token.isActive ? "✅ active" : "🗄️  retired";
+    const supply = token.supplyFrozen ? "🧊 frozen" : "adjustable";
+    console.log(`   Token ${token.tokenId} (${token.name}): ${status}, ${token.currentSupply}/${token.maxSupply} minted, max supply ${supply}`);
+  }
+}
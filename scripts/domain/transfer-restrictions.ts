@@ -0,0 +1,506 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { readIndexedEvents, syncContractEvents } from "./event-indexer";
+import { checkRole } from "./roles";
+import { dryRunCall, simulateCall, type DryRunFields, type DryRunOptions, type SimulationResult } from "./simulation";
+import { getTokenCatalog } from "./token-catalog";
+import { formatAddress, loadAddressBook, resolveAddress } from "../utils/address-book";
+
+/**
+ * Accounts sent per `setAllowlisted` transaction when importing.
+ */
+export const DEFAULT_ALLOWLIST_BATCH_SIZE = 100;
+
+/**
+ * One account of an allowlist CSV.
+ */
+export interface AllowlistRow {
+  /** Line number in the CSV file */
+  line: number;
+  /** Checksummed address */
+  address: string;
+}
+
+/**
+ * A problem with one line of an allowlist CSV.
+ */
+export interface AllowlistCsvError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Transfer restrictions of the contract.
+ */
+export interface TransferRestrictionState {
+  tokens: { tokenId: number; name: string; restricted: boolean }[];
+  /** Allowlisted accounts in the order they were added */
+  allowlist: string[];
+  /** Frozen accounts in the order they were frozen */
+  frozen: string[];
+}
+
+/**
+ * The result of changing a restriction, the allowlist or a freeze.
+ */
+export interface TransferRestrictionResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  /** True when nothing needed to change */
+  unchanged?: boolean;
+}
+
+/**
+ * The result of importing accounts into the allowlist.
+ */
+export interface AllowlistImportResult extends DryRunFields {
+  success: boolean;
+  error?: string;
+  /** Accounts sent to the contract */
+  changed: string[];
+  /** Accounts that were already in the requested state */
+  skipped: string[];
+  transactionHashes: string[];
+}
+
+/**
+ * Whether a transfer would pass the contract's checks, and why not.
+ */
+export interface TransferCheck {
+  allowed: boolean;
+  /** Every check the transfer fails, empty when allowed */
+  reasons: string[];
+  simulation: SimulationResult;
+}
+
+/**
+ * Parse a CSV with one account per line in the first column.
+ *
+ * A header row, blank lines and lines starting with # are skipped. Further
+ * columns, such as the investor's name, are ignored. The address column also
+ * accepts address book names.
+ *
+ * @param content The CSV content
+ * @returns Parsed rows, without duplicates, and per-line errors
+ */
+export function parseAllowlistCsv(content: string): { rows: AllowlistRow[]; errors: AllowlistCsvError[] } {
+  const rows: AllowlistRow[] = [];
+  const errors: AllowlistCsvError[] = [];
+  const seen = new Set<string>();
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const text = rawLine.trim();
+
+    if (text === "" || text.startsWith("#")) return;
+    if (index === 0 && /^address\s*(,|$)/i.test(text)) return;
+
+    const addressInput = text.split(",")[0].trim();
+
+    let address: string;
+    try {
+      address = resolveAddress(addressInput);
+    } catch (error) {
+      errors.push({ line, message: error instanceof Error ? error.message : `Invalid address "${addressInput}"` });
+      return;
+    }
+
+    if (address === ethers.ZeroAddress) {
+      errors.push({ line, message: "Cannot allowlist the zero address" });
+      return;
+    }
+    if (seen.has(address)) {
+      return;
+    }
+
+    seen.add(address);
+    rows.push({ line, address });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Get the restricted token types, the allowlist and the frozen accounts.
+ *
+ * Accounts come from the AllowlistUpdated and AccountFrozen events in the
+ * local event index; the restriction of each token is read from the contract.
+ *
+ * @param nftContract The NFT contract
+ * @returns The transfer restriction state
+ */
+export async function getTransferRestrictions(nftContract: SecretOfTheDeepNFT): Promise<TransferRestrictionState> {
+  const syncResult = await syncContractEvents(nftContract);
+  if (!syncResult.success || !syncResult.state) {
+    throw new Error(`Event index sync failed: ${syncResult.error}`);
+  }
+
+  const allowlist = new Set<string>();
+  const frozen = new Set<string>();
+  const events = readIndexedEvents(
+    syncResult.state.chainId,
+    await nftContract.getAddress(),
+    ["AllowlistUpdated", "AccountFrozen"]
+  );
+
+  for (const event of events) {
+    const args = event.args as Record<string, string | boolean>;
+    const account = ethers.getAddress(args.account as string);
+    const accounts = event.eventName === "AllowlistUpdated" ? allowlist : frozen;
+    const enabled = event.eventName === "AllowlistUpdated" ? args.allowed : args.frozen;
+
+    if (enabled) {
+      accounts.add(account);
+    } else {
+      accounts.delete(account);
+    }
+  }
+
+  const tokens = [];
+  for (const token of await getTokenCatalog(nftContract)) {
+    tokens.push({
+      tokenId: token.tokenId,
+      name: token.name,
+      restricted: await nftContract.transferRestricted(token.tokenId)
+    });
+  }
+
+  return {
+    tokens,
+    allowlist: Array.from(allowlist),
+    frozen: Array.from(frozen)
+  };
+}
+
+/**
+ * Only allow transfers of a token type between allowlisted accounts, or lift
+ * that restriction.
+ *
+ * @param nftContract - The NFT contract.
+ * @param tokenId - The token ID.
+ * @param restricted - True to restrict transfers to the allowlist.
+ * @param signer - The signer to use for the transaction (must be a compliance officer).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setTransferRestricted(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: number,
+  restricted: boolean,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<TransferRestrictionResult> {
+  try {
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      return {
+        success: false,
+        error: `Token ID ${tokenId} does not exist`
+      };
+    }
+    if (await nftContract.transferRestricted(tokenId) === restricted) {
+      return {
+        success: true,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const complianceSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const mode = (isRestricted: boolean) => isRestricted ? "allowlisted investors only" : "anyone";
+      return dryRunCall(nftContract, "setTransferRestricted", [tokenId, restricted], complianceSigner.address, [
+        { label: `${tokenInfo.name} transfers`, before: mode(!restricted), after: mode(restricted) }
+      ]);
+    }
+
+    // Check that we hold the compliance role
+    const roleError = await checkRole(nftContract, "compliance", complianceSigner.address, "restrict transfers");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(complianceSigner).setTransferRestricted(tokenId, restricted);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Add accounts to the allowlist, or remove them, in batches of `setAllowlisted`
+ * calls. Accounts already in the requested state are skipped.
+ *
+ * @param nftContract - The NFT contract.
+ * @param accounts - The accounts to update.
+ * @param allowed - True to add the accounts, false to remove them.
+ * @param signer - The signer to use for the transactions (must be a compliance officer).
+ * @param options - Accounts per transaction, and `dryRun` to simulate without sending.
+ * @returns The result of the import.
+ */
+export async function importAllowlist(
+  nftContract: SecretOfTheDeepNFT,
+  accounts: string[],
+  allowed: boolean,
+  signer?: any,
+  options: DryRunOptions & { batchSize?: number } = {}
+): Promise<AllowlistImportResult> {
+  const { batchSize = DEFAULT_ALLOWLIST_BATCH_SIZE } = options;
+  const changed: string[] = [];
+  const skipped: string[] = [];
+  const transactionHashes: string[] = [];
+
+  try {
+    for (const account of accounts) {
+      if (await nftContract.allowlisted(account) === allowed) {
+        skipped.push(account);
+      } else {
+        changed.push(account);
+      }
+    }
+
+    const batches = [];
+    for (let i = 0; i < changed.length; i += batchSize) {
+      batches.push(changed.slice(i, i + batchSize));
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const complianceSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const result = await dryRunCall(nftContract, "setAllowlisted", [batches[0] ?? [], allowed], complianceSigner.address, [
+        {
+          label: allowed ? "Accounts to allowlist" : "Accounts to remove from the allowlist",
+          before: `${skipped.length} already ${allowed ? "allowlisted" : "removed"}`,
+          after: `${changed.length} in ${batches.length} transaction(s)`
+        }
+      ]);
+      return { ...result, changed, skipped, transactionHashes };
+    }
+
+    // Check that we hold the compliance role
+    const roleError = await checkRole(nftContract, "compliance", complianceSigner.address, "change the allowlist");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError,
+        changed: [],
+        skipped,
+        transactionHashes
+      };
+    }
+
+    for (const batch of batches) {
+      const tx = await nftContract.connect(complianceSigner).setAllowlisted(batch, allowed);
+      await tx.wait();
+      transactionHashes.push(tx.hash);
+    }
+
+    return {
+      success: true,
+      changed,
+      skipped,
+      transactionHashes
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      changed: changed.slice(0, transactionHashes.length * batchSize),
+      skipped,
+      transactionHashes
+    };
+  }
+}
+
+/**
+ * Freeze an account so it can neither send nor receive tokens, or unfreeze it.
+ *
+ * @param nftContract - The NFT contract.
+ * @param account - The account to update.
+ * @param frozen - True to freeze the account.
+ * @param signer - The signer to use for the transaction (must be a compliance officer).
+ * @param options - Set `dryRun` to simulate without sending.
+ * @returns The result of the change.
+ */
+export async function setAccountFrozen(
+  nftContract: SecretOfTheDeepNFT,
+  account: string,
+  frozen: boolean,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<TransferRestrictionResult> {
+  try {
+    if (!ethers.isAddress(account)) {
+      return {
+        success: false,
+        error: "Invalid account address format"
+      };
+    }
+    if (await nftContract.frozenAccounts(account) === frozen) {
+      return {
+        success: true,
+        unchanged: true
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const complianceSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      const state = (isFrozen: boolean) => isFrozen ? "frozen" : "can transfer";
+      return dryRunCall(nftContract, "setAccountFrozen", [account, frozen], complianceSigner.address, [
+        { label: formatAddress(account), before: state(!frozen), after: state(frozen) }
+      ]);
+    }
+
+    // Check that we hold the compliance role
+    const roleError = await checkRole(nftContract, "compliance", complianceSigner.address, "freeze accounts");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const tx = await nftContract.connect(complianceSigner).setAccountFrozen(account, frozen);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * Check whether a transfer would go through, without sending it.
+ *
+ * Lists every freeze, allowlist, pause and balance check the transfer fails,
+ * and simulates `safeTransferFrom` as the sender to confirm.
+ *
+ * @param nftContract The NFT contract
+ * @param from The sender
+ * @param to The recipient
+ * @param tokenId The token ID
+ * @param amount The amount to transfer
+ * @returns Whether the transfer is allowed and why not
+ */
+export async function checkTransfer(
+  nftContract: SecretOfTheDeepNFT,
+  from: string,
+  to: string,
+  tokenId: number,
+  amount: bigint
+): Promise<TransferCheck> {
+  const addressBook = loadAddressBook();
+  const name = (address: string) => formatAddress(address, addressBook);
+  const reasons: string[] = [];
+
+  if (await nftContract.paused()) {
+    reasons.push("The contract is paused");
+  }
+  if (await nftContract.frozenAccounts(from)) {
+    reasons.push(`${name(from)} is frozen`);
+  }
+  if (await nftContract.frozenAccounts(to)) {
+    reasons.push(`${name(to)} is frozen`);
+  }
+
+  if (await nftContract.transferRestricted(tokenId)) {
+    if (!(await nftContract.allowlisted(from))) {
+      reasons.push(`Token ${tokenId} is restricted and ${name(from)} is not allowlisted`);
+    }
+    if (!(await nftContract.allowlisted(to))) {
+      reasons.push(`Token ${tokenId} is restricted and ${name(to)} is not allowlisted`);
+    }
+  }
+
+  const balance = await nftContract.balanceOf(from, tokenId);
+  if (balance < amount) {
+    reasons.push(`${name(from)} holds ${balance} of token ${tokenId}, ${amount} needed`);
+  }
+
+  const simulation = await simulateCall(nftContract, "safeTransferFrom", [from, to, tokenId, amount, "0x"], from);
+  if (!simulation.willSucceed && reasons.length === 0) {
+    reasons.push(`Transfer would revert: ${simulation.revertReason}`);
+  }
+
+  return {
+    allowed: simulation.willSucceed,
+    reasons,
+    simulation
+  };
+}
+
+/**
+ * Print the restricted token types, the allowlist and the frozen accounts.
+ *
+ * @param state State returned by getTransferRestrictions
+ * @param formatAddress Formats addresses, e.g. with address book names
+ */
+export function printTransferRestrictions(
+  state: TransferRestrictionState,
+  formatAddress: (address: string) => string = address => address
+): void {
+  console.log("🛂 Transfer Restrictions");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  for (const token of state.tokens) {
+    console.log(`   Token ${token.tokenId} (${token.name}): ${token.restricted ? "🔒 allowlisted investors only" : "🔓 unrestricted"}`);
+  }
+
+  console.log(`\nAllowlist (${state.allowlist.length}):`);
+  if (state.allowlist.length === 0) {
+    console.log("   (nobody)");
+  }
+  state.allowlist.forEach(account => console.log(`   ${formatAddress(account)}`));
+
+  console.log(`\nFrozen accounts (${state.frozen.length}):`);
+  if (state.frozen.length === 0) {
+    console.log("   (none)");
+  }
+  state.frozen.forEach(account => console.log(`   🧊 ${formatAddress(account)}`));
+}
+
+/**
+ * Print the outcome of a transfer check.
+ *
+ * @param check Check returned by checkTransfer
+ */
+export function printTransferCheck(check: TransferCheck): void {
+  if (check.allowed) {
+    console.log("✅ The transfer would go through");
+    return;
+  }
+
+  console.log("❌ The transfer would be rejected:");
+  check.reasons.forEach(reason => console.log(`   ${reason}`));
+}
@@ -1,10 +1,13 @@
 import { ethers } from "hardhat";
 import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { getTokenCatalog } from "./token-catalog";
+import { dryRunCall, type DryRunFields, type StateChange } from "./simulation";
 
 /**
  * Result of updating token metadata
  */
-export interface UpdateMetadataResult {
+export interface UpdateMetadataResult extends DryRunFields {
   success: boolean;
   transactionHash?: string;
   error?: string;
@@ -25,6 +28,31 @@ export interface UpdateMetadataOptions {
   testTokenCount?: number;
   /** Whether to validate URI format (default: true) */
   validateUri?: boolean;
+  /** Simulate the update instead of sending it (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of setting or clearing a token URI override
+ */
+export interface TokenUriResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+  tokenId?: number;
+  /** The token's URI before the change */
+  oldUri?: string;
+  /** The token's URI after the change */
+  newUri?: string;
+}
+
+/**
+ * A token whose URI overrides the base URI template
+ */
+export interface TokenUriOverride {
+  tokenId: number;
+  name: string;
+  uri: string;
 }
 
 /**
@@ -82,7 +110,8 @@ export async function updateTokenMetadata(
       newBaseURI,
       testUris: shouldTestUris = true,
       testTokenCount = 3,
-      validateUri = true
+      validateUri = true,
+      dryRun = false
     } = options;
 
     // Validate inputs
@@ -104,34 +133,49 @@ export async function updateTokenMetadata(
     const [defaultSigner] = await ethers.getSigners();
     const updateSigner = signer || defaultSigner;
 
-    // Check if we're the contract owner
-    const contractOwner = await nftContract.owner();
-    if (contractOwner !== updateSigner.address) {
+    if (dryRun) {
+      // Preview the first created token; with none there is no URI to show
+      const [firstToken] = await getTokenCatalog(nftContract);
+      const changes: StateChange[] = [];
+      if (firstToken) {
+        const { tokenId } = firstToken;
+        const before = await nftContract.uri(tokenId);
+        // On-chain metadata and per-token overrides take precedence over the base URI
+        const unaffected = await nftContract.onChainMetadata()
+          || await nftContract.tokenOnChainMetadata(tokenId)
+          || await nftContract.tokenURIOverride(tokenId) !== "";
+        // The contract replaces {id} with the token ID as 64 hex characters
+        const after = unaffected ? before : newBaseURI.replace(/\{id\}/g, tokenId.toString(16).padStart(64, "0"));
+        changes.push({ label: `Token ${tokenId} URI`, before, after });
+      }
+
+      return {
+        ...await dryRunCall(nftContract, "setBaseURI", [newBaseURI], updateSigner.address, changes),
+        newBaseURI
+      };
+    }
+
+    // Check that we hold the metadata manager role
+    const roleError = await checkRole(nftContract, "metadata", updateSigner.address, "update metadata URI");
+    if (roleError) {
       return {
         success: false,
-        error: "You are not the contract owner. Only the owner can update metadata URI."
+        error: roleError
       };
     }
 
     // Get current base URI for comparison
-    let oldBaseURI: string | undefined;
-    try {
-      // Test current URI for token 1 to get current base URI
-      const currentUri = await nftContract.uri(1);
-      oldBaseURI = currentUri.replace("1", "{id}"); // Simple replacement for comparison
-    } catch (error) {
-      // Current URI might not be accessible, continue anyway
-    }
+    const oldBaseURI = await nftContract.baseURITemplate();
 
     // Update the base URI
-    const updateTx = await nftContract.setBaseURI(newBaseURI);
+    const updateTx = await nftContract.connect(updateSigner).setBaseURI(newBaseURI);
     const receipt = await updateTx.wait();
 
     // Test new URIs if requested
-    let testUris: string[] = [];
+    let testedUris: string[] = [];
     if (shouldTestUris) {
       const tokenIds = Array.from({ length: testTokenCount }, (_, i) => i + 1);
-      testUris = await testUris(nftContract, tokenIds);
+      testedUris = await testUris(nftContract, tokenIds);
     }
 
     return {
@@ -139,7 +183,7 @@ export async function updateTokenMetadata(
       transactionHash: updateTx.hash,
       oldBaseURI,
       newBaseURI,
-      testUris
+      testUris: testedUris
     };
 
   } catch (error) {
@@ -188,6 +232,128 @@ export async function updateBaseURIAndTest(
   }, signer);
 }
 
+/**
+ * Set the URI of a single token, used instead of the base URI template,
+ * or clear it so the template applies again
+ * 
+ * @param nftContract The NFT contract instance
+ * @param tokenId The token ID
+ * @param tokenUri The full metadata URI, or undefined to clear the override
+ * @param signer The signer to use for the transaction
+ * @param options Set `validateUri` (default: true) and `dryRun`
+ * @returns TokenUriResult with the URI before and after
+ */
+export async function setTokenUri(
+  nftContract: SecretOfTheDeepNFT,
+  tokenId: number,
+  tokenUri: string | undefined,
+  signer?: any,
+  options: { validateUri?: boolean; dryRun?: boolean } = {}
+): Promise<TokenUriResult> {
+  try {
+    const { validateUri = true, dryRun = false } = options;
+
+    // Validate inputs
+    if (tokenUri !== undefined && tokenUri.trim() === "") {
+      return {
+        success: false,
+        error: "Token URI cannot be empty, clear the override instead"
+      };
+    }
+
+    if (tokenUri !== undefined && validateUri && !validateUriFormat(tokenUri)) {
+      return {
+        success: false,
+        error: "Invalid URI format"
+      };
+    }
+
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      return {
+        success: false,
+        error: `Token ID ${tokenId} does not exist`
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const updateSigner = signer || defaultSigner;
+
+    // On-chain metadata takes precedence over the override
+    const oldUri = await nftContract.uri(tokenId);
+    const onChain = await nftContract.onChainMetadata() || await nftContract.tokenOnChainMetadata(tokenId);
+    const expectedUri = onChain
+      ? oldUri
+      : tokenUri ?? (await nftContract.baseURITemplate()).replace(/\{id\}/g, tokenId.toString(16).padStart(64, "0"));
+
+    if (dryRun) {
+      return {
+        ...await dryRunCall(nftContract, "setTokenURI", [tokenId, tokenUri ?? ""], updateSigner.address, [
+          { label: `Token ${tokenId} URI`, before: oldUri, after: expectedUri }
+        ]),
+        tokenId,
+        oldUri,
+        newUri: expectedUri
+      };
+    }
+
+    // Check that we hold the metadata manager role
+    const roleError = await checkRole(nftContract, "metadata", updateSigner.address, "update metadata URI");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    const updateTx = await nftContract.connect(updateSigner).setTokenURI(tokenId, tokenUri ?? "");
+    await updateTx.wait();
+
+    return {
+      success: true,
+      transactionHash: updateTx.hash,
+      tokenId,
+      oldUri,
+      newUri: await nftContract.uri(tokenId)
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
+
+/**
+ * List the tokens whose URI overrides the base URI template
+ * 
+ * @param nftContract The NFT contract instance
+ * @param maxTokenIds Maximum number of token IDs to check
+ * @returns The tokens with an override
+ */
+export async function getTokenUriOverrides(
+  nftContract: SecretOfTheDeepNFT,
+  maxTokenIds: number = 20
+): Promise<TokenUriOverride[]> {
+  const overrides: TokenUriOverride[] = [];
+
+  for (let tokenId = 1; tokenId <= maxTokenIds; tokenId++) {
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      break;
+    }
+
+    const uri = await nftContract.tokenURIOverride(tokenId);
+    if (uri !== "") {
+      overrides.push({ tokenId, name: tokenInfo.name, uri });
+    }
+  }
+
+  return overrides;
+}
+
 /**
  * Validate if a URI template is properly formatted
  * 
@@ -222,7 +388,7 @@ export function validateUriTemplate(uriTemplate: string): {
   }
 
   // Check for HTTPS
-  if (!uriTemplate.startsWith("https://")) {
+  if (!uriTemplate.startsWith("https://") && !uriTemplate.startsWith("ipfs://")) {
     suggestions.push("Consider using HTTPS for security");
   }
 
@@ -241,9 +407,7 @@ export function validateUriTemplate(uriTemplate: string): {
  */
 export async function getCurrentBaseURI(nftContract: SecretOfTheDeepNFT): Promise<string> {
   try {
-    const uri = await nftContract.uri(1);
-    // Try to extract base URI by replacing token ID
-    return uri.replace("1", "{id}");
+    return await nftContract.baseURITemplate();
   } catch (error) {
     throw new Error(`Failed to get current base URI: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
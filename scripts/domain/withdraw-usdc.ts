@@ -0,0 +1,97 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { checkRole } from "./roles";
+import { dryRunCall, type DryRunFields, type DryRunOptions } from "./simulation";
+
+/**
+ * The result of withdrawing USDC from the contract.
+ */
+export interface WithdrawUSDCResult extends DryRunFields {
+  success: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  newWalletBalance?: bigint;
+  newContractBalance?: bigint;
+}
+
+/**
+ * Withdraw USDC from the contract to the treasurer's wallet.
+ *
+ * @param nftContract - The NFT contract.
+ * @param amount - The USDC amount to withdraw (with 6 decimals).
+ * @param signer - The signer to use for the transaction.
+ * @param options - Set `dryRun` to simulate the withdrawal instead of sending it.
+ * @returns The result of the withdrawal.
+ */
+export async function withdrawUSDC(
+  nftContract: SecretOfTheDeepNFT,
+  amount: bigint,
+  signer?: any,
+  options: DryRunOptions = {}
+): Promise<WithdrawUSDCResult> {
+  try {
+    if (amount <= BigInt(0)) {
+      return {
+        success: false,
+        error: "Amount must be greater than 0"
+      };
+    }
+
+    // Get signer if not provided
+    const [defaultSigner] = await ethers.getSigners();
+    const withdrawSigner = signer || defaultSigner;
+
+    if (options.dryRun) {
+      // withdrawUSDC pays the treasurer who sends it
+      const contractBalance = await nftContract.getUSDCBalance();
+      const usdcContract = await ethers.getContractAt("IERC20", await nftContract.usdcAddress());
+      const treasurerUsdc = await usdcContract.balanceOf(withdrawSigner.address);
+
+      return dryRunCall(nftContract, "withdrawUSDC", [amount], withdrawSigner.address, [
+        { label: "Contract USDC", before: ethers.formatUnits(contractBalance, 6), after: ethers.formatUnits(contractBalance - amount, 6) },
+        { label: "Treasurer USDC", before: ethers.formatUnits(treasurerUsdc, 6), after: ethers.formatUnits(treasurerUsdc + amount, 6) }
+      ]);
+    }
+
+    // Check that we hold the treasurer role
+    const roleError = await checkRole(nftContract, "treasurer", withdrawSigner.address, "withdraw USDC");
+    if (roleError) {
+      return {
+        success: false,
+        error: roleError
+      };
+    }
+
+    // Check contract USDC balance
+    const contractBalance = await nftContract.getUSDCBalance();
+    if (amount > contractBalance) {
+      return {
+        success: false,
+        error: `Amount (${ethers.formatUnits(amount, 6)} USDC) exceeds contract balance (${ethers.formatUnits(contractBalance, 6)} USDC)`
+      };
+    }
+
+    // Withdraw USDC from contract
+    const tx = await nftContract.connect(withdrawSigner).withdrawUSDC(amount);
+    const receipt = await tx.wait();
+
+    const usdcContract = await ethers.getContractAt("IERC20", await nftContract.usdcAddress());
+    const newWalletBalance = await usdcContract.balanceOf(withdrawSigner.address);
+    const newContractBalance = await nftContract.getUSDCBalance();
+
+    return {
+      success: true,
+      transactionHash: tx.hash,
+      blockNumber: receipt?.blockNumber,
+      newWalletBalance,
+      newContractBalance
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import { ethers } from "hardhat";
 import { getCurrentContract } from "./utils/get-current-contract";
-import { getTokenEvents, getTokenEventsSummary, type TokenTransferEvent } from "./domain/get-token-events";
+import { getTokenEventsSummary } from "./domain/get-token-events";
+import { describeContractEvent, getContractEvents } from "./domain/contract-events";
+import { loadAddressBook } from "./utils/address-book";
 
 async function main() {
     const currentContract = await getCurrentContract();
@@ -9,52 +11,38 @@ async function main() {
     console.log(`Contract: ${currentContract.contractAddress}`);
     console.log(`Network: ${currentContract.network}`);
 
-    // Get deployment block (approximately)
-    const deployedAt = new Date(currentContract.deployedAt);
     const currentBlock = await ethers.provider.getBlockNumber();
-    
-    // Estimate block number from deployment timestamp
-    // Polygon has ~2 second block time
-    const avgBlockTime = 2; // seconds
-    const blocksAgo = Math.floor((Date.now() - deployedAt.getTime()) / 1000 / avgBlockTime);
-    const estimatedDeployBlock = Math.max(0, currentBlock - blocksAgo);
-    
-    console.log(`📅 Estimated deploy block: ${estimatedDeployBlock}`);
+    console.log(`📅 Deploy block: ${currentContract.deploymentBlock ?? "unknown"}`);
     console.log(`📅 Current block: ${currentBlock}`);
     
     try {
         // Get all events using domain function
-        const eventsResult = await getTokenEvents(currentContract.contractAddress, estimatedDeployBlock);
+        const eventsResult = await getContractEvents(currentContract.contractAddress);
         
         if (!eventsResult.success) {
             console.error("❌ Failed to get events:", eventsResult.error);
             return;
         }
         
-        const { totalEvents, singleTransfers, batchTransfers, events } = eventsResult.data!;
+        const { totalEvents, countsByKind, events } = eventsResult.data!;
         
         console.log(`\n🎉 Total events found: ${totalEvents}`);
-        console.log(`  📤 Single transfers: ${singleTransfers}`);
-        console.log(`  📦 Batch transfers: ${batchTransfers}`);
+        for (const [kind, count] of Object.entries(countsByKind)) {
+            console.log(`  ${kind}: ${count}`);
+        }
         
-        // Show all events
+        // Show all events as one timeline
         if (events.length > 0) {
-            console.log(`\n📋 All events (${events.length} total):`);
+            console.log(`\n📋 Timeline (${events.length} events):`);
+            const addressBook = loadAddressBook();
             
             for (const event of events) {
-                if (event.eventType === 'single') {
-                    console.log(`  📤 Block ${event.blockNumber} | ${event.dateTime}: ${event.from} → ${event.to} (Token ${event.tokenId}: ${event.amount})`);
-                } else if (event.eventType === 'batch') {
-                    const tokenDetails = event.tokenIds?.map((id, index) => 
-                        `Token ${id}: ${event.amounts?.[index]}`
-                    ).join(', ');
-                    console.log(`  📦 Block ${event.blockNumber} | ${event.dateTime}: ${event.from} → ${event.to} (${tokenDetails})`);
-                }
+                console.log(`  Block ${event.blockNumber} | ${event.dateTime}: ${describeContractEvent(event, addressBook)}`);
             }
         }
         
-        // Get and display summary
-        const summaryResult = await getTokenEventsSummary(currentContract.contractAddress, estimatedDeployBlock);
+        // Get and display transfer summary
+        const summaryResult = await getTokenEventsSummary(currentContract.contractAddress);
         if (summaryResult.success && summaryResult.data) {
             console.log(`\n📊 Summary Statistics:`);
             console.log(`  👥 Unique addresses: ${summaryResult.data.uniqueAddresses}`);
@@ -0,0 +1,55 @@
+import { ethers } from "hardhat";
+import * as path from "path";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { getHolderSnapshot, printHolderSnapshot, writeSnapshot } from "./domain/holder-snapshot";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+
+async function main() {
+  console.log("📸 Holder Snapshot\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  const blockInput = await getUserInput("Enter record date block (press Enter for latest): ");
+  const blockNumber = blockInput ? parseInt(blockInput) : undefined;
+  if (blockNumber !== undefined && isNaN(blockNumber)) {
+    throw new Error("Invalid block number");
+  }
+
+  const fromBlockInput = await getUserInput("Enter block to scan events from (press Enter for the deployment block): ");
+  const fromBlock = fromBlockInput ? parseInt(fromBlockInput) : undefined;
+
+  console.log("\n🔍 Replaying transfer events...");
+  const result = await getHolderSnapshot(nftContract, { blockNumber, fromBlock });
+
+  if (!result.success || !result.data) {
+    console.error(`❌ Failed to take snapshot: ${result.error}`);
+    return;
+  }
+
+  const snapshot = result.data;
+  console.log("");
+  printHolderSnapshot(snapshot);
+
+  const defaultOutput = path.join("snapshots", `snapshot-${snapshot.blockNumber}.json`);
+  const outputInput = await getUserInput(`\nOutput file (.json or .csv, default: ${defaultOutput}): `);
+  const outputPath = outputInput || defaultOutput;
+
+  writeSnapshot(snapshot, outputPath);
+  console.log(`📝 Snapshot saved to: ${outputPath}`);
+
+  if (snapshot.supplyChecks.some(check => !check.matches)) {
+    console.log("\n⚠️  Replayed totals do not match the on-chain supply. Scan events from an earlier block.");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,72 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation } from "./utils/prompts";
+import { formatAddress, resolveAddress } from "./utils/address-book";
+import { getRoleMembers, grantRole, parseRoleName, revokeRole, ROLE_LABELS, ROLE_NAMES } from "./domain/roles";
+
+async function main() {
+  console.log("🔑 Manage Roles\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // Get signer
+  const [signer] = await ethers.getSigners();
+  console.log(`👤 Signer: ${signer.address}\n`);
+
+  const members = await getRoleMembers(nftContract);
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  for (const role of ROLE_NAMES) {
+    const accounts = members[role].map(account => formatAddress(account));
+    console.log(`${ROLE_LABELS[role]}: ${accounts.length > 0 ? accounts.join(", ") : "(nobody)"}`);
+  }
+
+  console.log("\n🎯 Actions");
+  console.log("   1: Grant a role");
+  console.log("   2: Revoke a role");
+  const action = await getUserInput("Select action (1-2, Enter to exit): ");
+  if (action !== "1" && action !== "2") {
+    return;
+  }
+
+  const role = parseRoleName(await getUserInput(`Enter role (${ROLE_NAMES.join(", ")}): `));
+  const account = resolveAddress(await getUserInput("Enter account address or address book name: "));
+  const grant = action === "1";
+
+  const prompt = grant
+    ? `Grant the ${ROLE_LABELS[role]} role to ${formatAddress(account)}?`
+    : `Revoke the ${ROLE_LABELS[role]} role from ${formatAddress(account)}?`;
+  if (!(await askConfirmation(prompt))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  const result = grant
+    ? await grantRole(nftContract, role, account, signer)
+    : await revokeRole(nftContract, role, account, signer);
+
+  if (!result.success) {
+    console.error(`❌ Role change failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  if (result.unchanged) {
+    console.log(`ℹ️  Nothing to do, ${formatAddress(account)} ${grant ? "already has" : "does not have"} the role`);
+    return;
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Role updated in block ${result.blockNumber}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,45 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { askConfirmation } from "./utils/prompts";
+import { printPauseState, setPaused } from "./domain/pause";
+
+async function main() {
+  console.log("🚨 Emergency Pause\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // Get signer
+  const [signer] = await ethers.getSigners();
+  console.log(`👤 Signer: ${signer.address}\n`);
+
+  const paused = await nftContract.paused();
+  printPauseState(paused);
+
+  const prompt = paused ? "\nUnpause the contract and resume normal operation?" : "\nPause the contract now?";
+  if (!(await askConfirmation(prompt))) {
+    console.log("❌ Nothing changed");
+    return;
+  }
+
+  const result = await setPaused(nftContract, !paused, signer);
+
+  if (!result.success) {
+    console.error(`❌ ${paused ? "Unpausing" : "Pausing"} failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Contract ${result.paused ? "paused" : "unpaused"} in block ${result.blockNumber}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
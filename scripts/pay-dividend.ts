@@ -1,49 +1,12 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import { getCurrentContract } from "./utils/get-current-contract";
+import { checkRole } from "./domain/roles";
 import { getUserInput } from "./utils/get-user-input";
+import { askTargetWallet } from "./utils/prompts";
+import { formatAddress } from "./utils/address-book";
+import { payDividend } from "./domain/pay-dividend";
 import type { SecretOfTheDeepNFT } from "../typechain-types";
 
-/**
- * Ask the user for a wallet address.
- * 
- * User can also enter a saved wallet name.
- * 
- * @returns 
- */
-async function askTargetWallet(): Promise<string> {
-  // Read wallets from .wallets.json
-  const walletsFilePath = path.join(__dirname, "..", ".wallets.json");
-  let wallets: Record<string, string> = {};
-  
-  if (fs.existsSync(walletsFilePath)) {
-    wallets = JSON.parse(fs.readFileSync(walletsFilePath, "utf8"));
-  }
-
-  if (Object.keys(wallets).length > 0) {
-    console.log("📋 Available saved wallets:");
-    Object.entries(wallets).forEach(([name, address]) => {
-      console.log(`   ${name}: ${address}`);
-    });
-  }
-
-  const input = await getUserInput("Enter wallet address or name: ");
-  
-  // Check if it's a saved wallet name
-  if (wallets[input]) {
-    console.log(`✅ Using saved wallet: ${input} (${wallets[input]})`);
-    return wallets[input];
-  }
-  
-  // Check if it's a valid address
-  if (ethers.isAddress(input)) {
-    return input;
-  }
-  
-  throw new Error(`Invalid wallet address or unknown wallet name "${input}"`);
-}
-
 async function main() {
   console.log("💰 Dividend Payout System\n");
 
@@ -61,16 +24,14 @@ async function main() {
   const [signer] = await ethers.getSigners();
   console.log(`👤 Signer: ${signer.address}`);
 
-  // Check if signer is owner
-  const owner = await nftContract.owner();
-  if (signer.address.toLowerCase() !== owner.toLowerCase()) {
-    console.error("❌ Error: Signer is not the contract owner");
-    console.log(`   Owner: ${owner}`);
-    console.log(`   Signer: ${signer.address}`);
+  // Check that the signer is a treasurer
+  const roleError = await checkRole(nftContract, "treasurer", signer.address, "pay dividends");
+  if (roleError) {
+    console.error(`❌ Error: ${roleError}`);
     return;
   }
 
-  console.log("✅ Signer is the contract owner\n");
+  console.log("✅ Signer is a treasurer\n");
 
   // Get USDC contract
   const usdcContract = await ethers.getContractAt("IERC20", usdcAddress);
@@ -92,7 +53,7 @@ async function main() {
   console.log("🎯 Select recipient for dividend payout:");
   
   const toAddress = await askTargetWallet();
-  console.log(`✅ Recipient: ${toAddress}\n`);
+  console.log(`✅ Recipient: ${formatAddress(toAddress)}\n`);
 
   // Get USDC amount
   const usdcAmountStr = await getUserInput("Enter USDC amount to pay (e.g., 10.5 for 10.5 USDC): ");
@@ -115,7 +76,7 @@ async function main() {
   // Show transaction summary
   console.log("📋 Transaction Summary");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log(`To: ${toAddress}`);
+  console.log(`To: ${formatAddress(toAddress)}`);
   console.log(`USDC Amount: ${ethers.formatUnits(usdcAmount, 6)} USDC`);
   console.log(`Contract USDC Before: ${ethers.formatUnits(contractBalance, 6)} USDC`);
   console.log(`Contract USDC After: ${ethers.formatUnits(contractBalance - usdcAmount, 6)} USDC\n`);
@@ -129,22 +90,21 @@ async function main() {
 
   // Execute dividend payout
   console.log("📝 Executing dividend payout transaction...");
-  const tx = await nftContract.payDividend(toAddress, usdcAmount);
-  
-  console.log(`🔗 Transaction hash: ${tx.hash}`);
-  console.log("⏳ Waiting for confirmation...");
-  
-  const receipt = await tx.wait();
-  console.log(`✅ Transaction confirmed in block ${receipt?.blockNumber}`);
+  const result = await payDividend(nftContract, toAddress, usdcAmount, signer);
+
+  if (!result.success) {
+    console.error(`❌ Dividend payout failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
 
-  // Check new balance
-  const newContractBalance = await nftContract.getUSDCBalance();
-  
   console.log("\n💰 Updated Balances");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log(`📋 Contract USDC: ${ethers.formatUnits(newContractBalance, 6)} USDC`);
+  console.log(`📋 Contract USDC: ${ethers.formatUnits(result.newContractBalance!, 6)} USDC`);
   console.log(`💵 Dividend paid: ${ethers.formatUnits(usdcAmount, 6)} USDC`);
-  console.log(`👤 Recipient: ${toAddress}`);
+  console.log(`👤 Recipient: ${formatAddress(toAddress)}`);
 
   // Show available functions
   console.log("\n🎯 Available USDC Functions");
@@ -1,99 +1,12 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import { getCurrentContract } from "./utils/get-current-contract";
+import { checkRole } from "./domain/roles";
 import { getUserInput } from "./utils/get-user-input";
+import { askTargetWallet, askTokenInfo } from "./utils/prompts";
+import { formatAddress } from "./utils/address-book";
+import { paybackTokens } from "./domain/payback";
 import type { SecretOfTheDeepNFT } from "../typechain-types";
 
-/**
- * Ask the user for a wallet address.
- * 
- * User can also enter a saved wallet name.
- * 
- * @returns 
- */
-async function askTargetWallet(): Promise<string> {
-  // Read wallets from .wallets.json
-  const walletsFilePath = path.join(__dirname, "..", ".wallets.json");
-  let wallets: Record<string, string> = {};
-  
-  if (fs.existsSync(walletsFilePath)) {
-    wallets = JSON.parse(fs.readFileSync(walletsFilePath, "utf8"));
-  }
-
-  if (Object.keys(wallets).length > 0) {
-    console.log("📋 Available saved wallets:");
-    Object.entries(wallets).forEach(([name, address]) => {
-      console.log(`   ${name}: ${address}`);
-    });
-  }
-
-  const input = await getUserInput("Enter wallet address or name: ");
-  
-  // Check if it's a saved wallet name
-  if (wallets[input]) {
-    console.log(`✅ Using saved wallet: ${input} (${wallets[input]})`);
-    return wallets[input];
-  }
-  
-  // Check if it's a valid address
-  if (ethers.isAddress(input)) {
-    return input;
-  }
-  
-  throw new Error(`Invalid wallet address or unknown wallet name "${input}"`);
-}
-
-/**
- * Ask the user for a token ID.
- * 
- * @returns 
- */
-async function askTokenInfo(nftContract: SecretOfTheDeepNFT): Promise<{ tokenId: number, name: string }> {
-  // Get available tokens from contract
-  const tokens: Array<{ id: number, name: string, isActive: boolean }> = [];
-  
-  // Check first 10 token IDs (reasonable range for most contracts)
-  for (let i = 1; i <= 10; i++) {
-    try {
-      const tokenInfo = await nftContract.getTokenInfo(i);
-      if (tokenInfo.isActive) {
-        tokens.push({
-          id: i,
-          name: tokenInfo.name,
-          isActive: tokenInfo.isActive
-        });
-      }
-    } catch (error) {
-      // Token doesn't exist, continue to next
-      break;
-    }
-  }
-
-  if (tokens.length === 0) {
-    throw new Error("No active tokens found in contract");
-  }
-
-  console.log("\n🪙 Available tokens:");
-  tokens.forEach(token => {
-    console.log(`   ${token.id}: ${token.name}`);
-  });
-
-  const tokenIdStr = await getUserInput(`Enter token ID (1-${tokens.length}): `);
-  const tokenId = parseInt(tokenIdStr);
-  
-  if (isNaN(tokenId) || tokenId < 1 || tokenId > tokens.length) {
-    throw new Error(`Invalid token ID. Please enter a number between 1 and ${tokens.length}.`);
-  }
-
-  const token = tokens.find(t => t.id === tokenId);
-  if (!token) {
-    throw new Error(`Token ID ${tokenId} not found`);
-  }
-
-  return { tokenId, name: token.name };
-}
-
 async function main() {
   console.log("📤 Token Payback System\n");
 
@@ -111,16 +24,14 @@ async function main() {
   const [signer] = await ethers.getSigners();
   console.log(`👤 Signer: ${signer.address}`);
 
-  // Check if signer is owner
-  const owner = await nftContract.owner();
-  if (signer.address.toLowerCase() !== owner.toLowerCase()) {
-    console.error("❌ Error: Signer is not the contract owner");
-    console.log(`   Owner: ${owner}`);
-    console.log(`   Signer: ${signer.address}`);
+  // Check that the signer is a treasurer
+  const roleError = await checkRole(nftContract, "treasurer", signer.address, "buy back tokens");
+  if (roleError) {
+    console.error(`❌ Error: ${roleError}`);
     return;
   }
 
-  console.log("✅ Signer is the contract owner\n");
+  console.log("✅ Signer is a treasurer\n");
 
   // Get USDC contract
   const usdcContract = await ethers.getContractAt("IERC20", usdcAddress);
@@ -149,7 +60,7 @@ async function main() {
   // Check holder balance
   const holderBalance = await nftContract.balanceOf(fromAddress, tokenId);
   if (holderBalance === BigInt(0)) {
-    console.log(`❌ Error: Address ${fromAddress} has no ${tokenName} tokens`);
+    console.log(`❌ Error: Address ${formatAddress(fromAddress)} has no ${tokenName} tokens`);
     return;
   }
 
@@ -195,7 +106,7 @@ async function main() {
   console.log("📋 Transaction Summary");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   console.log(`Token: ${tokenId} (${tokenName})`);
-  console.log(`From: ${fromAddress}`);
+  console.log(`From: ${formatAddress(fromAddress)}`);
   console.log(`Token Amount: ${tokenAmount}`);
   console.log(`USDC Amount: ${ethers.formatUnits(usdcAmount, 6)} USDC`);
   console.log(`Contract USDC Before: ${ethers.formatUnits(contractBalance, 6)} USDC`);
@@ -210,22 +121,20 @@ async function main() {
 
   // Execute payback
   console.log("📝 Executing payback transaction...");
-  const tx = await nftContract.payback(fromAddress, tokenId, tokenAmount, usdcAmount);
-  
-  console.log(`🔗 Transaction hash: ${tx.hash}`);
-  console.log("⏳ Waiting for confirmation...");
-  
-  const receipt = await tx.wait();
-  console.log(`✅ Transaction confirmed in block ${receipt?.blockNumber}`);
+  const result = await paybackTokens(nftContract, fromAddress, tokenId, tokenAmount, usdcAmount, signer);
+
+  if (!result.success) {
+    console.error(`❌ Payback failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
 
-  // Check new balances
-  const newContractBalance = await nftContract.getUSDCBalance();
-  const newHolderBalance = await nftContract.balanceOf(fromAddress, tokenId);
-  
   console.log("\n💰 Updated Balances");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log(`📋 Contract USDC: ${ethers.formatUnits(newContractBalance, 6)} USDC`);
-  console.log(`👤 Holder ${tokenId} tokens: ${newHolderBalance}`);
+  console.log(`📋 Contract USDC: ${ethers.formatUnits(result.newContractBalance!, 6)} USDC`);
+  console.log(`👤 Holder ${tokenId} tokens: ${result.newHolderBalance}`);
   console.log(`📊 Tokens burned: ${tokenAmount}`);
   console.log(`💵 USDC paid: ${ethers.formatUnits(usdcAmount, 6)} USDC`);
 
@@ -0,0 +1,90 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation, askPositiveInteger, askTokenInfo, parseUsdcAmount } from "./utils/prompts";
+import { formatAddress } from "./utils/address-book";
+import {
+  acceptCounterOffer,
+  cancelRedemption,
+  listRedemptions,
+  printRedemptions,
+  requestRedemption
+} from "./domain/redemption";
+
+async function main() {
+  console.log("🙋 Redemption Requests (Holder)\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // The holder signs their own requests
+  const [signer] = await ethers.getSigners();
+  console.log(`👤 Holder: ${formatAddress(signer.address)}\n`);
+
+  const redemptions = await listRedemptions(nftContract, { holder: signer.address });
+  printRedemptions(redemptions, formatAddress);
+
+  console.log("\n🎯 Actions");
+  console.log("   1: Request a redemption");
+  console.log("   2: Accept a counter-offer");
+  console.log("   3: Cancel a request");
+  const action = await getUserInput("Select action (1-3): ");
+
+  let result;
+  if (action === "1") {
+    const { tokenId, name: tokenName } = await askTokenInfo(nftContract);
+    const balance = await nftContract.balanceOf(signer.address, tokenId);
+    console.log(`✅ You hold ${balance} ${tokenName} tokens\n`);
+
+    const tokenAmount = await askPositiveInteger(`Enter amount of ${tokenName} tokens to redeem: `);
+    const requestedUsdc = parseUsdcAmount(await getUserInput("Enter asked USDC amount (e.g., 10.5 for 10.5 USDC): "));
+
+    console.log("\n📋 Request Summary");
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    console.log(`Token: ${tokenId} (${tokenName})`);
+    console.log(`Token Amount: ${tokenAmount}`);
+    console.log(`Asked: ${ethers.formatUnits(requestedUsdc, 6)} USDC`);
+    console.log("The tokens stay locked in the contract until the request is settled, rejected or cancelled.\n");
+
+    if (!(await askConfirmation("Submit redemption request?"))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    result = await requestRedemption(nftContract, tokenId, BigInt(tokenAmount), requestedUsdc, signer);
+  } else if (action === "2" || action === "3") {
+    const redemptionId = await askPositiveInteger("Enter redemption request ID: ");
+    const prompt = action === "2" ? "Accept the counter-offer?" : "Cancel and get the tokens back?";
+
+    if (!(await askConfirmation(prompt))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    result = action === "2"
+      ? await acceptCounterOffer(nftContract, redemptionId, signer)
+      : await cancelRedemption(nftContract, redemptionId, signer);
+  } else {
+    console.log("❌ Error: Invalid action");
+    return;
+  }
+
+  if (!result.success) {
+    console.error(`❌ Redemption failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Redemption #${result.redemptionId} updated in block ${result.blockNumber}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,98 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation, askPositiveInteger, parseUsdcAmount } from "./utils/prompts";
+import { formatAddress } from "./utils/address-book";
+import { checkRole } from "./domain/roles";
+import {
+  acceptRedemption,
+  counterRedemption,
+  getRedemption,
+  listRedemptions,
+  printRedemptions,
+  rejectRedemption
+} from "./domain/redemption";
+
+async function main() {
+  console.log("🙋 Redemption Requests (Treasurer)\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // Get signer
+  const [signer] = await ethers.getSigners();
+  console.log(`👤 Signer: ${signer.address}`);
+
+  // Check that the signer is a treasurer
+  const roleError = await checkRole(nftContract, "treasurer", signer.address, "answer redemption requests");
+  if (roleError) {
+    console.error(`❌ Error: ${roleError}`);
+    return;
+  }
+
+  const contractBalance = await nftContract.getUSDCBalance();
+  console.log(`💰 Contract USDC: ${ethers.formatUnits(contractBalance, 6)} USDC\n`);
+
+  const redemptions = await listRedemptions(nftContract, { openOnly: true });
+  printRedemptions(redemptions, formatAddress);
+  if (redemptions.length === 0) {
+    return;
+  }
+
+  const redemptionId = await askPositiveInteger("\nEnter redemption request ID: ");
+  const redemption = await getRedemption(nftContract, redemptionId);
+  if (!redemption) {
+    console.log(`❌ Error: Redemption #${redemptionId} does not exist`);
+    return;
+  }
+
+  console.log("\n🎯 Actions");
+  console.log(`   1: Accept for ${ethers.formatUnits(redemption.requestedUsdc, 6)} USDC`);
+  console.log("   2: Counter-offer");
+  console.log("   3: Reject and return the tokens");
+  const action = await getUserInput("Select action (1-3): ");
+
+  let result;
+  if (action === "1") {
+    if (!(await askConfirmation(`Burn ${redemption.tokenAmount} of token ${redemption.tokenId} and pay ${ethers.formatUnits(redemption.requestedUsdc, 6)} USDC?`))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+    result = await acceptRedemption(nftContract, redemptionId, signer);
+  } else if (action === "2") {
+    const counterUsdc = parseUsdcAmount(await getUserInput("Enter offered USDC amount (e.g., 10.5 for 10.5 USDC): "));
+    if (!(await askConfirmation(`Counter-offer ${ethers.formatUnits(counterUsdc, 6)} USDC?`))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+    result = await counterRedemption(nftContract, redemptionId, counterUsdc, signer);
+  } else if (action === "3") {
+    if (!(await askConfirmation(`Reject and return the tokens to ${formatAddress(redemption.holder)}?`))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+    result = await rejectRedemption(nftContract, redemptionId, signer);
+  } else {
+    console.log("❌ Error: Invalid action");
+    return;
+  }
+
+  if (!result.success) {
+    console.error(`❌ Redemption failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Redemption #${redemptionId} updated in block ${result.blockNumber}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
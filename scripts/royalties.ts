@@ -0,0 +1,78 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation, askTokenInfo } from "./utils/prompts";
+import { formatAddress, resolveAddress } from "./utils/address-book";
+import {
+  formatRoyalty,
+  getRoyaltySettings,
+  parseRoyaltyPercent,
+  printRoyaltySettings,
+  setDefaultRoyalty,
+  setTokenRoyalty,
+  writeCollectionRoyalty
+} from "./domain/royalties";
+
+async function main() {
+  console.log("👑 Royalty Settings\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // Get signer
+  const [signer] = await ethers.getSigners();
+  console.log(`👤 Signer: ${signer.address}\n`);
+
+  printRoyaltySettings(await getRoyaltySettings(nftContract), formatAddress);
+
+  console.log("\n🎯 Actions");
+  console.log("   1: Change the default royalty");
+  console.log("   2: Override the royalty of one token");
+  console.log("   3: Reset a token to the default royalty");
+  const action = await getUserInput("Select action (1-3, Enter to exit): ");
+  if (!["1", "2", "3"].includes(action)) {
+    return;
+  }
+
+  const tokenId = action === "1" ? undefined : (await askTokenInfo(nftContract)).tokenId;
+  const royalty = action === "3" ? undefined : {
+    receiver: resolveAddress(await getUserInput("Enter royalty receiver address or address book name: ")),
+    feeBasisPoints: parseRoyaltyPercent(await getUserInput("Enter royalty percentage (e.g. 5 for 5%): "))
+  };
+
+  const target = tokenId === undefined ? "the default royalty" : `the royalty of token ${tokenId}`;
+  const prompt = royalty
+    ? `Set ${target} to ${formatRoyalty(royalty.feeBasisPoints)} paid to ${formatAddress(royalty.receiver)}?`
+    : `Reset token ${tokenId} to the default royalty?`;
+  if (!(await askConfirmation(prompt))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  const result = tokenId === undefined
+    ? await setDefaultRoyalty(nftContract, royalty!.receiver, royalty!.feeBasisPoints, signer)
+    : await setTokenRoyalty(nftContract, tokenId, royalty, signer);
+
+  if (!result.success) {
+    console.error(`❌ Royalty update failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Royalty updated in block ${result.blockNumber}`);
+
+  if (tokenId === undefined && writeCollectionRoyalty(royalty!)) {
+    console.log("📝 Updated metadata/manifest.json and contract.json. Republish them for marketplaces to pick up the change.");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
@@ -1,5 +1,7 @@
 import { ethers } from "hardhat";
 import { getCurrentContract } from "./utils/get-current-contract";
+import { checkRole } from "./domain/roles";
+import { KNOWN_USDC_ADDRESSES, setUSDCAddress } from "./domain/set-usdc-address";
 import type { SecretOfTheDeepNFT } from "../typechain-types";
 
 async function main() {
@@ -15,32 +17,17 @@ async function main() {
   const currentUSDCAddress = await nftContract.usdcAddress();
   console.log(`💵 Current USDC Address: ${currentUSDCAddress}\n`);
 
-  // Common USDC addresses for different networks
-  const usdcAddresses = {
-    "Polygon Native USDC": "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
-    "Polygon Bridged USDC": "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
-    "Polygon Mumbai": "0xe6b8a5CF854791412c1f6EFC7CAf629f5Df1c747",
-    "Ethereum Mainnet": "0xA0b86a33E6441b8C4C8C8C8C8C8C8C8C8C8C8C8C8",
-    "Arbitrum": "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8",
-    "Optimism": "0x7F5c764cBc14f9669B88837ca1490cCa17c31607",
-    "Custom": "Enter custom address"
-  };
-
   console.log("🌐 Available USDC Addresses:");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   
   let index = 1;
-  for (const [network, address] of Object.entries(usdcAddresses)) {
-    if (address === "Enter custom address") {
-      console.log(`${index}. ${network}`);
-    } else {
-      console.log(`${index}. ${network}: ${address}`);
-    }
+  for (const [network, address] of Object.entries(KNOWN_USDC_ADDRESSES)) {
+    console.log(`${index}. ${network}: ${address}`);
     index++;
   }
 
   // Use Polygon Native USDC (the one you have)
-  const newUSDCAddress = usdcAddresses["Polygon Native USDC"];
+  const newUSDCAddress = KNOWN_USDC_ADDRESSES["Polygon Native USDC"];
   
   console.log(`\n🔄 Setting USDC address to: ${newUSDCAddress}`);
   console.log(`   From: ${currentUSDCAddress}`);
@@ -55,31 +42,29 @@ async function main() {
   const [signer] = await ethers.getSigners();
   console.log(`👤 Signer: ${signer.address}`);
 
-  // Check if signer is owner
-  const owner = await nftContract.owner();
-  if (signer.address.toLowerCase() !== owner.toLowerCase()) {
-    console.error("❌ Error: Signer is not the contract owner");
-    console.log(`   Owner: ${owner}`);
-    console.log(`   Signer: ${signer.address}`);
+  // Check that the signer is an admin
+  const roleError = await checkRole(nftContract, "admin", signer.address, "set the USDC address");
+  if (roleError) {
+    console.error(`❌ Error: ${roleError}`);
     return;
   }
 
-  console.log("✅ Signer is the contract owner\n");
+  console.log("✅ Signer is an admin\n");
 
   // Set USDC address
   console.log("📝 Setting USDC address...");
-  const tx = await nftContract.setUSDCAddress(newUSDCAddress);
-  
-  console.log(`🔗 Transaction hash: ${tx.hash}`);
-  console.log("⏳ Waiting for confirmation...");
-  
-  const receipt = await tx.wait();
-  console.log(`✅ Transaction confirmed in block ${receipt?.blockNumber}`);
+  const result = await setUSDCAddress(nftContract, newUSDCAddress, signer);
+
+  if (!result.success) {
+    console.error(`❌ Setting USDC address failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
 
-  // Verify the change
-  const updatedUSDCAddress = await nftContract.usdcAddress();
   console.log(`\n✅ USDC address updated successfully!`);
-  console.log(`   New address: ${updatedUSDCAddress}`);
+  console.log(`   New address: ${result.newAddress}`);
 
   // Show available functions
   console.log("\n🎯 Available USDC Functions");
@@ -0,0 +1,89 @@
+import { ethers } from "hardhat";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import { getCurrentContract } from "./utils/get-current-contract";
+import { getUserInput } from "./utils/get-user-input";
+import { askConfirmation, askPositiveInteger, askTokenInfo } from "./utils/prompts";
+import {
+  freezeSupply,
+  getTokenCatalog,
+  printTokenCatalog,
+  setMaxSupply,
+  setTokenActive,
+  type TokenLifecycleResult
+} from "./domain/token-catalog";
+
+async function main() {
+  console.log("🗂️  Token Catalog\n");
+
+  const currentContract = await getCurrentContract();
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await ethers.getContractAt("SecretOfTheDeepNFT", currentContract.contractAddress) as SecretOfTheDeepNFT;
+
+  // Get signer
+  const [signer] = await ethers.getSigners();
+  console.log(`👤 Signer: ${signer.address}\n`);
+
+  printTokenCatalog(await getTokenCatalog(nftContract));
+
+  console.log("\n🎯 Actions");
+  console.log("   1: Retire a token type");
+  console.log("   2: Reactivate a token type");
+  console.log("   3: Change the max supply");
+  console.log("   4: Freeze the max supply (cannot be undone)");
+  const action = await getUserInput("Select action (1-4, Enter to exit): ");
+  if (!["1", "2", "3", "4"].includes(action)) {
+    return;
+  }
+
+  const { tokenId, name } = await askTokenInfo(nftContract);
+  const maxSupply = action === "3" ? BigInt(await askPositiveInteger("Enter new max supply: ")) : undefined;
+
+  const prompts: Record<string, string> = {
+    "1": `Retire ${name}? No more can be minted until it is reactivated.`,
+    "2": `Allow minting of ${name} again?`,
+    "3": `Set the max supply of ${name} to ${maxSupply}?`,
+    "4": `Freeze the max supply of ${name}? This cannot be undone.`
+  };
+  if (!(await askConfirmation(prompts[action]))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  let result: TokenLifecycleResult;
+  switch (action) {
+    case "1":
+      result = await setTokenActive(nftContract, tokenId, false, signer);
+      break;
+    case "2":
+      result = await setTokenActive(nftContract, tokenId, true, signer);
+      break;
+    case "3":
+      result = await setMaxSupply(nftContract, tokenId, maxSupply!, signer);
+      break;
+    default:
+      result = await freezeSupply(nftContract, tokenId, signer);
+  }
+
+  if (!result.success) {
+    console.error(`❌ Update failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+  if (result.unchanged) {
+    console.log(`ℹ️  Nothing to change for ${name}`);
+    return;
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ ${name} updated in block ${result.blockNumber}\n`);
+
+  printTokenCatalog(await getTokenCatalog(nftContract));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Script failed:", error);
+    process.exit(1);
+  });
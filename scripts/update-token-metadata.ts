@@ -76,7 +76,7 @@ function validateAndSuggest(uriTemplate: string): void {
  * 
  * @returns UpdateMetadataOptions
  */
-async function askForUpdateOptions(): Promise<UpdateMetadataOptions> {
+async function askForUpdateOptions(): Promise<Omit<UpdateMetadataOptions, "newBaseURI">> {
   console.log("\n⚙️  Update Options:");
   
   const testUrisInput = await getUserInput("Test URIs after update? (y/N): ");
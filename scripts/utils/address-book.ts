@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress, isAddress } from "ethers";
+
+const addressBookFilePath = path.join(__dirname, "..", "..", ".wallets.json");
+
+/**
+ * Problem found in the address book file.
+ */
+export interface AddressBookIssue {
+    name: string;
+    message: string;
+}
+
+/**
+ * Load the address book from the .wallets.json file.
+ *
+ * @param filePath - Address book file (default: .wallets.json)
+ * @returns Addresses keyed by name
+ */
+export function loadAddressBook(filePath: string = addressBookFilePath): Record<string, string> {
+    if (!fs.existsSync(filePath)) {
+        return {};
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+function saveAddressBook(addressBook: Record<string, string>, filePath: string): void {
+    const sorted = Object.fromEntries(
+        Object.entries(addressBook).sort(([a], [b]) => a.localeCompare(b))
+    );
+    fs.writeFileSync(filePath, JSON.stringify(sorted, null, 2) + "\n");
+}
+
+/**
+ * Whether the address book has an entry with this name. Only own keys count,
+ * so names like "constructor" or "toString" are not found on the prototype.
+ */
+function hasEntry(addressBook: Record<string, string>, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(addressBook, name);
+}
+
+/**
+ * Validate an address and return it in checksum format.
+ *
+ * Lower- and upper-case addresses are accepted; mixed-case addresses must
+ * have a valid checksum, which catches typos.
+ *
+ * @param address - The address to validate
+ * @returns The checksummed address
+ */
+export function toChecksumAddress(address: string): string {
+    if (!isAddress(address)) {
+        throw new Error(`Invalid address "${address}" (wrong length, characters or checksum)`);
+    }
+
+    return getAddress(address);
+}
+
+function assertValidName(name: string): void {
+    if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+        throw new Error(`Invalid name "${name}". Use letters, digits, "_", "-" and "." only.`);
+    }
+    if (isAddress(name)) {
+        throw new Error(`Name "${name}" looks like an address`);
+    }
+    if (name === "__proto__") {
+        throw new Error(`Name "${name}" is reserved`);
+    }
+}
+
+/**
+ * Find the name of an address.
+ *
+ * @param address - The address to look up
+ * @param addressBook - Address book to search (default: .wallets.json)
+ * @returns The name, or undefined if the address is not in the address book
+ */
+export function getAddressLabel(
+    address: string,
+    addressBook: Record<string, string> = loadAddressBook()
+): string | undefined {
+    const entry = Object.entries(addressBook).find(([, saved]) =>
+        saved.toLowerCase() === address.toLowerCase()
+    );
+
+    return entry?.[0];
+}
+
+/**
+ * Format an address for output, with its name if it has one.
+ *
+ * @param address - The address to format
+ * @param addressBook - Address book to use (default: .wallets.json)
+ * @returns e.g. "treasury (0x1234...)" or the plain address
+ */
+export function formatAddress(
+    address: string,
+    addressBook: Record<string, string> = loadAddressBook()
+): string {
+    const label = getAddressLabel(address, addressBook);
+    return label ? `${label} (${address})` : address;
+}
+
+/**
+ * Resolve an address or address book name to a checksummed address.
+ *
+ * @param input - An address or a name from the address book
+ * @param filePath - Address book file (default: .wallets.json)
+ * @returns The resolved address
+ */
+export function resolveAddress(input: string, filePath: string = addressBookFilePath): string {
+    const addressBook = loadAddressBook(filePath);
+
+    // Check if it's a saved name
+    if (hasEntry(addressBook, input)) {
+        return toChecksumAddress(addressBook[input]);
+    }
+
+    // Check if it's a valid address
+    if (isAddress(input)) {
+        return getAddress(input);
+    }
+
+    if (/^0x[0-9a-fA-F]{40}$/.test(input)) {
+        throw new Error(`Invalid checksum for address "${input}"`);
+    }
+
+    throw new Error(`Invalid address or unknown address book name "${input}"`);
+}
+
+/**
+ * Add an entry to the address book.
+ *
+ * @param name - Name for the address
+ * @param address - The address, stored in checksum format
+ * @param filePath - Address book file (default: .wallets.json)
+ * @returns The checksummed address
+ */
+export function addAddress(name: string, address: string, filePath: string = addressBookFilePath): string {
+    assertValidName(name);
+    const checksummed = toChecksumAddress(address);
+    const addressBook = loadAddressBook(filePath);
+
+    if (hasEntry(addressBook, name)) {
+        throw new Error(`Name "${name}" is already used for ${addressBook[name]}`);
+    }
+
+    const existing = getAddressLabel(checksummed, addressBook);
+    if (existing) {
+        throw new Error(`${checksummed} is already saved as "${existing}"`);
+    }
+
+    addressBook[name] = checksummed;
+    saveAddressBook(addressBook, filePath);
+
+    return checksummed;
+}
+
+/**
+ * Remove an entry from the address book.
+ *
+ * @param name - Name of the entry to remove
+ * @param filePath - Address book file (default: .wallets.json)
+ * @returns The removed address
+ */
+export function removeAddress(name: string, filePath: string = addressBookFilePath): string {
+    const addressBook = loadAddressBook(filePath);
+
+    if (!hasEntry(addressBook, name)) {
+        throw new Error(`No address book entry named "${name}"`);
+    }
+
+    const address = addressBook[name];
+    delete addressBook[name];
+    saveAddressBook(addressBook, filePath);
+
+    return address;
+}
+
+/**
+ * Rename an entry in the address book.
+ *
+ * @param oldName - Current name of the entry
+ * @param newName - New name of the entry
+ * @param filePath - Address book file (default: .wallets.json)
+ */
+export function renameAddress(oldName: string, newName: string, filePath: string = addressBookFilePath): void {
+    assertValidName(newName);
+    const addressBook = loadAddressBook(filePath);
+
+    if (!hasEntry(addressBook, oldName)) {
+        throw new Error(`No address book entry named "${oldName}"`);
+    }
+    if (hasEntry(addressBook, newName)) {
+        throw new Error(`Name "${newName}" is already used for ${addressBook[newName]}`);
+    }
+
+    addressBook[newName] = addressBook[oldName];
+    delete addressBook[oldName];
+    saveAddressBook(addressBook, filePath);
+}
+
+/**
+ * Check the address book for invalid addresses and duplicates, e.g. after it
+ * was edited by hand.
+ *
+ * @param filePath - Address book file (default: .wallets.json)
+ * @returns Problems found, empty if the address book is valid
+ */
+export function validateAddressBook(filePath: string = addressBookFilePath): AddressBookIssue[] {
+    const issues: AddressBookIssue[] = [];
+    const seen = new Map<string, string>();
+
+    for (const [name, address] of Object.entries(loadAddressBook(filePath))) {
+        if (!isAddress(address)) {
+            issues.push({ name, message: `Invalid address "${address}" (wrong length, characters or checksum)` });
+            continue;
+        }
+
+        const key = address.toLowerCase();
+        if (seen.has(key)) {
+            issues.push({ name, message: `Same address as "${seen.get(key)}"` });
+        } else {
+            seen.set(key, name);
+        }
+    }
+
+    return issues;
+}
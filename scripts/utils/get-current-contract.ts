@@ -1,5 +1,6 @@
 import * as fs from "fs";
 import * as path from "path";
+import { ethers, network } from "hardhat";
 
 export interface CurrentContract {
     /**
@@ -26,27 +27,233 @@ export interface CurrentContract {
      * The deployment timestamp of the current contract.
      */
     deployedAt: string;
+
+    /**
+     * The block the contract was deployed in. Missing in records written
+     * before it was tracked; run scripts/backfill-deployment-block.ts to add it.
+     */
+    deploymentBlock?: number;
+
+    /**
+     * The hash of the deployment transaction.
+     */
+    deploymentTxHash?: string;
+
+    /**
+     * Optional name of the deployment, unique per chain, e.g. "v2".
+     */
+    label?: string;
 }
 
 /**
- * Get the current contract info from the .current.json file.
- * 
- * This function is used to get the current contract info from the .current.json file.
- * 
- * @example ```ts 
+ * All deployments, grouped by chain ID.
+ */
+interface DeploymentRegistry {
+    chains: Record<string, {
+        /** Address of the deployment the scripts use on this chain */
+        selected: string;
+        /** Deployments in the order they were added */
+        deployments: CurrentContract[];
+    }>;
+}
+
+const registryFilePath = path.join(__dirname, "..", "..", ".deployments.json");
+
+/**
+ * Load the registry, importing a legacy .current.json next to it if there is
+ * no registry yet.
+ */
+function loadRegistry(registryPath: string): DeploymentRegistry {
+    if (fs.existsSync(registryPath)) {
+        return JSON.parse(fs.readFileSync(registryPath, "utf8"));
+    }
+
+    const registry: DeploymentRegistry = { chains: {} };
+    const legacyFilePath = path.join(path.dirname(registryPath), ".current.json");
+    if (fs.existsSync(legacyFilePath)) {
+        const legacy: CurrentContract = JSON.parse(fs.readFileSync(legacyFilePath, "utf8"));
+        registry.chains[legacy.chainId] = {
+            selected: legacy.contractAddress,
+            deployments: [legacy]
+        };
+    }
+
+    return registry;
+}
+
+function saveRegistry(registry: DeploymentRegistry, registryPath: string): void {
+    fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2));
+}
+
+function isSameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Get the deployment the scripts should use on the connected network.
+ *
+ * Deployments are stored per chain ID in .deployments.json, so switching
+ * `--network` switches to that network's deployment. When a chain has
+ * several deployments, the selected one is used (the latest by default).
+ *
+ * @example ```ts
  * const currentContract = await getCurrentContract();
  * console.log(`Contract address: ${currentContract.contractAddress}`);
  * console.log(`Network: ${currentContract.network}`);
  * ```
- * 
+ *
+ * @param registryPath - Registry file (default: .deployments.json)
  * @returns The current contract address and network
  */
-export async function getCurrentContract(): Promise<CurrentContract> {
-    const currentFilePath = path.join(__dirname, "..", "..", ".current.json");
-    if (!fs.existsSync(currentFilePath)) {
-        throw new Error(".current.json file not found. Please deploy the contract first.");
+export async function getCurrentContract(registryPath: string = registryFilePath): Promise<CurrentContract> {
+    const chainId = (await ethers.provider.getNetwork()).chainId.toString();
+    const chain = loadRegistry(registryPath).chains[chainId];
+
+    if (!chain || chain.deployments.length === 0) {
+        throw new Error(`No deployment found for chain ${chainId} (--network ${network.name}). Please deploy the contract first.`);
     }
 
-    const currentData = JSON.parse(fs.readFileSync(currentFilePath, "utf8"));
-    return currentData;
-}
\ No newline at end of file
+    const currentContract = chain.deployments.find(deployment => isSameAddress(deployment.contractAddress, chain.selected));
+    if (!currentContract) {
+        throw new Error(`Selected deployment ${chain.selected} is missing from .deployments.json`);
+    }
+
+    // Local chains share a chain ID and lose their state on restart
+    if (await ethers.provider.getCode(currentContract.contractAddress) === "0x") {
+        throw new Error(`No contract at ${currentContract.contractAddress} on --network ${network.name}. Redeploy or select another deployment.`);
+    }
+
+    return currentContract;
+}
+
+/**
+ * Get all recorded deployments.
+ *
+ * @param chainId - Only return deployments on this chain
+ * @param registryPath - Registry file (default: .deployments.json)
+ * @returns Deployments with a flag for the selected one per chain
+ */
+export function getDeployments(
+    chainId?: string,
+    registryPath: string = registryFilePath
+): Array<CurrentContract & { selected: boolean }> {
+    const registry = loadRegistry(registryPath);
+
+    return Object.entries(registry.chains)
+        .filter(([id]) => chainId === undefined || id === chainId)
+        .flatMap(([, chain]) => chain.deployments.map(deployment => ({
+            ...deployment,
+            selected: isSameAddress(deployment.contractAddress, chain.selected)
+        })));
+}
+
+/**
+ * Find the recorded deployment of a contract.
+ *
+ * @param chainId - The chain ID
+ * @param contractAddress - The contract address
+ * @param registryPath - Registry file (default: .deployments.json)
+ * @returns The deployment, or undefined if it is not recorded
+ */
+export function findDeployment(
+    chainId: string,
+    contractAddress: string,
+    registryPath: string = registryFilePath
+): CurrentContract | undefined {
+    return loadRegistry(registryPath).chains[chainId]?.deployments.find(deployment =>
+        isSameAddress(deployment.contractAddress, contractAddress)
+    );
+}
+
+/**
+ * Check that a label is still free on a chain.
+ *
+ * @param chainId - The chain ID
+ * @param label - The label to check
+ * @param contractAddress - A deployment that may keep its label, e.g. when redeployed to the same address
+ * @param registryPath - Registry file (default: .deployments.json)
+ */
+export function assertLabelAvailable(
+    chainId: string,
+    label: string,
+    contractAddress?: string,
+    registryPath: string = registryFilePath
+): void {
+    const taken = loadRegistry(registryPath).chains[chainId]?.deployments.find(deployment =>
+        deployment.label === label && !(contractAddress && isSameAddress(deployment.contractAddress, contractAddress))
+    );
+    if (taken) {
+        throw new Error(`Label "${label}" is already used by ${taken.contractAddress} on chain ${chainId}`);
+    }
+}
+
+/**
+ * Record a new deployment and select it for its chain. An earlier record at the
+ * same address, e.g. from before a local node restart, is replaced.
+ *
+ * @param deployment - The deployment to record
+ * @param registryPath - Registry file (default: .deployments.json)
+ */
+export function addDeployment(deployment: CurrentContract, registryPath: string = registryFilePath): void {
+    if (deployment.label) {
+        assertLabelAvailable(deployment.chainId, deployment.label, deployment.contractAddress, registryPath);
+    }
+
+    const registry = loadRegistry(registryPath);
+    const chain = registry.chains[deployment.chainId] ?? { selected: deployment.contractAddress, deployments: [] };
+
+    chain.deployments = chain.deployments.filter(existing => !isSameAddress(existing.contractAddress, deployment.contractAddress));
+    chain.deployments.push(deployment);
+    chain.selected = deployment.contractAddress;
+    registry.chains[deployment.chainId] = chain;
+
+    saveRegistry(registry, registryPath);
+}
+
+/**
+ * Replace the record of an existing deployment.
+ *
+ * @param deployment - The updated deployment, matched by chain ID and address
+ * @param registryPath - Registry file (default: .deployments.json)
+ */
+export function updateDeployment(deployment: CurrentContract, registryPath: string = registryFilePath): void {
+    const registry = loadRegistry(registryPath);
+    const chain = registry.chains[deployment.chainId];
+    const index = chain?.deployments.findIndex(existing => isSameAddress(existing.contractAddress, deployment.contractAddress)) ?? -1;
+
+    if (index === -1) {
+        throw new Error(`Deployment ${deployment.contractAddress} on chain ${deployment.chainId} is not recorded`);
+    }
+
+    chain.deployments[index] = deployment;
+    saveRegistry(registry, registryPath);
+}
+
+/**
+ * Select which deployment the scripts use on a chain.
+ *
+ * @param chainId - The chain ID
+ * @param labelOrAddress - Label or contract address of the deployment
+ * @param registryPath - Registry file (default: .deployments.json)
+ * @returns The selected deployment
+ */
+export function selectDeployment(
+    chainId: string,
+    labelOrAddress: string,
+    registryPath: string = registryFilePath
+): CurrentContract {
+    const registry = loadRegistry(registryPath);
+    const chain = registry.chains[chainId];
+    const deployment = chain?.deployments.find(deployment =>
+        deployment.label === labelOrAddress || isSameAddress(deployment.contractAddress, labelOrAddress)
+    );
+
+    if (!deployment) {
+        throw new Error(`No deployment "${labelOrAddress}" found for chain ${chainId}`);
+    }
+
+    chain.selected = deployment.contractAddress;
+    saveRegistry(registry, registryPath);
+
+    return deployment;
+}
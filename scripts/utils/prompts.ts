@@ -0,0 +1,149 @@
+import { parseUnits } from "ethers";
+import type { SecretOfTheDeepNFT } from "../../typechain-types";
+import { loadAddressBook, resolveAddress } from "./address-book";
+import { getUserInput } from "./get-user-input";
+
+/**
+ * Ask the user for a wallet address.
+ *
+ * User can also enter a name from the address book.
+ *
+ * @returns The selected wallet address
+ */
+export async function askTargetWallet(): Promise<string> {
+    const wallets = loadAddressBook();
+
+    if (Object.keys(wallets).length > 0) {
+        console.log("📋 Available saved wallets:");
+        Object.entries(wallets).forEach(([name, address]) => {
+            console.log(`   ${name}: ${address}`);
+        });
+    }
+
+    const input = await getUserInput("Enter wallet address or name: ");
+    const address = resolveAddress(input);
+
+    if (wallets[input]) {
+        console.log(`✅ Using saved wallet: ${input} (${address})`);
+    }
+
+    return address;
+}
+
+/**
+ * Ask the user for a token ID.
+ *
+ * Lists the active tokens of the contract (first 10 token IDs) before asking.
+ *
+ * @param nftContract - The NFT contract
+ * @returns The selected token ID and its name
+ */
+export async function askTokenInfo(nftContract: SecretOfTheDeepNFT): Promise<{ tokenId: number, name: string }> {
+    // Get available tokens from contract
+    const tokens: Array<{ id: number, name: string, isActive: boolean }> = [];
+
+    // Check first 10 token IDs (reasonable range for most contracts)
+    for (let i = 1; i <= 10; i++) {
+        try {
+            const tokenInfo = await nftContract.getTokenInfo(i);
+            if (tokenInfo.exists) {
+                tokens.push({
+                    id: i,
+                    name: tokenInfo.name,
+                    isActive: tokenInfo.isActive
+                });
+            }
+        } catch (error) {
+            // Token doesn't exist, continue to next
+            break;
+        }
+    }
+
+    if (tokens.length === 0) {
+        throw new Error("No tokens found in contract");
+    }
+
+    console.log("\n🪙 Available tokens:");
+    tokens.forEach(token => {
+        console.log(`   ${token.id}: ${token.name}${token.isActive ? "" : " (retired)"}`);
+    });
+
+    const tokenIdStr = await getUserInput(`Enter token ID (1-${tokens.length}): `);
+    const tokenId = parseInt(tokenIdStr);
+
+    if (isNaN(tokenId) || tokenId < 1 || tokenId > tokens.length) {
+        throw new Error(`Invalid token ID. Please enter a number between 1 and ${tokens.length}.`);
+    }
+
+    const token = tokens.find(t => t.id === tokenId);
+    if (!token) {
+        throw new Error(`Token ID ${tokenId} not found`);
+    }
+
+    return { tokenId, name: token.name };
+}
+
+/**
+ * Ask the user for a positive whole number.
+ *
+ * @param prompt - The prompt to display to the user
+ * @returns The entered number
+ */
+export async function askPositiveInteger(prompt: string): Promise<number> {
+    const input = await getUserInput(prompt);
+    const value = parseInt(input);
+
+    if (isNaN(value) || value <= 0) {
+        throw new Error("Invalid amount. Please enter a positive number.");
+    }
+
+    return value;
+}
+
+/**
+ * Parse a decimal USDC amount (e.g. "10.5") into its 6-decimal integer value.
+ *
+ * @param input - The USDC amount as entered by the user
+ * @returns The USDC amount with 6 decimals
+ */
+export function parseUsdcAmount(input: string): bigint {
+    const value = parseFloat(input);
+    if (isNaN(value) || value <= 0) {
+        throw new Error("Invalid USDC amount");
+    }
+
+    return parseUnits(input.trim(), 6);
+}
+
+/**
+ * Ask the user to confirm an action.
+ *
+ * @param prompt - The question to display, without the (y/N) suffix
+ * @returns True if the user answered yes
+ */
+export async function askConfirmation(prompt: string): Promise<boolean> {
+    const answer = await getUserInput(`${prompt} (y/N): `);
+    return answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes';
+}
+
+/**
+ * Parse a comma separated list of token IDs such as "1,2,3".
+ *
+ * @param input - The token IDs as entered by the user
+ * @returns The token IDs, without duplicates
+ */
+export function parseTokenIdList(input: string): number[] {
+    const tokenIds = input.split(",").map(part => part.trim()).filter(part => part !== "").map(part => {
+        const tokenId = parseInt(part);
+        if (isNaN(tokenId) || tokenId < 0 || String(tokenId) !== part) {
+            throw new Error(`Invalid token ID "${part}"`);
+        }
+        return tokenId;
+    });
+
+    if (tokenIds.length === 0) {
+        throw new Error("At least one token ID is required");
+    }
+
+    return Array.from(new Set(tokenIds));
+}
@@ -1,5 +1,7 @@
 import { ethers } from "hardhat";
 import { getCurrentContract } from "./utils/get-current-contract";
+import { checkRole } from "./domain/roles";
+import { withdrawUSDC } from "./domain/withdraw-usdc";
 import type { SecretOfTheDeepNFT } from "../typechain-types";
 import * as readline from 'readline';
 
@@ -20,16 +22,14 @@ async function main() {
   const [signer] = await ethers.getSigners();
   console.log(`👤 Signer: ${signer.address}`);
 
-  // Check if signer is owner
-  const owner = await nftContract.owner();
-  if (signer.address.toLowerCase() !== owner.toLowerCase()) {
-    console.error("❌ Error: Signer is not the contract owner");
-    console.log(`   Owner: ${owner}`);
-    console.log(`   Signer: ${signer.address}`);
+  // Check that the signer is a treasurer
+  const roleError = await checkRole(nftContract, "treasurer", signer.address, "withdraw USDC");
+  if (roleError) {
+    console.error(`❌ Error: ${roleError}`);
     return;
   }
 
-  console.log("✅ Signer is the contract owner\n");
+  console.log("✅ Signer is a treasurer\n");
 
   // Get USDC contract
   const usdcContract = await ethers.getContractAt("IERC20", usdcAddress);
@@ -126,22 +126,20 @@ async function main() {
 
   // Withdraw USDC from contract
   console.log("📝 Withdrawing USDC...");
-  const tx = await nftContract.withdrawUSDC(amountToWithdraw);
-  
-  console.log(`🔗 Transaction hash: ${tx.hash}`);
-  console.log("⏳ Waiting for confirmation...");
-  
-  const receipt = await tx.wait();
-  console.log(`✅ Transaction confirmed in block ${receipt?.blockNumber}`);
+  const result = await withdrawUSDC(nftContract, amountToWithdraw, signer);
+
+  if (!result.success) {
+    console.error(`❌ Withdrawal failed: ${result.error}`);
+    throw new Error(result.error);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
 
-  // Check new balances
-  const newWalletBalance = await usdcContract.balanceOf(signer.address);
-  const newContractBalance = await nftContract.getUSDCBalance();
-  
   console.log("\n💰 Updated Balances");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log(`👤 Wallet USDC: ${ethers.formatUnits(newWalletBalance, 6)} USDC`);
-  console.log(`📋 Contract USDC: ${ethers.formatUnits(newContractBalance, 6)} USDC`);
+  console.log(`👤 Wallet USDC: ${ethers.formatUnits(result.newWalletBalance!, 6)} USDC`);
+  console.log(`📋 Contract USDC: ${ethers.formatUnits(result.newContractBalance!, 6)} USDC`);
   console.log(`📊 Withdrawn: ${ethers.formatUnits(amountToWithdraw, 6)} USDC`);
 
   // Show available functions
@@ -0,0 +1,55 @@
+import { task } from "hardhat/config";
+
+task("sotd:address-list", "List the address book")
+  .setAction(async () => {
+    const { loadAddressBook, validateAddressBook } = await import("../scripts/utils/address-book");
+
+    const addressBook = loadAddressBook();
+    const names = Object.keys(addressBook);
+    if (names.length === 0) {
+      console.log("📋 Address book is empty. Add entries with sotd:address-add.");
+      return;
+    }
+
+    const width = Math.max(...names.map(name => name.length));
+    console.log(`📋 Address book (${names.length} entries):`);
+    for (const [name, address] of Object.entries(addressBook)) {
+      console.log(`   ${name.padEnd(width)}  ${address}`);
+    }
+
+    const issues = validateAddressBook();
+    if (issues.length > 0) {
+      console.log("\n⚠️  Problems found:");
+      issues.forEach(issue => console.log(`   ${issue.name}: ${issue.message}`));
+      throw new Error(`Address book has ${issues.length} problem(s)`);
+    }
+  });
+
+task("sotd:address-add", "Add an address to the address book")
+  .addParam("name", "Name for the address")
+  .addParam("address", "The address; mixed-case addresses must have a valid checksum")
+  .setAction(async (args: { name: string; address: string }) => {
+    const { addAddress } = await import("../scripts/utils/address-book");
+
+    const address = addAddress(args.name, args.address);
+    console.log(`✅ Added ${args.name}: ${address}`);
+  });
+
+task("sotd:address-remove", "Remove an address from the address book")
+  .addParam("name", "Name of the entry to remove")
+  .setAction(async (args: { name: string }) => {
+    const { removeAddress } = await import("../scripts/utils/address-book");
+
+    const address = removeAddress(args.name);
+    console.log(`✅ Removed ${args.name} (${address})`);
+  });
+
+task("sotd:address-rename", "Rename an address book entry")
+  .addParam("name", "Current name of the entry")
+  .addParam("newName", "New name of the entry")
+  .setAction(async (args: { name: string; newName: string }) => {
+    const { renameAddress } = await import("../scripts/utils/address-book");
+
+    renameAddress(args.name, args.newName);
+    console.log(`✅ Renamed ${args.name} to ${args.newName}`);
+  });
@@ -0,0 +1,60 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, resolveParam } from "./utils";
+
+task("sotd:bulk-mint", "Mint to many wallets from a CSV of address,tokenId,amount")
+  .addOptionalParam("file", "CSV file with address,tokenId,amount rows")
+  .addOptionalParam("out", "Results CSV (default: <file>.results.csv)")
+  .addFlag("dryRun", "Only validate the CSV and print the plan")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { file?: string; out?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const {
+      executeBulkMint,
+      parseBulkMintCsv,
+      planBulkMint,
+      printBulkMintPlan,
+      writeBulkMintResults
+    } = await import("../scripts/domain/bulk-mint");
+
+    console.log("🪙 Bulk Mint\n");
+    const { nftContract } = await loadCurrentContract(hre);
+
+    const file = await resolveParam(args.file, "file", () => getUserInput("Enter path of the CSV file: "));
+    if (!fs.existsSync(file)) {
+      throw new Error(`File not found: ${file}`);
+    }
+
+    const { rows, errors } = parseBulkMintCsv(fs.readFileSync(file, "utf8"));
+    const plan = await planBulkMint(nftContract, rows, errors);
+
+    printBulkMintPlan(plan);
+
+    if (plan.errors.length > 0) {
+      throw new Error("CSV is invalid, nothing was minted");
+    }
+
+    if (args.dryRun) {
+      console.log("\n🧪 Dry run, nothing was minted");
+      return;
+    }
+
+    if (!(await confirmOrSkip(`\n🪙 Send ${plan.recipients.length} mint transactions?`, args.yes))) {
+      console.log("❌ Minting cancelled.");
+      return;
+    }
+
+    console.log("\n📝 Minting...");
+    const result = await executeBulkMint(nftContract, plan);
+
+    if (result.rowResults.length > 0) {
+      const resultsPath = writeBulkMintResults(result.rowResults, file, args.out);
+      console.log(`\n📝 Results saved to: ${resultsPath}`);
+    }
+
+    if (!result.success) {
+      throw new Error(`Bulk mint failed: ${result.error}`);
+    }
+
+    console.log(`✅ Minted to ${result.mintedRecipients} recipients`);
+  });
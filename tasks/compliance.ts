@@ -0,0 +1,235 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:allowlist", "List restricted token types, allowlisted investors and frozen accounts")
+  .setAction(async (_args, hre) => {
+    const { getTransferRestrictions, printTransferRestrictions } = await import("../scripts/domain/transfer-restrictions");
+    const { formatAddress } = await import("../scripts/utils/address-book");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    printTransferRestrictions(await getTransferRestrictions(nftContract), formatAddress);
+  });
+
+task("sotd:allowlist-import", "Add the investors in a CSV to the allowlist, or remove them (compliance)")
+  .addOptionalParam("file", "CSV with one address or address book name per line in the first column")
+  .addOptionalParam("batchSize", "Accounts per transaction", undefined, positiveInt)
+  .addFlag("remove", "Remove the accounts from the allowlist instead")
+  .addOptionalParam("safeBatch", "Append the transactions to this Safe Transaction Builder batch file instead of sending them")
+  .addFlag("dryRun", "Validate the CSV and simulate the first transaction without sending anything")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: {
+    file?: string;
+    batchSize?: number;
+    remove: boolean;
+    safeBatch?: string;
+    dryRun: boolean;
+    yes: boolean;
+  }, hre) => {
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { DEFAULT_ALLOWLIST_BATCH_SIZE, importAllowlist, parseAllowlistCsv } = await import("../scripts/domain/transfer-restrictions");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    console.log("🛂 Allowlist Import\n");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const file = await resolveParam(args.file, "file", () => getUserInput("Enter path of the CSV file: "));
+    if (!fs.existsSync(file)) {
+      throw new Error(`File not found: ${file}`);
+    }
+
+    const { rows, errors } = parseAllowlistCsv(fs.readFileSync(file, "utf8"));
+    if (errors.length > 0) {
+      console.log(`❌ ${errors.length} problem(s):`);
+      errors.forEach(error => console.log(`   Line ${error.line}: ${error.message}`));
+      throw new Error("CSV is invalid, nothing was imported");
+    }
+
+    const allowed = !args.remove;
+    const batchSize = args.batchSize ?? DEFAULT_ALLOWLIST_BATCH_SIZE;
+    const accounts = rows.map(row => row.address);
+
+    const plan = await importAllowlist(nftContract, accounts, allowed, undefined, { batchSize, dryRun: true });
+    console.log(`📋 Accounts: ${accounts.length} | To ${allowed ? "add" : "remove"}: ${plan.changed.length} | Unchanged: ${plan.skipped.length}\n`);
+
+    if (plan.changed.length === 0) {
+      console.log("ℹ️  Nothing to change");
+      return;
+    }
+
+    if (args.dryRun) {
+      await printDryRun(plan);
+      if (!plan.success) {
+        throw new Error(`Dry run failed: ${plan.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      const transactions = [];
+      for (let i = 0; i < plan.changed.length; i += batchSize) {
+        transactions.push(encodeSafeTransaction(contractAddress, nftContract.interface, "setAllowlisted", [plan.changed.slice(i, i + batchSize), allowed]));
+      }
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "compliance", transactions);
+      return;
+    }
+
+    const transactionCount = Math.ceil(plan.changed.length / batchSize);
+    const prompt = `${allowed ? "Allowlist" : "Remove"} ${plan.changed.length} account(s) in ${transactionCount} transaction(s)?`;
+    if (!(await confirmOrSkip(prompt, args.yes))) {
+      console.log("❌ Import cancelled.");
+      return;
+    }
+
+    const result = await importAllowlist(nftContract, accounts, allowed, undefined, { batchSize });
+    result.transactionHashes.forEach(hash => console.log(`🔗 Transaction hash: ${hash}`));
+
+    if (!result.success) {
+      throw new Error(`Allowlist import failed after ${result.changed.length} account(s): ${result.error}`);
+    }
+
+    console.log(`✅ ${allowed ? "Allowlisted" : "Removed"} ${result.changed.length} account(s)`);
+  });
+
+task("sotd:restrict-transfers", "Only allow transfers of a token type between allowlisted investors (compliance)")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addFlag("lift", "Lift the restriction so anyone can transfer the token again")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; lift: boolean; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { askTokenInfo } = await import("../scripts/utils/prompts");
+    const { setTransferRestricted } = await import("../scripts/domain/transfer-restrictions");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+    const restricted = !args.lift;
+    const state = restricted ? "restricted to allowlisted investors" : "unrestricted";
+
+    if (args.dryRun) {
+      const result = await setTransferRestricted(nftContract, tokenId, restricted, undefined, { dryRun: true });
+      if (result.unchanged) {
+        console.log(`ℹ️  Token ${tokenId} is already ${state}`);
+        return;
+      }
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "compliance", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "setTransferRestricted", [tokenId, restricted])
+      ]);
+      return;
+    }
+
+    const prompt = restricted
+      ? `Only allow transfers of token ${tokenId} between allowlisted investors?`
+      : `Let anyone transfer token ${tokenId} again?`;
+    if (!(await confirmOrSkip(prompt, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await setTransferRestricted(nftContract, tokenId, restricted);
+
+    if (!result.success) {
+      throw new Error(`Changing the transfer restriction failed: ${result.error}`);
+    }
+    if (result.unchanged) {
+      console.log(`ℹ️  Token ${tokenId} is already ${state}`);
+      return;
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Token ${tokenId} is now ${state} (block ${result.blockNumber})`);
+  });
+
+task("sotd:freeze-account", "Stop an account from sending or receiving tokens (compliance)")
+  .addOptionalParam("account", "Address or address book name")
+  .addFlag("unfreeze", "Unfreeze the account")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { account?: string; unfreeze: boolean; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { setAccountFrozen } = await import("../scripts/domain/transfer-restrictions");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const account = resolveAddress(await resolveParam(args.account, "account", () =>
+      getUserInput("Enter account address or address book name: ")
+    ));
+    const frozen = !args.unfreeze;
+    const state = frozen ? "frozen" : "not frozen";
+
+    if (args.dryRun) {
+      const result = await setAccountFrozen(nftContract, account, frozen, undefined, { dryRun: true });
+      if (result.unchanged) {
+        console.log(`ℹ️  ${formatAddress(account)} is already ${state}`);
+        return;
+      }
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "compliance", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "setAccountFrozen", [account, frozen])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`${frozen ? "Freeze" : "Unfreeze"} ${formatAddress(account)}?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await setAccountFrozen(nftContract, account, frozen);
+
+    if (!result.success) {
+      throw new Error(`${frozen ? "Freezing" : "Unfreezing"} the account failed: ${result.error}`);
+    }
+    if (result.unchanged) {
+      console.log(`ℹ️  ${formatAddress(account)} is already ${state}`);
+      return;
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ ${formatAddress(account)} is now ${state} (block ${result.blockNumber})`);
+  });
+
+task("sotd:check-transfer", "Check whether a transfer would pass the freeze, allowlist and balance checks")
+  .addOptionalParam("from", "Sender address or address book name")
+  .addOptionalParam("to", "Recipient address or address book name")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addOptionalParam("amount", "Amount to transfer", 1, positiveInt)
+  .setAction(async (args: { from?: string; to?: string; id?: number; amount: number }, hre) => {
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { askTokenInfo } = await import("../scripts/utils/prompts");
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { checkTransfer, printTransferCheck } = await import("../scripts/domain/transfer-restrictions");
+
+    const { nftContract } = await loadCurrentContract(hre);
+
+    const from = resolveAddress(await resolveParam(args.from, "from", () => getUserInput("Enter sender address or address book name: ")));
+    const to = resolveAddress(await resolveParam(args.to, "to", () => getUserInput("Enter recipient address or address book name: ")));
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+
+    console.log(`\n🔍 ${args.amount} of token ${tokenId}: ${formatAddress(from)} → ${formatAddress(to)}`);
+    const check = await checkTransfer(nftContract, from, to, tokenId, BigInt(args.amount));
+    printTransferCheck(check);
+  });
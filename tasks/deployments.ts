@@ -0,0 +1,34 @@
+import { task } from "hardhat/config";
+
+task("sotd:deployments", "List recorded deployments on all networks")
+  .setAction(async (_args, hre) => {
+    const { getDeployments } = await import("../scripts/utils/get-current-contract");
+
+    const deployments = getDeployments();
+    if (deployments.length === 0) {
+      console.log("No deployments recorded yet.");
+      return;
+    }
+
+    const connectedChainId = (await hre.ethers.provider.getNetwork()).chainId.toString();
+
+    console.log("📋 Recorded deployments (➡️  = used by scripts on that chain):\n");
+    for (const deployment of deployments) {
+      const marker = deployment.selected ? "➡️ " : "  ";
+      const label = deployment.label ? ` [${deployment.label}]` : "";
+      const connected = deployment.chainId === connectedChainId ? " (connected)" : "";
+      console.log(`${marker} ${deployment.network} (chain ${deployment.chainId})${connected}${label}`);
+      console.log(`     ${deployment.contractAddress} | deployed ${deployment.deployedAt} | block ${deployment.deploymentBlock ?? "unknown"}`);
+    }
+  });
+
+task("sotd:select-deployment", "Select which deployment the scripts use on the connected network")
+  .addParam("deployment", "Label or contract address of the deployment")
+  .setAction(async (args: { deployment: string }, hre) => {
+    const { selectDeployment } = await import("../scripts/utils/get-current-contract");
+
+    const chainId = (await hre.ethers.provider.getNetwork()).chainId.toString();
+    const deployment = selectDeployment(chainId, args.deployment);
+
+    console.log(`✅ Using ${deployment.contractAddress}${deployment.label ? ` [${deployment.label}]` : ""} on chain ${chainId}`);
+  });
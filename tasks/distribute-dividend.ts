@@ -0,0 +1,68 @@
+import { task, types } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam } from "./utils";
+
+task("sotd:distribute-dividend", "Distribute USDC pro rata to all holders of the selected token types")
+  .addOptionalParam("usdc", "Total USDC amount to distribute (e.g. 1500)")
+  .addOptionalParam("ids", "Comma separated token IDs, e.g. 1,2,3")
+  .addOptionalParam("weights", "Weight per token ID, e.g. 1:3,2:2,3:1 (default: equal)", "")
+  .addOptionalParam("fromBlock", "Block to scan holders from (default: deployment block)", undefined, types.int)
+  .addOptionalParam("batchSize", "Maximum recipients per transaction", 100, positiveInt)
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: {
+    usdc?: string;
+    ids?: string;
+    weights: string;
+    fromBlock?: number;
+    batchSize: number;
+    yes: boolean;
+  }, hre) => {
+    const { parseTokenIdList, parseUsdcAmount } = await import("../scripts/utils/prompts");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const {
+      computeProRataShares,
+      distributeDividend,
+      getTokenHolders,
+      parseTokenWeights,
+      printDistributionPreview
+    } = await import("../scripts/domain/distribute-dividend");
+    const { formatUnits } = hre.ethers;
+
+    console.log("💰 Pro-rata Dividend Distribution\n");
+    const { nftContract } = await loadCurrentContract(hre);
+
+    const tokenIds = parseTokenIdList(await resolveParam(args.ids, "ids", () =>
+      getUserInput("Enter token IDs to distribute to (e.g. 1,2,3): ")
+    ));
+    const totalAmount = parseUsdcAmount(await resolveParam(args.usdc, "usdc", () =>
+      getUserInput("Enter total USDC amount to distribute: ")
+    ));
+    const weights = parseTokenWeights(args.weights);
+
+    console.log("🔍 Looking up token holders...");
+    const holdersResult = await getTokenHolders(nftContract, tokenIds, args.fromBlock);
+    if (!holdersResult.success || !holdersResult.holders) {
+      throw new Error(`Failed to get token holders: ${holdersResult.error}`);
+    }
+
+    const distribution = computeProRataShares(holdersResult.holders, totalAmount, weights);
+
+    console.log("\n📋 Distribution Preview\n");
+    printDistributionPreview(distribution, tokenIds);
+
+    if (!(await confirmOrSkip(`\nPay ${formatUnits(totalAmount, 6)} USDC to ${distribution.shares.length} holders?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    console.log("📝 Executing dividend distribution...");
+    const result = await distributeDividend(nftContract, distribution, args.batchSize);
+
+    result.transactionHashes.forEach(hash => console.log(`🔗 Transaction hash: ${hash}`));
+
+    if (!result.success) {
+      throw new Error(`Distribution failed after paying ${result.paidRecipients} of ${distribution.shares.length} recipients: ${result.error}`);
+    }
+
+    console.log(`✅ Paid ${result.paidRecipients} recipients`);
+    console.log(`📋 Contract USDC: ${formatUnits(result.newContractBalance!, 6)} USDC`);
+  });
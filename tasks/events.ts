@@ -0,0 +1,90 @@
+import { task, types } from "hardhat/config";
+import { loadCurrentContract } from "./utils";
+
+task("sotd:sync-events", "Sync the local event index of the current contract")
+  .addOptionalParam("fromBlock", "Block to start indexing from; earlier than the indexed range backfills", undefined, types.int)
+  .addOptionalParam("reorgDepth", "Number of most recent indexed blocks to re-check for reorgs", 12, types.int)
+  .addOptionalParam("chunkSize", "Blocks per eth_getLogs request", 1000, types.int)
+  .addFlag("reset", "Delete the index and sync from scratch")
+  .setAction(async (args: { fromBlock?: number; reorgDepth: number; chunkSize: number; reset: boolean }, hre) => {
+    const {
+      readEventIndexState,
+      resetEventIndex,
+      syncContractEvents
+    } = await import("../scripts/domain/event-indexer");
+
+    console.log("🗂️  Syncing Event Index\n");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+    const chainId = (await hre.ethers.provider.getNetwork()).chainId.toString();
+
+    if (args.reset) {
+      resetEventIndex(chainId, contractAddress);
+      console.log("🧹 Event index deleted");
+    }
+
+    const previous = readEventIndexState(chainId, contractAddress);
+    if (previous) {
+      console.log(`📋 Indexed blocks ${previous.startBlock}-${previous.lastSyncedBlock}`);
+    }
+
+    const result = await syncContractEvents(nftContract, {
+      fromBlock: args.fromBlock,
+      reorgDepth: args.reorgDepth,
+      chunkSize: args.chunkSize
+    });
+
+    if (result.gap) {
+      console.log(`⚠️  Gap: blocks ${result.gap.fromBlock}-${result.gap.toBlock} could not be fetched`);
+    }
+    if (!result.success || !result.state) {
+      throw new Error(`Sync failed: ${result.error}`);
+    }
+
+    console.log(`✅ Indexed blocks ${result.state.startBlock}-${result.state.lastSyncedBlock}`);
+    console.log(`   New events: ${result.newEvents}`);
+    if (result.reorgedEvents > 0) {
+      console.log(`   ⚠️  Dropped ${result.reorgedEvents} events from reorged blocks`);
+    }
+  });
+
+task("sotd:events", "List contract events as one timeline")
+  .addOptionalParam("kinds", "Comma separated event kinds or groups (transfers, supply, payouts, usdc, admin)")
+  .addOptionalParam("fromBlock", "Block to start from (default: deployment block)", undefined, types.int)
+  .addOptionalParam("toBlock", "Last block to include (default: latest block)", undefined, types.int)
+  .setAction(async (args: { kinds?: string; fromBlock?: number; toBlock?: number }, hre) => {
+    const {
+      describeContractEvent,
+      getContractEvents,
+      parseEventKinds
+    } = await import("../scripts/domain/contract-events");
+    const { loadAddressBook } = await import("../scripts/utils/address-book");
+
+    const kinds = args.kinds ? parseEventKinds(args.kinds) : undefined;
+
+    console.log("🔍 Contract Events\n");
+    const { contractAddress } = await loadCurrentContract(hre);
+
+    const result = await getContractEvents(contractAddress, {
+      fromBlock: args.fromBlock,
+      toBlock: args.toBlock,
+      kinds
+    });
+
+    if (!result.success || !result.data) {
+      throw new Error(`Failed to get events: ${result.error}`);
+    }
+
+    const { totalEvents, countsByKind, events } = result.data;
+    console.log(`🎉 Events found: ${totalEvents}${kinds ? ` (${kinds.join(", ")})` : ""}`);
+    for (const [kind, count] of Object.entries(countsByKind)) {
+      console.log(`  ${kind}: ${count}`);
+    }
+
+    if (events.length > 0) {
+      console.log("");
+      const addressBook = loadAddressBook();
+      for (const event of events) {
+        console.log(`  Block ${event.blockNumber} | ${event.dateTime}: ${describeContractEvent(event, addressBook)}`);
+      }
+    }
+  });
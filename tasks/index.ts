@@ -0,0 +1,21 @@
+// Non-interactive counterparts of the scripts in scripts/, e.g.
+// `npx hardhat sotd:mint --to 0x... --id 1 --amount 5 --yes --network amoy`.
+// Any parameter left out is asked for interactively when running in a terminal.
+import "./address-book";
+import "./deployments";
+import "./roles";
+import "./pause";
+import "./compliance";
+import "./royalties";
+import "./tokens";
+import "./mint";
+import "./bulk-mint";
+import "./payback";
+import "./redemption";
+import "./pay-dividend";
+import "./distribute-dividend";
+import "./snapshot";
+import "./events";
+import "./usdc";
+import "./metadata";
+import "./onchain-metadata";
@@ -0,0 +1,260 @@
+import { task, types } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:update-metadata", "Update the base URI for token metadata")
+  .addOptionalParam("uri", "New base URI, e.g. https://example.com/metadata/{id}.json")
+  .addOptionalParam("testCount", "Number of token URIs to print after the update (0 to skip)", 3, types.int)
+  .addFlag("skipValidation", "Do not validate the URI format")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { uri?: string; testCount: number; skipValidation: boolean; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const {
+      updateTokenMetadata,
+      validateUriTemplate,
+      getCurrentBaseURI
+    } = await import("../scripts/domain/update-token-metadata");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    console.log("🔗 Updating Token Metadata URI...");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    try {
+      console.log(`📋 Current base URI: ${await getCurrentBaseURI(nftContract)}`);
+    } catch (error) {
+      console.log("📋 Current base URI: Unable to retrieve");
+    }
+
+    const newBaseURI = (await resolveParam(args.uri, "uri", () => getUserInput("\nNew base URI: "))).trim();
+
+    if (!args.skipValidation) {
+      const validation = validateUriTemplate(newBaseURI);
+      console.log("\n🔍 URI Template Validation:");
+      console.log(`   Valid format: ${validation.isValid ? "✅" : "❌"}`);
+      console.log(`   Has {id} placeholder: ${validation.hasIdPlaceholder ? "✅" : "❌"}`);
+      validation.suggestions.forEach(suggestion => {
+        console.log(`   - ${suggestion}`);
+      });
+
+      if (!validation.isValid) {
+        throw new Error("URI format is invalid. Please check the suggestions above.");
+      }
+    }
+
+    if (args.dryRun) {
+      const result = await updateTokenMetadata(nftContract, {
+        newBaseURI,
+        validateUri: !args.skipValidation,
+        dryRun: true
+      });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "metadata", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "setBaseURI", [newBaseURI])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`\n🔄 Set base URI to ${newBaseURI}?`, args.yes))) {
+      console.log("❌ Update cancelled.");
+      return;
+    }
+
+    const result = await updateTokenMetadata(nftContract, {
+      newBaseURI,
+      testUris: args.testCount > 0,
+      testTokenCount: args.testCount,
+      validateUri: !args.skipValidation
+    });
+
+    if (!result.success) {
+      throw new Error(`Update failed: ${result.error}`);
+    }
+
+    console.log("✅ Update successful!");
+    console.log(`Transaction hash: ${result.transactionHash}`);
+    result.testUris?.forEach((uri, index) => {
+      console.log(`   Token ${index + 1}: ${uri}`);
+    });
+  });
+
+task("sotd:token-uri", "Give a single token its own metadata URI, or clear it so the base URI applies again")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addOptionalParam("uri", "Full metadata URI of the token, e.g. https://example.com/gold.json")
+  .addFlag("clear", "Remove the token's URI override")
+  .addFlag("skipValidation", "Do not validate the URI format")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: {
+    id?: number;
+    uri?: string;
+    clear: boolean;
+    skipValidation: boolean;
+    safeBatch?: string;
+    dryRun: boolean;
+    yes: boolean;
+  }, hre) => {
+    const { askTokenInfo } = await import("../scripts/utils/prompts");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { getTokenUriOverrides, setTokenUri } = await import("../scripts/domain/update-token-metadata");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    console.log(`📋 Base URI template: ${await nftContract.baseURITemplate()}`);
+    const overrides = await getTokenUriOverrides(nftContract);
+    overrides.forEach(override => console.log(`   Token ${override.tokenId} (${override.name}): ${override.uri}`));
+
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+    const tokenUri = args.clear
+      ? undefined
+      : (await resolveParam(args.uri, "uri", () => getUserInput(`\nNew URI for token ${tokenId}: `))).trim();
+    const options = { validateUri: !args.skipValidation };
+
+    if (args.dryRun) {
+      const result = await setTokenUri(nftContract, tokenId, tokenUri, undefined, { ...options, dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "metadata", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "setTokenURI", [tokenId, tokenUri ?? ""])
+      ]);
+      return;
+    }
+
+    const prompt = tokenUri ? `\n🔄 Set the URI of token ${tokenId} to ${tokenUri}?` : `\n🔄 Clear the URI override of token ${tokenId}?`;
+    if (!(await confirmOrSkip(prompt, args.yes))) {
+      console.log("❌ Update cancelled.");
+      return;
+    }
+
+    const result = await setTokenUri(nftContract, tokenId, tokenUri, undefined, options);
+
+    if (!result.success) {
+      throw new Error(`Update failed: ${result.error}`);
+    }
+
+    console.log("✅ Update successful!");
+    console.log(`Transaction hash: ${result.transactionHash}`);
+    console.log(`   Token ${tokenId}: ${result.newUri}`);
+  });
+
+task("sotd:build-metadata", "Generate the token metadata files and contract.json from metadata/manifest.json")
+  .addFlag("check", "Write nothing and fail if the generated files are out of date")
+  .addFlag("checkChain", "Compare token names and descriptions with getTokenInfo on the current contract")
+  .addFlag("clean", "Delete JSON files in metadata/ the manifest does not produce")
+  .setAction(async (args: { check: boolean; checkChain: boolean; clean: boolean }, hre) => {
+    const { compareWithChain, loadManifest, writeMetadataFiles } = await import("../scripts/domain/metadata-build");
+
+    const manifest = loadManifest();
+    console.log(`📋 Manifest: ${manifest.tokens.length} token(s), images from ${manifest.imageBaseUrl}`);
+
+    if (args.checkChain) {
+      const { nftContract } = await loadCurrentContract(hre);
+      const mismatches = await compareWithChain(nftContract, manifest);
+
+      mismatches.forEach(mismatch => {
+        const icon = mismatch.severity === 'error' ? "❌" : "⚠️ ";
+        console.log(`${icon} Token ${mismatch.tokenId} ${mismatch.field}: manifest "${mismatch.manifest}", on chain "${mismatch.onChain}"`);
+      });
+      if (mismatches.some(mismatch => mismatch.severity === 'error')) {
+        throw new Error("Manifest does not match the contract");
+      }
+      console.log("✅ Token names match getTokenInfo");
+    }
+
+    const result = writeMetadataFiles(manifest, undefined, { check: args.check, clean: args.clean });
+    if (!result.success) {
+      throw new Error(`Metadata build failed: ${result.error}`);
+    }
+
+    result.changed.forEach(fileName => console.log(`${args.check ? "✏️  Out of date" : "📝 Wrote"}: ${fileName}`));
+    console.log(`✅ ${result.unchanged.length} file(s) up to date`);
+    result.stale.forEach(fileName => console.log(`${args.clean && !args.check ? "🗑️  Deleted" : "⚠️  Not in manifest"}: ${fileName}`));
+
+    if (args.check && (result.changed.length > 0 || result.stale.length > 0)) {
+      throw new Error("Generated metadata is out of date. Run sotd:build-metadata (with --clean for stale files).");
+    }
+  });
+
+task("sotd:validate-metadata", "Check token metadata against the ERC-1155 metadata schema and OpenSea conventions")
+  .addFlag("deployed", "Validate the files uri() points to instead of the local metadata/ folder")
+  .addOptionalParam("id", "Only validate this token ID", undefined, positiveInt)
+  .addFlag("skipImages", "Do not load the images")
+  .addFlag("strict", "Fail on warnings too")
+  .addOptionalParam("ipfsGateway", "Gateway used for ipfs:// URIs (default: IPFS_GATEWAY or https://ipfs.io/ipfs/)")
+  .setAction(async (args: { deployed: boolean; id?: number; skipImages: boolean; strict: boolean; ipfsGateway?: string }, hre) => {
+    const { printValidationResult, validateDeployedMetadata, validateLocalMetadata } = await import("../scripts/domain/metadata-validation");
+
+    const options = { checkImages: !args.skipImages, tokenId: args.id, ipfsGateway: args.ipfsGateway };
+    const result = args.deployed
+      ? await validateDeployedMetadata((await loadCurrentContract(hre)).nftContract, options)
+      : await validateLocalMetadata(undefined, options);
+
+    if (result.error) {
+      throw new Error(`Metadata validation failed: ${result.error}`);
+    }
+
+    printValidationResult(result);
+
+    if (result.errorCount > 0 || (args.strict && result.warningCount > 0)) {
+      throw new Error("Metadata is not valid");
+    }
+  });
+
+task("sotd:metadata-server", "Serve token metadata merged with live on-chain data for local development")
+  .addOptionalParam("port", "Port to listen on", 4000, types.int)
+  .addOptionalParam("host", "Interface to listen on", "127.0.0.1")
+  .setAction(async (args: { port: number; host: string }, hre) => {
+    const { startMetadataServer } = await import("../scripts/domain/metadata-server");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    const server = await startMetadataServer(nftContract, { port: args.port, host: args.host, logRequests: true });
+
+    console.log(`🌊 Metadata server running at ${server.url}`);
+    console.log(`   Base URI:     ${server.baseURI}`);
+    console.log(`   Contract URI: ${server.contractURI}`);
+
+    if ((await nftContract.contractURI()) !== server.contractURI) {
+      console.log("\n⚠️  The contract does not point here. Deploy with METADATA_SERVER_URL set,");
+      console.log(`   or run sotd:update-metadata --uri ${server.baseURI}`);
+    }
+    console.log("\nPress Ctrl+C to stop\n");
+
+    await new Promise<void>(resolve => process.once("SIGINT", resolve));
+    await server.close();
+  });
+
+task("sotd:pack-ipfs", "Package the metadata files and images into a CAR file for IPFS, offline")
+  .addOptionalParam("out", "CAR file to write", "ipfs/metadata.car")
+  .setAction(async (args: { out: string }) => {
+    const { packMetadataForIpfs } = await import("../scripts/domain/ipfs");
+
+    const result = packMetadataForIpfs(args.out);
+    if (!result.success) {
+      throw new Error(`IPFS packaging failed: ${result.error}`);
+    }
+
+    console.log(`📦 Wrote ${result.carFile} (${(result.carSize! / 1024 / 1024).toFixed(1)} MB, ${result.files!.length} files)`);
+    console.log(`   Root CID:     ${result.rootCid}`);
+    console.log(`   Images CID:   ${result.imagesCid}`);
+    console.log(`   Base URI:     ${result.baseURI}`);
+    console.log(`   Contract URI: ${result.contractURI}`);
+    console.log("\nUpload the CAR file to a pinning service, then point the contract at it:");
+    console.log(`   npx hardhat sotd:update-metadata --uri "${result.baseURI}" --network polygon`);
+  });
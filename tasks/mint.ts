@@ -0,0 +1,74 @@
+import { task } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:mint", "Mint tokens to a wallet")
+  .addOptionalParam("to", "Recipient address or address book name")
+  .addOptionalParam("id", "Token ID to mint", undefined, positiveInt)
+  .addOptionalParam("amount", "Amount of tokens to mint", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { to?: string; id?: number; amount?: number; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { askTargetWallet, askTokenInfo, askPositiveInteger } = await import("../scripts/utils/prompts");
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { mintToWallet } = await import("../scripts/domain/mint-2-wallet");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    console.log("🪙 Minting tokens to specific wallet...");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const targetWallet = resolveAddress(await resolveParam(args.to, "to", askTargetWallet));
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+    const amount = await resolveParam(args.amount, "amount", () => askPositiveInteger("Enter amount to mint: "));
+
+    const tokenInfo = await nftContract.getTokenInfo(tokenId);
+    if (!tokenInfo.exists) {
+      throw new Error(`Token ID ${tokenId} does not exist`);
+    }
+    if (!tokenInfo.isActive) {
+      throw new Error(`Token ID ${tokenId} is retired and cannot be minted`);
+    }
+
+    console.log(`\n📋 Summary:`);
+    console.log(`Target Wallet: ${formatAddress(targetWallet)}`);
+    console.log(`Token: ${tokenInfo.name} (ID: ${tokenId})`);
+    console.log(`Amount: ${amount}\n`);
+
+    if (args.dryRun) {
+      const result = await mintToWallet(nftContract, targetWallet, tokenId, amount, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      if (tokenInfo.currentSupply + BigInt(amount) > tokenInfo.maxSupply) {
+        throw new Error(`Cannot mint ${amount} tokens. Would exceed max supply of ${tokenInfo.maxSupply}`);
+      }
+
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "minter", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "mint", [targetWallet, tokenId, amount])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`🪙 Mint ${amount} ${tokenInfo.name} to ${formatAddress(targetWallet)}?`, args.yes))) {
+      console.log("❌ Minting cancelled.");
+      return;
+    }
+
+    console.log(`\n🪙 Minting ${amount} ${tokenInfo.name} to ${formatAddress(targetWallet)}...`);
+    const result = await mintToWallet(nftContract, targetWallet, tokenId, amount);
+
+    if (!result.success) {
+      throw new Error(`Minting failed: ${result.error}`);
+    }
+
+    console.log("✅ Minting successful!");
+    console.log(`Transaction hash: ${result.transactionHash}`);
+    console.log(`Target wallet ${result.tokenName}: ${result.newBalance}`);
+    console.log(`Total supply: ${result.newSupply}`);
+  });
@@ -0,0 +1,134 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:onchain-metadata", "Show which tokens serve fully on-chain metadata")
+  .setAction(async (_args, hre) => {
+    const { getOnChainMetadataState, printOnChainMetadataState } = await import("../scripts/domain/on-chain-metadata");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    printOnChainMetadataState(await getOnChainMetadataState(nftContract));
+  });
+
+task("sotd:onchain-metadata-enable", "Serve metadata from the contract itself as data: URIs (metadata manager)")
+  .addOptionalParam("id", "Only switch this token ID (default: the whole collection)", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    await switchOnChainMetadata(hre, args, true);
+  });
+
+task("sotd:onchain-metadata-disable", "Serve metadata from the base URI again (metadata manager)")
+  .addOptionalParam("id", "Only switch this token ID (default: the whole collection)", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    await switchOnChainMetadata(hre, args, false);
+  });
+
+task("sotd:image-template", "Replace the SVG image of on-chain metadata (metadata manager)")
+  .addOptionalParam("file", "SVG file; {name}, {supply} and {maxSupply} are filled in per token")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { file?: string; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const fs = await import("fs");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { setImageTemplate } = await import("../scripts/domain/on-chain-metadata");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const file = await resolveParam(args.file, "file", () => getUserInput("Enter the SVG template file: "));
+    const template = fs.readFileSync(file, "utf8").trim();
+
+    if (args.dryRun) {
+      const result = await setImageTemplate(nftContract, template, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "metadata", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "setImageTemplate", [template])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`Replace the image template with ${file} (${template.length} characters)?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await setImageTemplate(nftContract, template);
+
+    if (!result.success) {
+      throw new Error(`Setting the image template failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Image template updated in block ${result.blockNumber}`);
+  });
+
+async function switchOnChainMetadata(
+  hre: HardhatRuntimeEnvironment,
+  args: { id?: number; safeBatch?: string; dryRun: boolean; yes: boolean },
+  enabled: boolean
+): Promise<void> {
+  const { setOnChainMetadata } = await import("../scripts/domain/on-chain-metadata");
+  const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+  const { printDryRun } = await import("../scripts/domain/simulation");
+
+  const { nftContract, contractAddress } = await loadCurrentContract(hre);
+  const target = args.id === undefined ? "every token" : `token ${args.id}`;
+
+  if (args.dryRun) {
+    const result = await setOnChainMetadata(nftContract, enabled, args.id, undefined, { dryRun: true });
+    if (result.unchanged) {
+      console.log(`ℹ️  Nothing to change for ${target}`);
+      return;
+    }
+    await printDryRun(result);
+    if (!result.success) {
+      throw new Error(`Dry run failed: ${result.error}`);
+    }
+    return;
+  }
+
+  if (args.safeBatch) {
+    await writeToSafeBatch(hre, nftContract, args.safeBatch, "metadata", [
+      args.id === undefined
+        ? encodeSafeTransaction(contractAddress, nftContract.interface, "setOnChainMetadata", [enabled])
+        : encodeSafeTransaction(contractAddress, nftContract.interface, "setTokenOnChainMetadata", [args.id, enabled])
+    ]);
+    return;
+  }
+
+  const prompt = enabled ? `Serve on-chain metadata for ${target}?` : `Serve ${target} from the base URI again?`;
+  if (!(await confirmOrSkip(prompt, args.yes))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  const result = await setOnChainMetadata(nftContract, enabled, args.id);
+
+  if (!result.success) {
+    throw new Error(`Switching metadata failed: ${result.error}`);
+  }
+  if (result.unchanged) {
+    console.log(`ℹ️  Nothing to change for ${target}`);
+    return;
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ ${enabled ? "On-chain metadata" : "Base URI"} now used for ${target} (block ${result.blockNumber})`);
+  if (args.id !== undefined && await nftContract.onChainMetadata()) {
+    console.log("ℹ️  The whole collection serves on-chain metadata, which takes precedence over the token setting");
+  }
+}
@@ -0,0 +1,76 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { confirmOrSkip, loadCurrentContract, writeToSafeBatch } from "./utils";
+
+task("sotd:pause-status", "Show whether the contract is paused")
+  .setAction(async (_args, hre) => {
+    const { printPauseState } = await import("../scripts/domain/pause");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    printPauseState(await nftContract.paused());
+  });
+
+task("sotd:pause", "Halt transfers, mints and treasury payouts (pauser)")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    await changePauseState(hre, args, true);
+  });
+
+task("sotd:unpause", "Resume normal operation (pauser)")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    await changePauseState(hre, args, false);
+  });
+
+async function changePauseState(
+  hre: HardhatRuntimeEnvironment,
+  args: { safeBatch?: string; dryRun: boolean; yes: boolean },
+  paused: boolean
+): Promise<void> {
+  const { printPauseState, setPaused } = await import("../scripts/domain/pause");
+  const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+  const { printDryRun } = await import("../scripts/domain/simulation");
+
+  const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+  const wasPaused = await nftContract.paused();
+  printPauseState(wasPaused);
+  if (wasPaused === paused) {
+    console.log(`\nℹ️  Contract is already ${paused ? "paused" : "running"}`);
+    return;
+  }
+
+  if (args.dryRun) {
+    const result = await setPaused(nftContract, paused, undefined, { dryRun: true });
+    await printDryRun(result);
+    if (!result.success) {
+      throw new Error(`Dry run failed: ${result.error}`);
+    }
+    return;
+  }
+
+  if (args.safeBatch) {
+    await writeToSafeBatch(hre, nftContract, args.safeBatch, "pauser", [
+      encodeSafeTransaction(contractAddress, nftContract.interface, paused ? "pause" : "unpause", [])
+    ]);
+    return;
+  }
+
+  if (!(await confirmOrSkip(`\n${paused ? "⏸️  Pause" : "▶️  Unpause"} ${contractAddress}?`, args.yes))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  const result = await setPaused(nftContract, paused);
+
+  if (!result.success) {
+    throw new Error(`${paused ? "Pausing" : "Unpausing"} failed: ${result.error}`);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Contract ${paused ? "paused" : "unpaused"} in block ${result.blockNumber}`);
+}
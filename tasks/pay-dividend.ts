@@ -0,0 +1,66 @@
+import { task } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:pay-dividend", "Pay a USDC dividend to a single address")
+  .addOptionalParam("to", "Recipient address or address book name")
+  .addOptionalParam("usdc", "USDC amount to pay (e.g. 10.5)")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { to?: string; usdc?: string; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { askTargetWallet, parseUsdcAmount } = await import("../scripts/utils/prompts");
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { payDividend } = await import("../scripts/domain/pay-dividend");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+    const { formatUnits } = hre.ethers;
+
+    console.log("💰 Dividend Payout System\n");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const toAddress = resolveAddress(await resolveParam(args.to, "to", askTargetWallet));
+    const usdcAmount = parseUsdcAmount(await resolveParam(args.usdc, "usdc", () =>
+      getUserInput("Enter USDC amount to pay (e.g., 10.5 for 10.5 USDC): ")
+    ));
+
+    const contractBalance = await nftContract.getUSDCBalance();
+
+    console.log("\n📋 Transaction Summary");
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    console.log(`To: ${formatAddress(toAddress)}`);
+    console.log(`USDC Amount: ${formatUnits(usdcAmount, 6)} USDC`);
+    console.log(`Contract USDC Before: ${formatUnits(contractBalance, 6)} USDC\n`);
+
+    if (args.dryRun) {
+      const result = await payDividend(nftContract, toAddress, usdcAmount, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "treasurer", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "payDividend", [toAddress, usdcAmount])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip("Confirm dividend payout transaction?", args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    console.log("📝 Executing dividend payout transaction...");
+    const result = await payDividend(nftContract, toAddress, usdcAmount);
+
+    if (!result.success) {
+      throw new Error(`Dividend payout failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+    console.log(`📋 Contract USDC: ${formatUnits(result.newContractBalance!, 6)} USDC`);
+  });
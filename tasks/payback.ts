@@ -0,0 +1,85 @@
+import { task } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:payback", "Buy tokens back from a holder for USDC")
+  .addOptionalParam("from", "Holder address or address book name")
+  .addOptionalParam("id", "Token ID to buy back", undefined, positiveInt)
+  .addOptionalParam("amount", "Amount of tokens to buy back", undefined, positiveInt)
+  .addOptionalParam("usdc", "USDC amount to pay (e.g. 10.5)")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { from?: string; id?: number; amount?: number; usdc?: string; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const {
+      askTargetWallet,
+      askTokenInfo,
+      askPositiveInteger,
+      parseUsdcAmount
+    } = await import("../scripts/utils/prompts");
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { paybackTokens } = await import("../scripts/domain/payback");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+    const { formatUnits } = hre.ethers;
+
+    console.log("📤 Token Payback System\n");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+    const fromAddress = resolveAddress(await resolveParam(args.from, "from", askTargetWallet));
+    const tokenAmount = await resolveParam(args.amount, "amount", () =>
+      askPositiveInteger("Enter amount of tokens to buy back: ")
+    );
+    const usdcAmount = parseUsdcAmount(await resolveParam(args.usdc, "usdc", () =>
+      getUserInput("Enter USDC amount to pay (e.g., 10.5 for 10.5 USDC): ")
+    ));
+
+    const contractBalance = await nftContract.getUSDCBalance();
+
+    console.log("\n📋 Transaction Summary");
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    console.log(`Token: ${tokenId}`);
+    console.log(`From: ${formatAddress(fromAddress)}`);
+    console.log(`Token Amount: ${tokenAmount}`);
+    console.log(`USDC Amount: ${formatUnits(usdcAmount, 6)} USDC`);
+    console.log(`Contract USDC Before: ${formatUnits(contractBalance, 6)} USDC\n`);
+
+    if (args.dryRun) {
+      const result = await paybackTokens(nftContract, fromAddress, tokenId, BigInt(tokenAmount), usdcAmount, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      const holderBalance = await nftContract.balanceOf(fromAddress, tokenId);
+      if (BigInt(tokenAmount) > holderBalance) {
+        throw new Error(`Holder only has ${holderBalance} tokens, but you requested ${tokenAmount}`);
+      }
+
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "treasurer", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "payback", [fromAddress, tokenId, tokenAmount, usdcAmount])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip("Confirm payback transaction?", args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    console.log("📝 Executing payback transaction...");
+    const result = await paybackTokens(nftContract, fromAddress, tokenId, BigInt(tokenAmount), usdcAmount);
+
+    if (!result.success) {
+      throw new Error(`Payback failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+    console.log(`📋 Contract USDC: ${formatUnits(result.newContractBalance!, 6)} USDC`);
+    console.log(`👤 Holder ${tokenId} tokens: ${result.newHolderBalance}`);
+  });
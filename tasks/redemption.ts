@@ -0,0 +1,190 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam } from "./utils";
+
+type RedemptionAction = 'accept' | 'reject' | 'accept-counter' | 'cancel';
+
+/**
+ * Show a request, confirm and run one of the actions that take only a request ID.
+ */
+async function runRedemptionAction(
+  hre: HardhatRuntimeEnvironment,
+  action: RedemptionAction,
+  args: { request?: number; yes: boolean }
+): Promise<void> {
+  const { askPositiveInteger } = await import("../scripts/utils/prompts");
+  const { formatAddress } = await import("../scripts/utils/address-book");
+  const redemption = await import("../scripts/domain/redemption");
+
+  const { nftContract } = await loadCurrentContract(hre);
+  const [signer] = await hre.ethers.getSigners();
+  console.log(`👤 Signer: ${formatAddress(signer.address)}\n`);
+
+  const redemptionId = await resolveParam(args.request, "request", () =>
+    askPositiveInteger("Enter redemption request ID: ")
+  );
+
+  const request = await redemption.getRedemption(nftContract, redemptionId);
+  if (!request) {
+    throw new Error(`Redemption #${redemptionId} does not exist`);
+  }
+  redemption.printRedemptions([request], formatAddress);
+  console.log("");
+
+  const prompts: Record<RedemptionAction, string> = {
+    'accept': `Accept and pay ${hre.ethers.formatUnits(request.requestedUsdc, 6)} USDC?`,
+    'reject': "Reject and return the tokens to the holder?",
+    'accept-counter': `Accept the counter-offer of ${hre.ethers.formatUnits(request.counterUsdc, 6)} USDC?`,
+    'cancel': "Cancel and get the tokens back?"
+  };
+
+  if (!(await confirmOrSkip(prompts[action], args.yes))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  const run = {
+    'accept': redemption.acceptRedemption,
+    'reject': redemption.rejectRedemption,
+    'accept-counter': redemption.acceptCounterOffer,
+    'cancel': redemption.cancelRedemption
+  }[action];
+
+  const result = await run(nftContract, redemptionId, signer);
+  if (!result.success) {
+    throw new Error(`Redemption ${action} failed: ${result.error}`);
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+}
+
+task("sotd:redemptions", "List redemption requests")
+  .addOptionalParam("holder", "Only requests of this holder (address or address book name)")
+  .addFlag("open", "Only pending and countered requests")
+  .setAction(async (args: { holder?: string; open: boolean }, hre) => {
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { listRedemptions, printRedemptions } = await import("../scripts/domain/redemption");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    const redemptions = await listRedemptions(nftContract, {
+      holder: args.holder ? resolveAddress(args.holder) : undefined,
+      openOnly: args.open
+    });
+
+    printRedemptions(redemptions, formatAddress);
+  });
+
+task("sotd:redemption-request", "Offer tokens for buyback at a price (holder)")
+  .addOptionalParam("id", "Token ID to redeem", undefined, positiveInt)
+  .addOptionalParam("amount", "Amount of tokens to redeem", undefined, positiveInt)
+  .addOptionalParam("usdc", "Asked USDC amount (e.g. 10.5)")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; amount?: number; usdc?: string; yes: boolean }, hre) => {
+    const { askTokenInfo, askPositiveInteger, parseUsdcAmount } = await import("../scripts/utils/prompts");
+    const { formatAddress } = await import("../scripts/utils/address-book");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { requestRedemption } = await import("../scripts/domain/redemption");
+
+    console.log("🙋 Redemption Request\n");
+    const { nftContract } = await loadCurrentContract(hre);
+    const [signer] = await hre.ethers.getSigners();
+
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+    const tokenAmount = await resolveParam(args.amount, "amount", () =>
+      askPositiveInteger("Enter amount of tokens to redeem: ")
+    );
+    const requestedUsdc = parseUsdcAmount(await resolveParam(args.usdc, "usdc", () =>
+      getUserInput("Enter asked USDC amount (e.g., 10.5 for 10.5 USDC): ")
+    ));
+
+    console.log("\n📋 Request Summary");
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    console.log(`Holder: ${formatAddress(signer.address)}`);
+    console.log(`Token: ${tokenId}`);
+    console.log(`Token Amount: ${tokenAmount}`);
+    console.log(`Asked: ${hre.ethers.formatUnits(requestedUsdc, 6)} USDC`);
+    console.log("The tokens stay locked in the contract until the request is settled, rejected or cancelled.\n");
+
+    if (!(await confirmOrSkip("Submit redemption request?", args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await requestRedemption(nftContract, tokenId, BigInt(tokenAmount), requestedUsdc, signer);
+    if (!result.success) {
+      throw new Error(`Redemption request failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Redemption #${result.redemptionId} submitted in block ${result.blockNumber}`);
+  });
+
+task("sotd:redemption-counter", "Offer a different price for a redemption request (treasurer)")
+  .addOptionalParam("request", "Redemption request ID", undefined, positiveInt)
+  .addOptionalParam("usdc", "Offered USDC amount (e.g. 10.5)")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { request?: number; usdc?: string; yes: boolean }, hre) => {
+    const { askPositiveInteger, parseUsdcAmount } = await import("../scripts/utils/prompts");
+    const { formatAddress } = await import("../scripts/utils/address-book");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { counterRedemption, getRedemption, printRedemptions } = await import("../scripts/domain/redemption");
+
+    const { nftContract } = await loadCurrentContract(hre);
+
+    const redemptionId = await resolveParam(args.request, "request", () =>
+      askPositiveInteger("Enter redemption request ID: ")
+    );
+
+    const request = await getRedemption(nftContract, redemptionId);
+    if (!request) {
+      throw new Error(`Redemption #${redemptionId} does not exist`);
+    }
+    printRedemptions([request], formatAddress);
+    console.log("");
+
+    const counterUsdc = parseUsdcAmount(await resolveParam(args.usdc, "usdc", () =>
+      getUserInput("Enter offered USDC amount (e.g., 10.5 for 10.5 USDC): ")
+    ));
+
+    if (!(await confirmOrSkip(`Counter-offer ${hre.ethers.formatUnits(counterUsdc, 6)} USDC?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await counterRedemption(nftContract, redemptionId, counterUsdc);
+    if (!result.success) {
+      throw new Error(`Counter-offer failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+  });
+
+task("sotd:redemption-accept", "Accept a redemption request and pay the asked price (treasurer)")
+  .addOptionalParam("request", "Redemption request ID", undefined, positiveInt)
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { request?: number; yes: boolean }, hre) => {
+    await runRedemptionAction(hre, 'accept', args);
+  });
+
+task("sotd:redemption-reject", "Reject a redemption request and return the tokens (treasurer)")
+  .addOptionalParam("request", "Redemption request ID", undefined, positiveInt)
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { request?: number; yes: boolean }, hre) => {
+    await runRedemptionAction(hre, 'reject', args);
+  });
+
+task("sotd:redemption-accept-counter", "Accept the treasurer's counter-offer (holder)")
+  .addOptionalParam("request", "Redemption request ID", undefined, positiveInt)
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { request?: number; yes: boolean }, hre) => {
+    await runRedemptionAction(hre, 'accept-counter', args);
+  });
+
+task("sotd:redemption-cancel", "Cancel an open redemption request and get the tokens back (holder)")
+  .addOptionalParam("request", "Redemption request ID", undefined, positiveInt)
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { request?: number; yes: boolean }, hre) => {
+    await runRedemptionAction(hre, 'cancel', args);
+  });
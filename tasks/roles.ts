@@ -0,0 +1,92 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { confirmOrSkip, loadCurrentContract, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:roles", "List the accounts holding each role")
+  .setAction(async (_args, hre) => {
+    const { getRoleMembers, ROLE_LABELS, ROLE_NAMES } = await import("../scripts/domain/roles");
+    const { formatAddress } = await import("../scripts/utils/address-book");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    const members = await getRoleMembers(nftContract);
+
+    console.log("\n🔑 Roles");
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    for (const role of ROLE_NAMES) {
+      console.log(`${ROLE_LABELS[role]}:`);
+      if (members[role].length === 0) {
+        console.log("   (nobody)");
+      }
+      for (const account of members[role]) {
+        const isContract = await hre.ethers.provider.getCode(account) !== "0x";
+        console.log(`   ${formatAddress(account)}${isContract ? " (contract)" : ""}`);
+      }
+    }
+  });
+
+task("sotd:grant-role", "Grant a role to an account (admin)")
+  .addOptionalParam("role", "Role to grant: admin, minter, treasurer, metadata, pauser or compliance")
+  .addOptionalParam("account", "Address or address book name")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { role?: string; account?: string; safeBatch?: string; yes: boolean }, hre) => {
+    await changeRole(hre, args, true);
+  });
+
+task("sotd:revoke-role", "Revoke a role from an account (admin)")
+  .addOptionalParam("role", "Role to revoke: admin, minter, treasurer, metadata, pauser or compliance")
+  .addOptionalParam("account", "Address or address book name")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { role?: string; account?: string; safeBatch?: string; yes: boolean }, hre) => {
+    await changeRole(hre, args, false);
+  });
+
+async function changeRole(
+  hre: HardhatRuntimeEnvironment,
+  args: { role?: string; account?: string; safeBatch?: string; yes: boolean },
+  grant: boolean
+): Promise<void> {
+  const { getUserInput } = await import("../scripts/utils/get-user-input");
+  const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+  const { grantRole, parseRoleName, revokeRole, ROLE_LABELS, ROLE_NAMES, ROLES } = await import("../scripts/domain/roles");
+  const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+
+  const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+  const role = parseRoleName(await resolveParam(args.role, "role", () =>
+    getUserInput(`Enter role (${ROLE_NAMES.join(", ")}): `)
+  ));
+  const account = resolveAddress(await resolveParam(args.account, "account", () =>
+    getUserInput("Enter account address or address book name: ")
+  ));
+  const action = grant ? `Grant the ${ROLE_LABELS[role]} role to` : `Revoke the ${ROLE_LABELS[role]} role from`;
+
+  if (args.safeBatch) {
+    await writeToSafeBatch(hre, nftContract, args.safeBatch, "admin", [
+      encodeSafeTransaction(contractAddress, nftContract.interface, grant ? "grantRole" : "revokeRole", [ROLES[role], account])
+    ]);
+    return;
+  }
+
+  if (!(await confirmOrSkip(`${action} ${formatAddress(account)}?`, args.yes))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  const result = grant
+    ? await grantRole(nftContract, role, account)
+    : await revokeRole(nftContract, role, account);
+
+  if (!result.success) {
+    throw new Error(`Role change failed: ${result.error}`);
+  }
+
+  if (result.unchanged) {
+    console.log(`ℹ️  ${formatAddress(account)} ${grant ? "already has" : "does not have"} the ${ROLE_LABELS[role]} role`);
+    return;
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ ${grant ? "Granted" : "Revoked"} in block ${result.blockNumber}`);
+}
@@ -0,0 +1,153 @@
+import { task } from "hardhat/config";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:royalties", "Show the ERC-2981 royalty settings")
+  .addFlag("writeMetadata", "Write the default royalty into metadata/manifest.json and contract.json")
+  .setAction(async (args: { writeMetadata: boolean }, hre) => {
+    const { getRoyaltySettings, printRoyaltySettings, writeCollectionRoyalty } = await import("../scripts/domain/royalties");
+    const { formatAddress } = await import("../scripts/utils/address-book");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    const settings = await getRoyaltySettings(nftContract);
+    printRoyaltySettings(settings, formatAddress);
+
+    if (args.writeMetadata) {
+      if (!settings.defaultRoyalty) {
+        throw new Error("Default royalty unknown, nothing to write");
+      }
+      const changed = writeCollectionRoyalty(settings.defaultRoyalty);
+      console.log(changed
+        ? "\n📝 Updated metadata/manifest.json and contract.json. Republish them for marketplaces to pick up the change."
+        : "\n✅ metadata/manifest.json is up to date");
+    }
+  });
+
+task("sotd:royalty-default", "Set the default royalty for secondary sales (admin)")
+  .addOptionalParam("receiver", "Address or address book name receiving royalties")
+  .addOptionalParam("percent", "Royalty percentage, e.g. 5 or 2.5")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { receiver?: string; percent?: string; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { formatRoyalty, parseRoyaltyPercent, setDefaultRoyalty, writeCollectionRoyalty } = await import("../scripts/domain/royalties");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const receiver = resolveAddress(await resolveParam(args.receiver, "receiver", () =>
+      getUserInput("Enter royalty receiver address or address book name: ")
+    ));
+    const feeBasisPoints = parseRoyaltyPercent(await resolveParam(args.percent, "percent", () =>
+      getUserInput("Enter royalty percentage (e.g. 5 for 5%): ")
+    ));
+
+    if (args.dryRun) {
+      const result = await setDefaultRoyalty(nftContract, receiver, feeBasisPoints, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "admin", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "setDefaultRoyalty", [receiver, feeBasisPoints])
+      ]);
+      console.log("   Run sotd:royalties --write-metadata once the Safe has executed it.");
+      return;
+    }
+
+    if (!(await confirmOrSkip(`Set the default royalty to ${formatRoyalty(feeBasisPoints)} paid to ${formatAddress(receiver)}?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await setDefaultRoyalty(nftContract, receiver, feeBasisPoints);
+
+    if (!result.success) {
+      throw new Error(`Setting the royalty failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Default royalty set in block ${result.blockNumber}`);
+
+    if (writeCollectionRoyalty({ receiver, feeBasisPoints })) {
+      console.log("📝 Updated metadata/manifest.json and contract.json. Republish them for marketplaces to pick up the change.");
+    }
+  });
+
+task("sotd:royalty-token", "Override the royalty of one token ID, or reset it to the default (admin)")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addOptionalParam("receiver", "Address or address book name receiving royalties")
+  .addOptionalParam("percent", "Royalty percentage, e.g. 5 or 2.5")
+  .addFlag("reset", "Remove the override so the default royalty applies again")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: {
+    id?: number;
+    receiver?: string;
+    percent?: string;
+    reset: boolean;
+    safeBatch?: string;
+    dryRun: boolean;
+    yes: boolean;
+  }, hre) => {
+    const { askTokenInfo } = await import("../scripts/utils/prompts");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { formatAddress, resolveAddress } = await import("../scripts/utils/address-book");
+    const { formatRoyalty, parseRoyaltyPercent, setTokenRoyalty } = await import("../scripts/domain/royalties");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+    const royalty = args.reset ? undefined : {
+      receiver: resolveAddress(await resolveParam(args.receiver, "receiver", () =>
+        getUserInput("Enter royalty receiver address or address book name: ")
+      )),
+      feeBasisPoints: parseRoyaltyPercent(await resolveParam(args.percent, "percent", () =>
+        getUserInput("Enter royalty percentage (e.g. 5 for 5%): ")
+      ))
+    };
+
+    if (args.dryRun) {
+      const result = await setTokenRoyalty(nftContract, tokenId, royalty, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "admin", [
+        royalty
+          ? encodeSafeTransaction(contractAddress, nftContract.interface, "setTokenRoyalty", [tokenId, royalty.receiver, royalty.feeBasisPoints])
+          : encodeSafeTransaction(contractAddress, nftContract.interface, "resetTokenRoyalty", [tokenId])
+      ]);
+      return;
+    }
+
+    const prompt = royalty
+      ? `Set the royalty of token ${tokenId} to ${formatRoyalty(royalty.feeBasisPoints)} paid to ${formatAddress(royalty.receiver)}?`
+      : `Reset token ${tokenId} to the default royalty?`;
+    if (!(await confirmOrSkip(prompt, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await setTokenRoyalty(nftContract, tokenId, royalty);
+
+    if (!result.success) {
+      throw new Error(`Setting the royalty failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Token ${tokenId} royalty updated in block ${result.blockNumber}`);
+  });
@@ -0,0 +1,33 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import { loadCurrentContract } from "./utils";
+
+task("sotd:snapshot", "Write the holders of every token ID at a given block to JSON or CSV")
+  .addOptionalParam("block", "Record date block (default: latest block)", undefined, types.int)
+  .addOptionalParam("fromBlock", "Block to scan events from (default: deployment block)", undefined, types.int)
+  .addOptionalParam("out", "Output file, .json or .csv (default: snapshots/snapshot-<block>.json)")
+  .setAction(async (args: { block?: number; fromBlock?: number; out?: string }, hre) => {
+    const { getHolderSnapshot, printHolderSnapshot, writeSnapshot } = await import("../scripts/domain/holder-snapshot");
+
+    console.log("📸 Holder Snapshot\n");
+    const { nftContract } = await loadCurrentContract(hre);
+
+    console.log("🔍 Replaying transfer events...");
+    const result = await getHolderSnapshot(nftContract, { blockNumber: args.block, fromBlock: args.fromBlock });
+
+    if (!result.success || !result.data) {
+      throw new Error(`Failed to take snapshot: ${result.error}`);
+    }
+
+    const snapshot = result.data;
+    console.log("");
+    printHolderSnapshot(snapshot);
+
+    const outputPath = args.out ?? path.join("snapshots", `snapshot-${snapshot.blockNumber}.json`);
+    writeSnapshot(snapshot, outputPath);
+    console.log(`\n📝 Snapshot saved to: ${outputPath}`);
+
+    if (snapshot.supplyChecks.some(check => !check.matches)) {
+      throw new Error("Replayed totals do not match the on-chain supply. Scan events from an earlier block.");
+    }
+  });
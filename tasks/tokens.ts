@@ -0,0 +1,258 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { confirmOrSkip, loadCurrentContract, positiveInt, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:create-token", "Create a new token type")
+  .addOptionalParam("id", "Token ID of the new token", undefined, positiveInt)
+  .addOptionalParam("name", "Token name, e.g. PLATINUM")
+  .addOptionalParam("description", "Token description")
+  .addOptionalParam("maxSupply", "Maximum supply", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: {
+    id?: number;
+    name?: string;
+    description?: string;
+    maxSupply?: number;
+    safeBatch?: string;
+    yes: boolean;
+  }, hre) => {
+    const { askPositiveInteger } = await import("../scripts/utils/prompts");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { createToken, validateNewToken } = await import("../scripts/domain/create-token");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+
+    console.log("🆕 Create Token\n");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const token = {
+      tokenId: await resolveParam(args.id, "id", () => askPositiveInteger("Enter new token ID: ")),
+      name: (await resolveParam(args.name, "name", () => getUserInput("Enter token name: "))).trim(),
+      description: (await resolveParam(args.description, "description", () => getUserInput("Enter token description: "))).trim(),
+      maxSupply: BigInt(await resolveParam(args.maxSupply, "max-supply", () => askPositiveInteger("Enter max supply: ")))
+    };
+
+    const validationError = await validateNewToken(nftContract, token);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    console.log("\n📋 Summary:");
+    console.log(`Token ID: ${token.tokenId}`);
+    console.log(`Name: ${token.name}`);
+    console.log(`Description: ${token.description}`);
+    console.log(`Max Supply: ${token.maxSupply}\n`);
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "admin", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "createToken", [token.tokenId, token.name, token.description, token.maxSupply])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`Create token ${token.tokenId} (${token.name})?`, args.yes))) {
+      console.log("❌ Creation cancelled.");
+      return;
+    }
+
+    const result = await createToken(nftContract, token);
+
+    if (!result.success) {
+      throw new Error(`Token creation failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Token ${token.tokenId} created in block ${result.blockNumber}`);
+  });
+
+task("sotd:token-catalog", "List every token type with its supply and lifecycle state")
+  .setAction(async (_args, hre) => {
+    const { getTokenCatalog, printTokenCatalog } = await import("../scripts/domain/token-catalog");
+
+    const { nftContract } = await loadCurrentContract(hre);
+    printTokenCatalog(await getTokenCatalog(nftContract));
+  });
+
+task("sotd:token-deactivate", "Retire a token type so no more can be minted; holders keep and trade theirs (admin)")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    await switchTokenActive(hre, args, false);
+  });
+
+task("sotd:token-reactivate", "Allow minting of a retired token type again (admin)")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    await switchTokenActive(hre, args, true);
+  });
+
+task("sotd:token-max-supply", "Raise or lower the max supply of a token type (admin)")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addOptionalParam("maxSupply", "New max supply, at least the minted supply", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; maxSupply?: number; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { askPositiveInteger, askTokenInfo } = await import("../scripts/utils/prompts");
+    const { setMaxSupply } = await import("../scripts/domain/token-catalog");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+    const maxSupply = BigInt(await resolveParam(args.maxSupply, "max-supply", () => askPositiveInteger("Enter new max supply: ")));
+
+    if (args.dryRun) {
+      const result = await setMaxSupply(nftContract, tokenId, maxSupply, undefined, { dryRun: true });
+      if (result.unchanged) {
+        console.log(`ℹ️  Token ${tokenId} already has a max supply of ${maxSupply}`);
+        return;
+      }
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "admin", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "setMaxSupply", [tokenId, maxSupply])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`Set the max supply of token ${tokenId} to ${maxSupply}?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await setMaxSupply(nftContract, tokenId, maxSupply);
+
+    if (!result.success) {
+      throw new Error(`Changing the max supply failed: ${result.error}`);
+    }
+    if (result.unchanged) {
+      console.log(`ℹ️  Token ${tokenId} already has a max supply of ${maxSupply}`);
+      return;
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Max supply of token ${tokenId} set to ${maxSupply} in block ${result.blockNumber}`);
+  });
+
+task("sotd:token-freeze-supply", "Lock the max supply of a token type for good; this cannot be undone (admin)")
+  .addOptionalParam("id", "Token ID", undefined, positiveInt)
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { id?: number; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { askTokenInfo } = await import("../scripts/utils/prompts");
+    const { freezeSupply } = await import("../scripts/domain/token-catalog");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+
+    if (args.dryRun) {
+      const result = await freezeSupply(nftContract, tokenId, undefined, { dryRun: true });
+      if (result.unchanged) {
+        console.log(`ℹ️  The max supply of token ${tokenId} is already frozen`);
+        return;
+      }
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "admin", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "freezeSupply", [tokenId])
+      ]);
+      return;
+    }
+
+    const { maxSupply } = await nftContract.getTokenInfo(tokenId);
+    if (!(await confirmOrSkip(`Freeze the max supply of token ${tokenId} at ${maxSupply}? This cannot be undone.`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await freezeSupply(nftContract, tokenId);
+
+    if (!result.success) {
+      throw new Error(`Freezing the supply failed: ${result.error}`);
+    }
+    if (result.unchanged) {
+      console.log(`ℹ️  The max supply of token ${tokenId} is already frozen`);
+      return;
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`🧊 Max supply of token ${tokenId} frozen at ${maxSupply} in block ${result.blockNumber}`);
+  });
+
+async function switchTokenActive(
+  hre: HardhatRuntimeEnvironment,
+  args: { id?: number; safeBatch?: string; dryRun: boolean; yes: boolean },
+  active: boolean
+): Promise<void> {
+  const { askTokenInfo } = await import("../scripts/utils/prompts");
+  const { setTokenActive } = await import("../scripts/domain/token-catalog");
+  const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+  const { printDryRun } = await import("../scripts/domain/simulation");
+
+  const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+  const tokenId = await resolveParam(args.id, "id", async () => (await askTokenInfo(nftContract)).tokenId);
+  const state = active ? "active" : "retired";
+
+  if (args.dryRun) {
+    const result = await setTokenActive(nftContract, tokenId, active, undefined, { dryRun: true });
+    if (result.unchanged) {
+      console.log(`ℹ️  Token ${tokenId} is already ${state}`);
+      return;
+    }
+    await printDryRun(result);
+    if (!result.success) {
+      throw new Error(`Dry run failed: ${result.error}`);
+    }
+    return;
+  }
+
+  if (args.safeBatch) {
+    await writeToSafeBatch(hre, nftContract, args.safeBatch, "admin", [
+      encodeSafeTransaction(contractAddress, nftContract.interface, active ? "reactivateToken" : "deactivateToken", [tokenId])
+    ]);
+    return;
+  }
+
+  const prompt = active ? `Allow minting of token ${tokenId} again?` : `Retire token ${tokenId}? No more can be minted until it is reactivated.`;
+  if (!(await confirmOrSkip(prompt, args.yes))) {
+    console.log("❌ Transaction cancelled");
+    return;
+  }
+
+  const result = await setTokenActive(nftContract, tokenId, active);
+
+  if (!result.success) {
+    throw new Error(`${active ? "Reactivating" : "Retiring"} the token failed: ${result.error}`);
+  }
+  if (result.unchanged) {
+    console.log(`ℹ️  Token ${tokenId} is already ${state}`);
+    return;
+  }
+
+  console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+  console.log(`✅ Token ${tokenId} is now ${state} (block ${result.blockNumber})`);
+}
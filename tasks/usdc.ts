@@ -0,0 +1,164 @@
+import { task } from "hardhat/config";
+import { confirmOrSkip, findSafeForRole, loadCurrentContract, resolveParam, writeToSafeBatch } from "./utils";
+
+task("sotd:add-usdc", "Add USDC from the treasurer wallet to the contract")
+  .addOptionalParam("usdc", "USDC amount to add (e.g. 10.5)")
+  .addOptionalParam("safeBatch", "Append the approval and deposit to this Safe Transaction Builder batch file instead of sending them")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { usdc?: string; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { parseUsdcAmount } = await import("../scripts/utils/prompts");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { addUSDC } = await import("../scripts/domain/add-usdc");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+    const { formatUnits } = hre.ethers;
+
+    console.log("💰 Adding USDC to Contract\n");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const amount = parseUsdcAmount(await resolveParam(args.usdc, "usdc", () =>
+      getUserInput("Enter USDC amount to add: ")
+    ));
+
+    if (args.dryRun) {
+      const result = await addUSDC(nftContract, amount, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      // The Safe deposits from its own balance, so it has to approve the contract first
+      const safeAddress = await findSafeForRole(hre, nftContract, "treasurer");
+      const usdcContract = await hre.ethers.getContractAt("IERC20", await nftContract.usdcAddress());
+      const safeBalance = await usdcContract.balanceOf(safeAddress);
+      if (amount > safeBalance) {
+        console.log(`⚠️  Safe only holds ${formatUnits(safeBalance, 6)} USDC, the batch will fail unless it is funded first.`);
+      }
+
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "treasurer", [
+        encodeSafeTransaction(await usdcContract.getAddress(), usdcContract.interface, "approve", [contractAddress, amount]),
+        encodeSafeTransaction(contractAddress, nftContract.interface, "addUSDC", [amount])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`Add ${formatUnits(amount, 6)} USDC to ${contractAddress}?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    console.log("📝 Adding USDC to contract...");
+    const result = await addUSDC(nftContract, amount);
+
+    if (!result.success) {
+      throw new Error(`Adding USDC failed: ${result.error}`);
+    }
+
+    if (result.approvalHash) {
+      console.log(`🔐 Approval hash: ${result.approvalHash}`);
+    }
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+    console.log(`👤 Wallet USDC: ${formatUnits(result.newWalletBalance!, 6)} USDC`);
+    console.log(`📋 Contract USDC: ${formatUnits(result.newContractBalance!, 6)} USDC`);
+  });
+
+task("sotd:withdraw-usdc", "Withdraw USDC from the contract to the treasurer wallet")
+  .addOptionalParam("usdc", "USDC amount to withdraw (e.g. 10.5)")
+  .addOptionalParam("safeBatch", "Append the transaction to this Safe Transaction Builder batch file instead of sending it")
+  .addFlag("dryRun", "Simulate the transaction and show the expected changes without sending it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { usdc?: string; safeBatch?: string; dryRun: boolean; yes: boolean }, hre) => {
+    const { parseUsdcAmount } = await import("../scripts/utils/prompts");
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { withdrawUSDC } = await import("../scripts/domain/withdraw-usdc");
+    const { encodeSafeTransaction } = await import("../scripts/domain/safe-batch");
+    const { printDryRun } = await import("../scripts/domain/simulation");
+    const { formatUnits } = hre.ethers;
+
+    console.log("💸 Withdrawing USDC from Contract\n");
+    const { nftContract, contractAddress } = await loadCurrentContract(hre);
+
+    const amount = parseUsdcAmount(await resolveParam(args.usdc, "usdc", () =>
+      getUserInput("Enter USDC amount to withdraw: ")
+    ));
+
+    if (args.dryRun) {
+      const result = await withdrawUSDC(nftContract, amount, undefined, { dryRun: true });
+      await printDryRun(result);
+      if (!result.success) {
+        throw new Error(`Dry run failed: ${result.error}`);
+      }
+      return;
+    }
+
+    if (args.safeBatch) {
+      await writeToSafeBatch(hre, nftContract, args.safeBatch, "treasurer", [
+        encodeSafeTransaction(contractAddress, nftContract.interface, "withdrawUSDC", [amount])
+      ]);
+      return;
+    }
+
+    if (!(await confirmOrSkip(`Withdraw ${formatUnits(amount, 6)} USDC to your wallet?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    console.log("📝 Withdrawing USDC...");
+    const result = await withdrawUSDC(nftContract, amount);
+
+    if (!result.success) {
+      throw new Error(`Withdrawal failed: ${result.error}`);
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+    console.log(`👤 Wallet USDC: ${formatUnits(result.newWalletBalance!, 6)} USDC`);
+    console.log(`📋 Contract USDC: ${formatUnits(result.newContractBalance!, 6)} USDC`);
+  });
+
+task("sotd:set-usdc-address", "Set the USDC token address used by the contract")
+  .addOptionalParam("address", "New USDC token address")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(async (args: { address?: string; yes: boolean }, hre) => {
+    const { getUserInput } = await import("../scripts/utils/get-user-input");
+    const { setUSDCAddress, KNOWN_USDC_ADDRESSES } = await import("../scripts/domain/set-usdc-address");
+
+    console.log("💵 Setting USDC Address\n");
+    const { nftContract } = await loadCurrentContract(hre);
+
+    const currentUSDCAddress = await nftContract.usdcAddress();
+    console.log(`💵 Current USDC Address: ${currentUSDCAddress}\n`);
+
+    const newUSDCAddress = await resolveParam(args.address, "address", async () => {
+      console.log("🌐 Known USDC Addresses:");
+      for (const [network, address] of Object.entries(KNOWN_USDC_ADDRESSES)) {
+        console.log(`   ${network}: ${address}`);
+      }
+      return getUserInput("\nEnter new USDC address: ");
+    });
+
+    if (!(await confirmOrSkip(`Set USDC address to ${newUSDCAddress}?`, args.yes))) {
+      console.log("❌ Transaction cancelled");
+      return;
+    }
+
+    const result = await setUSDCAddress(nftContract, newUSDCAddress);
+
+    if (!result.success) {
+      throw new Error(`Setting USDC address failed: ${result.error}`);
+    }
+
+    if (result.unchanged) {
+      console.log("✅ USDC address is already set to the target address");
+      return;
+    }
+
+    console.log(`🔗 Transaction hash: ${result.transactionHash}`);
+    console.log(`✅ Transaction confirmed in block ${result.blockNumber}`);
+    console.log(`   New address: ${result.newAddress}`);
+  });
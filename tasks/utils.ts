@@ -0,0 +1,158 @@
+import { types } from "hardhat/config";
+import type { CLIArgumentType, HardhatRuntimeEnvironment } from "hardhat/types";
+import type { SecretOfTheDeepNFT } from "../typechain-types";
+import type { SafeBatchTransaction } from "../scripts/domain/safe-batch";
+import type { RoleName } from "../scripts/domain/roles";
+
+/**
+ * Task parameter type for token IDs, amounts and other counts. Like
+ * `types.int`, but rejects 0 and values too large to be exact, the same as
+ * askPositiveInteger does for prompted values.
+ */
+export const positiveInt: CLIArgumentType<number> = {
+  name: "positive int",
+  parse: (argName, strValue) => {
+    const value = types.int.parse(argName, strValue);
+    positiveInt.validate!(argName, value);
+    return value;
+  },
+  validate: (argName, value) => {
+    if (!Number.isSafeInteger(value) || value <= 0) {
+      const flag = argName.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+      throw new Error(`Invalid --${flag} ${value}. Please enter a positive number.`);
+    }
+  }
+};
+
+/**
+ * Use a task parameter if it was given, otherwise fall back to asking the user.
+ *
+ * Without a TTY (CI, shell pipelines) there is nobody to ask, so a missing
+ * parameter is an error instead.
+ *
+ * @param value - The parameter value from the command line
+ * @param flag - The command line flag, used in the error message
+ * @param ask - Interactive fallback
+ * @returns The resolved value
+ */
+export async function resolveParam<T>(
+  value: T | undefined,
+  flag: string,
+  ask: () => Promise<T>
+): Promise<T> {
+  if (value !== undefined) {
+    return value;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error(`Missing required parameter --${flag}`);
+  }
+
+  return ask();
+}
+
+/**
+ * Ask for confirmation unless --yes was given.
+ *
+ * @param prompt - The question to display, without the (y/N) suffix
+ * @param yes - Whether --yes was given
+ * @returns True if the action should proceed
+ */
+export async function confirmOrSkip(prompt: string, yes: boolean): Promise<boolean> {
+  if (yes) {
+    return true;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error("Confirmation required. Re-run with --yes to proceed non-interactively.");
+  }
+
+  const { askConfirmation } = await import("../scripts/utils/prompts");
+  return askConfirmation(prompt);
+}
+
+/**
+ * Attach to the deployment recorded for the connected network.
+ *
+ * @param hre - The Hardhat runtime environment
+ * @returns The contract instance and its address
+ */
+export async function loadCurrentContract(
+  hre: HardhatRuntimeEnvironment
+): Promise<{ nftContract: SecretOfTheDeepNFT; contractAddress: string; network: string }> {
+  const { getCurrentContract } = await import("../scripts/utils/get-current-contract");
+  const currentContract = await getCurrentContract();
+
+  console.log(`📋 Contract: ${currentContract.contractAddress}`);
+  console.log(`🌐 Network: ${currentContract.network}\n`);
+
+  const nftContract = await hre.ethers.getContractAt(
+    "SecretOfTheDeepNFT",
+    currentContract.contractAddress
+  ) as unknown as SecretOfTheDeepNFT;
+
+  return {
+    nftContract,
+    contractAddress: currentContract.contractAddress,
+    network: currentContract.network
+  };
+}
+
+/**
+ * Find the Safe that holds a role. A contract account among the role
+ * members is taken to be the Safe; fails if there is none.
+ *
+ * @param hre - The Hardhat runtime environment
+ * @param nftContract - The NFT contract
+ * @param role - The role the batched calls need
+ * @returns The address the batch is created for
+ */
+export async function findSafeForRole(
+  hre: HardhatRuntimeEnvironment,
+  nftContract: SecretOfTheDeepNFT,
+  role: RoleName
+): Promise<string> {
+  const { getRoleMembers, ROLE_LABELS } = await import("../scripts/domain/roles");
+
+  const members = (await getRoleMembers(nftContract))[role];
+  if (members.length === 0) {
+    throw new Error(`Nobody holds the ${ROLE_LABELS[role]} role`);
+  }
+
+  for (const member of members) {
+    if (await hre.ethers.provider.getCode(member) !== "0x") {
+      return member;
+    }
+  }
+
+  throw new Error(`No ${ROLE_LABELS[role]} is a Safe. Grant the ${ROLE_LABELS[role]} role to the Safe, then create the batch.`);
+}
+
+/**
+ * Append transactions to a Safe Transaction Builder batch file instead of
+ * sending them. The batch is created for the Safe holding the role the
+ * calls need.
+ *
+ * @param hre - The Hardhat runtime environment
+ * @param nftContract - The NFT contract
+ * @param filePath - The batch file, created if it does not exist
+ * @param role - The role the transactions need
+ * @param transactions - Transactions to append, in execution order
+ */
+export async function writeToSafeBatch(
+  hre: HardhatRuntimeEnvironment,
+  nftContract: SecretOfTheDeepNFT,
+  filePath: string,
+  role: RoleName,
+  transactions: SafeBatchTransaction[]
+): Promise<void> {
+  const { appendToSafeBatch } = await import("../scripts/domain/safe-batch");
+
+  const chainId = (await hre.ethers.provider.getNetwork()).chainId.toString();
+  const safeAddress = await findSafeForRole(hre, nftContract, role);
+
+  const batch = appendToSafeBatch(filePath, transactions, { chainId, safeAddress });
+
+  console.log(`🧾 Added ${transactions.length} transaction(s) to ${filePath} (${batch.transactions.length} in batch)`);
+  console.log(`   Import it in the Transaction Builder of Safe ${safeAddress} to review and sign.`);
+}
@@ -1,6 +1,28 @@
 import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import hre from "hardhat";
-import { SecretOfTheDeepNFT } from "../typechain-types";
+import type { ContractTransactionResponse, Filter } from "ethers";
+import { MockUSDC, SecretOfTheDeepNFT } from "../typechain-types";
+import { mintToMany } from "../scripts/domain/mint-to-many";
+import { executeBulkMint, parseBulkMintCsv, planBulkMint, writeBulkMintResults } from "../scripts/domain/bulk-mint";
+import { mintToWallet } from "../scripts/domain/mint-2-wallet";
+import { buildMetadataFiles, compareWithChain, loadManifest, tokenFileName } from "../scripts/domain/metadata-build";
+import { readPngSize, validateDeployedMetadata, validateLocalMetadata, validateMetadataJson } from "../scripts/domain/metadata-validation";
+import { startMetadataServer } from "../scripts/domain/metadata-server";
+import { packMetadataForIpfs, readCar, startLocalIpfsGateway } from "../scripts/domain/ipfs";
+import { getTokenMetadata } from "../scripts/domain/get-token-metadata";
+import { getTokenUriOverrides, setTokenUri, updateBaseURI, updateTokenMetadata } from "../scripts/domain/update-token-metadata";
+import { freezeSupply, getTokenCatalog, setMaxSupply, setTokenActive } from "../scripts/domain/token-catalog";
+import { checkTransfer, importAllowlist, parseAllowlistCsv } from "../scripts/domain/transfer-restrictions";
+import { computeProRataShares, distributeDividend, getTokenHolders, parseTokenWeights } from "../scripts/domain/distribute-dividend";
+import { getHolderSnapshot } from "../scripts/domain/holder-snapshot";
+import { appendToSafeBatch, calculateSafeBatchChecksum, encodeSafeTransaction, loadSafeBatch, type SafeBatchFile } from "../scripts/domain/safe-batch";
+import { readIndexedEvents, syncContractEvents } from "../scripts/domain/event-indexer";
+import { findSafeForRole } from "../tasks/utils";
+import { addDeployment, findDeployment, getCurrentContract, getDeployments, selectDeployment, updateDeployment } from "../scripts/utils/get-current-contract";
+import { addAddress, loadAddressBook, removeAddress, renameAddress, resolveAddress, validateAddressBook } from "../scripts/utils/address-book";
 
 describe("SecretOfTheDeepNFT", function () {
   let nftContract: SecretOfTheDeepNFT;
@@ -16,8 +38,13 @@ describe("SecretOfTheDeepNFT", function () {
   });
 
   describe("Deployment", function () {
-    it("Should set the right owner", async function () {
-      expect(await nftContract.owner()).to.equal(owner.address);
+    it("Should grant all roles to the deployer", async function () {
+      expect(await nftContract.hasRole(await nftContract.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await nftContract.hasRole(await nftContract.MINTER_ROLE(), owner.address)).to.be.true;
+      expect(await nftContract.hasRole(await nftContract.TREASURER_ROLE(), owner.address)).to.be.true;
+      expect(await nftContract.hasRole(await nftContract.METADATA_MANAGER_ROLE(), owner.address)).to.be.true;
+      expect(await nftContract.hasRole(await nftContract.PAUSER_ROLE(), owner.address)).to.be.true;
+      expect(await nftContract.hasRole(await nftContract.COMPLIANCE_ROLE(), owner.address)).to.be.true;
     });
 
     it("Should initialize with sample tokens", async function () {
@@ -65,7 +92,7 @@ describe("SecretOfTheDeepNFT", function () {
           "A rare crystal from the ocean depths",
           100
         )
-      ).to.be.revertedWithCustomError(nftContract, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
     });
 
     it("Should not allow creating token with existing ID", async function () {
@@ -96,7 +123,7 @@ describe("SecretOfTheDeepNFT", function () {
     it("Should not allow non-owner to mint", async function () {
       await expect(
         nftContract.connect(user1).mint(user1.address, 1, 10)
-      ).to.be.revertedWithCustomError(nftContract, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
     });
 
     it("Should not allow minting more than max supply", async function () {
@@ -136,6 +163,189 @@ describe("SecretOfTheDeepNFT", function () {
     });
   });
 
+  describe("Multi-recipient Minting", function () {
+    it("Should allow owner to mint to multiple recipients", async function () {
+      const tx = nftContract.mintToMany([user1.address, user2.address, user1.address], [1, 2, 3], [5, 10, 15]);
+
+      await expect(tx).to.emit(nftContract, "TokenMinted").withArgs(1, user1.address, 5);
+      await expect(tx).to.emit(nftContract, "TokenMinted").withArgs(2, user2.address, 10);
+      await expect(tx).to.emit(nftContract, "TokenMinted").withArgs(3, user1.address, 15);
+
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(5);
+      expect(await nftContract.balanceOf(user2.address, 2)).to.equal(10);
+      expect(await nftContract.balanceOf(user1.address, 3)).to.equal(15);
+      expect((await nftContract.getTokenInfo(2)).currentSupply).to.equal(10);
+    });
+
+    it("Should not allow multi-recipient minting with mismatched arrays", async function () {
+      await expect(
+        nftContract.mintToMany([user1.address, user2.address], [1, 2], [5])
+      ).to.be.revertedWith("Arrays length mismatch");
+
+      await expect(
+        nftContract.mintToMany([user1.address], [1, 2], [5, 10])
+      ).to.be.revertedWith("Arrays length mismatch");
+    });
+
+    it("Should revert the whole batch when the max supply is exceeded mid-batch", async function () {
+      const maxSupply = (await nftContract.getTokenInfo(1)).maxSupply;
+
+      await expect(
+        nftContract.mintToMany([user1.address, user2.address], [1, 1], [maxSupply - 1n, 2])
+      ).to.be.revertedWith("Exceeds max supply");
+
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(0);
+      expect((await nftContract.getTokenInfo(1)).currentSupply).to.equal(0);
+    });
+
+    it("Should mint to multiple recipients through the domain wrapper", async function () {
+      const result = await mintToMany(nftContract, [
+        { to: user1.address, tokenId: 1, amount: 2n },
+        { to: user2.address, tokenId: 1, amount: 3n }
+      ]);
+
+      expect(result.success).to.equal(true);
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(2);
+      expect(await nftContract.balanceOf(user2.address, 1)).to.equal(3);
+    });
+
+    it("Should reject a supply overflow in the domain wrapper before sending", async function () {
+      const maxSupply = (await nftContract.getTokenInfo(1)).maxSupply;
+
+      const result = await mintToMany(nftContract, [
+        { to: user1.address, tokenId: 1, amount: maxSupply },
+        { to: user2.address, tokenId: 1, amount: 1n }
+      ]);
+
+      expect(result.success).to.equal(false);
+      expect(result.error).to.contain("Would exceed max supply");
+      expect(result.transactionHash).to.equal(undefined);
+    });
+
+    it("Should not allow non-owner to mint to multiple recipients", async function () {
+      await expect(
+        nftContract.connect(user1).mintToMany([user1.address], [1], [1])
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Bulk Minting", function () {
+    it("Should report malformed rows by line", async function () {
+      const { rows, errors } = parseBulkMintCsv([
+        "address,tokenId,amount",
+        `${user1.address},1,2`,
+        "not-an-address,1,2",
+        `${user1.address},x,2`,
+        `${user1.address},1,0`,
+        `${user1.address},1`,
+        "# comment",
+        "",
+        `${hre.ethers.ZeroAddress},1,1`
+      ].join("\n"));
+
+      expect(rows).to.deep.equal([{ line: 2, address: user1.address, tokenId: 1, amount: 2n }]);
+      expect(errors.map(error => error.line)).to.deep.equal([3, 4, 5, 6, 9]);
+      expect(errors[2].message).to.contain("must be a positive integer");
+
+      const plan = await planBulkMint(nftContract, rows, errors);
+      expect(plan.errors).to.have.length(5);
+    });
+
+    it("Should reject a plan that exceeds the max supply without minting", async function () {
+      const { rows, errors } = parseBulkMintCsv(`${user1.address},1,20\n${user2.address},1,10\n${user2.address},99,1\n`);
+      const plan = await planBulkMint(nftContract, rows, errors);
+
+      expect(plan.tokenChecks).to.deep.equal([
+        { tokenId: 1, name: "GOLD", currentSupply: 0n, requested: 30n, maxSupply: 25n, fits: false }
+      ]);
+      expect(plan.errors.map(error => error.message)).to.deep.equal([
+        "Token 1 (GOLD): 30 requested, but only 25 of 25 left",
+        "Token ID 99 does not exist"
+      ]);
+
+      const result = await executeBulkMint(nftContract, plan);
+      expect(result.success).to.equal(false);
+      expect(result.rowResults).to.have.length(0);
+      expect((await nftContract.getTokenInfo(1)).currentSupply).to.equal(0);
+    });
+
+    it("Should write minted and failed rows to the results file", async function () {
+      const { rows, errors } = parseBulkMintCsv(`${user1.address},1,2\n${user2.address},2,3\n${user1.address},1,1\n`);
+      const plan = await planBulkMint(nftContract, rows, errors);
+      expect(plan.errors).to.have.length(0);
+      expect(plan.recipients.map(recipient => recipient.amounts)).to.deep.equal([[3n], [3n]]);
+
+      // Retired after planning, so the second recipient's transaction reverts
+      await nftContract.deactivateToken(2);
+      const result = await executeBulkMint(nftContract, plan);
+      expect(result.success).to.equal(false);
+      expect(result.mintedRecipients).to.equal(1);
+      expect(result.failedRecipients).to.equal(1);
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(3);
+
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sotd-bulk-mint-"));
+      try {
+        const resultsPath = writeBulkMintResults(result.rowResults, path.join(dir, "investors.csv"));
+        expect(resultsPath).to.equal(path.join(dir, "investors.results.csv"));
+
+        const lines = fs.readFileSync(resultsPath, "utf8").trim().split("\n");
+        expect(lines[0]).to.equal("line,address,tokenId,amount,status,transactionHash,error");
+        expect(lines.slice(1).map(line => line.split(",").slice(0, 5).join(","))).to.deep.equal([
+          `1,${user1.address},1,2,minted`,
+          `2,${user2.address},2,3,failed`,
+          `3,${user1.address},1,1,minted`
+        ]);
+        expect(lines[2]).to.contain("Token is not active");
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Dry Run", function () {
+    it("Should simulate a mint without sending it", async function () {
+      const result = await mintToWallet(nftContract, user1.address, 1, 5, owner, { dryRun: true });
+
+      expect(result.success).to.equal(true);
+      expect(result.dryRun).to.equal(true);
+      expect(result.simulation?.gasEstimate).to.be.greaterThan(0n);
+      expect(result.expectedChanges?.[0]).to.deep.include({ before: "0", after: "5" });
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(0);
+    });
+
+    it("Should decode revert reasons", async function () {
+      const maxSupply = (await nftContract.getTokenInfo(1)).maxSupply;
+
+      const overflow = await mintToWallet(nftContract, user1.address, 1, Number(maxSupply) + 1, owner, { dryRun: true });
+      expect(overflow.success).to.equal(false);
+      expect(overflow.simulation?.revertReason).to.equal("Exceeds max supply");
+
+      const notMinter = await mintToWallet(nftContract, user1.address, 1, 1, user1, { dryRun: true });
+      expect(notMinter.simulation?.revertReason).to.equal(
+        `AccessControlUnauthorizedAccount(${user1.address}, ${await nftContract.MINTER_ROLE()})`
+      );
+    });
+
+    it("Should preview a base URI change on the first token", async function () {
+      const options = { newBaseURI: "https://example.com/{id}.json", dryRun: true };
+      const preview = await updateTokenMetadata(nftContract, options, owner);
+      expect(preview.expectedChanges).to.deep.equal([{
+        label: "Token 1 URI",
+        before: await nftContract.uri(1),
+        after: `https://example.com/${(1).toString(16).padStart(64, "0")}.json`
+      }]);
+
+      // An override hides the base URI, so the preview shows no change
+      await nftContract.setTokenURI(1, "https://example.com/gold.json");
+      const overridden = await updateTokenMetadata(nftContract, options, owner);
+      expect(overridden.expectedChanges?.[0]).to.deep.include({
+        before: "https://example.com/gold.json",
+        after: "https://example.com/gold.json"
+      });
+      expect(await nftContract.baseURITemplate()).to.not.equal(options.newBaseURI);
+    });
+  });
+
   describe("Burning", function () {
     beforeEach(async function () {
       await nftContract.mint(user1.address, 1, 20);
@@ -202,7 +412,79 @@ describe("SecretOfTheDeepNFT", function () {
           "Updated Pearl",
           "Updated description"
         )
-      ).to.be.revertedWithCustomError(nftContract, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Token Lifecycle", function () {
+    it("Should block minting of a retired token but not transfers", async function () {
+      await nftContract.mint(user1.address, 2, 3);
+
+      await expect(nftContract.deactivateToken(2)).to.emit(nftContract, "TokenDeactivated").withArgs(2);
+      expect((await nftContract.getTokenInfo(2)).isActive).to.be.false;
+      expect((await nftContract.getTokenInfo(2)).exists).to.be.true;
+
+      await expect(nftContract.mint(user1.address, 2, 1)).to.be.revertedWith("Token is not active");
+      await expect(nftContract.mintToMany([user2.address], [2], [1])).to.be.revertedWith("Token is not active");
+      await nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 2, 1, "0x");
+      expect(await nftContract.balanceOf(user2.address, 2)).to.equal(1);
+      expect(await nftContract.uri(2)).to.not.equal("");
+      await expect(nftContract.createToken(2, "SILVER", "Silver", 10)).to.be.revertedWith("Token already exists");
+
+      await expect(nftContract.reactivateToken(2)).to.emit(nftContract, "TokenReactivated").withArgs(2);
+      await nftContract.mint(user1.address, 2, 1);
+      expect((await nftContract.getTokenInfo(2)).currentSupply).to.equal(4);
+    });
+
+    it("Should change max supply but never below the minted supply", async function () {
+      await nftContract.mint(user1.address, 3, 5);
+
+      await expect(nftContract.setMaxSupply(3, 8))
+        .to.emit(nftContract, "MaxSupplyUpdated").withArgs(3, 50, 8)
+        .and.to.emit(nftContract, "MetadataUpdate").withArgs(3);
+      await expect(nftContract.setMaxSupply(3, 4)).to.be.revertedWith("Max supply below current supply");
+      await expect(nftContract.mint(user1.address, 3, 4)).to.be.revertedWith("Exceeds max supply");
+
+      await nftContract.setMaxSupply(3, 100);
+      expect((await nftContract.getTokenInfo(3)).maxSupply).to.equal(100);
+    });
+
+    it("Should lock max supply for good once frozen", async function () {
+      await expect(nftContract.freezeSupply(1)).to.emit(nftContract, "SupplyFrozen").withArgs(1, 25);
+      expect((await nftContract.getTokenInfo(1)).supplyFrozen).to.be.true;
+
+      await expect(nftContract.setMaxSupply(1, 30)).to.be.revertedWith("Supply is frozen");
+      await expect(nftContract.freezeSupply(1)).to.be.revertedWith("Supply is frozen");
+    });
+
+    it("Should only let admins manage the lifecycle", async function () {
+      await expect(nftContract.connect(user1).deactivateToken(1))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.connect(user1).setMaxSupply(1, 30))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.connect(user1).freezeSupply(1))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.deactivateToken(99)).to.be.revertedWith("Token does not exist");
+    });
+
+    it("Should check lifecycle changes before sending", async function () {
+      expect((await setTokenActive(nftContract, 1, true)).unchanged).to.be.true;
+      expect((await setTokenActive(nftContract, 1, false)).success).to.be.true;
+
+      await nftContract.mint(user1.address, 2, 5);
+      const tooLow = await setMaxSupply(nftContract, 2, BigInt(4));
+      expect(tooLow.success).to.be.false;
+      expect(tooLow.error).to.include("below");
+
+      expect((await freezeSupply(nftContract, 2)).success).to.be.true;
+      expect((await setMaxSupply(nftContract, 2, BigInt(30))).error).to.include("frozen");
+
+      const catalog = await getTokenCatalog(nftContract);
+      expect(catalog.map(token => [token.tokenId, token.isActive, token.supplyFrozen])).to.deep.equal([
+        [1, false, false],
+        [2, true, true],
+        [3, true, false]
+      ]);
     });
   });
 
@@ -222,7 +504,7 @@ describe("SecretOfTheDeepNFT", function () {
           it("Should not allow non-owner to update base URI", async function () {
         await expect(
           nftContract.connect(user1).setBaseURI("https://newapi.example.com/metadata/")
-        ).to.be.revertedWithCustomError(nftContract, "OwnableUnauthorizedAccount");
+        ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
       });
     });
 
@@ -236,7 +518,7 @@ describe("SecretOfTheDeepNFT", function () {
       it("Should not allow non-owner to set collection name", async function () {
         await expect(
           nftContract.connect(user1).setName("New Name")
-        ).to.be.revertedWithCustomError(nftContract, "OwnableUnauthorizedAccount");
+        ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
       });
 
       it("Should allow owner to set collection symbol", async function () {
@@ -248,10 +530,1111 @@ describe("SecretOfTheDeepNFT", function () {
       it("Should not allow non-owner to set collection symbol", async function () {
         await expect(
           nftContract.connect(user1).setSymbol("NEW")
-        ).to.be.revertedWithCustomError(nftContract, "OwnableUnauthorizedAccount");
+        ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      });
+
+      it("Should keep the metadata manifest in line with the token names on chain", async function () {
+        const manifest = loadManifest();
+        const mismatches = await compareWithChain(nftContract, manifest);
+        expect(mismatches.filter(mismatch => mismatch.severity === 'error')).to.be.empty;
+      });
+
+      it("Should report a token name that differs from the manifest", async function () {
+        const manifest = loadManifest();
+        await nftContract.updateTokenInfo(1, "Renamed", "Renamed token");
+
+        const mismatches = await compareWithChain(nftContract, manifest);
+        expect(mismatches.some(mismatch => mismatch.tokenId === 1 && mismatch.field === 'name')).to.be.true;
+        expect(buildMetadataFiles(manifest).map(file => file.fileName)).to.include(tokenFileName(1));
+      });
+    });
+
+  describe("Token URI Overrides", function () {
+    it("Should serve a token's own URI instead of the template", async function () {
+      const template = await nftContract.baseURITemplate();
+      const templateUri = await nftContract.uri(2);
+      expect(templateUri).to.not.equal(template);
+
+      await expect(nftContract.setTokenURI(2, "ipfs://bafybeigold/silver.json"))
+        .to.emit(nftContract, "MetadataUpdate").withArgs(2)
+        .and.to.emit(nftContract, "URI").withArgs("ipfs://bafybeigold/silver.json", 2);
+
+      expect(await nftContract.uri(2)).to.equal("ipfs://bafybeigold/silver.json");
+      expect(await nftContract.uri(1)).to.not.equal(await nftContract.uri(2));
+      expect(await nftContract.baseURITemplate()).to.equal(template);
+
+      await nftContract.setTokenURI(2, "");
+      expect(await nftContract.uri(2)).to.equal(templateUri);
+      expect(await nftContract.tokenURIOverride(2)).to.equal("");
+    });
+
+    it("Should only let metadata managers override existing tokens", async function () {
+      await expect(nftContract.connect(user1).setTokenURI(1, "https://example.com/1.json"))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.setTokenURI(99, "https://example.com/99.json")).to.be.revertedWith("Token does not exist");
+    });
+
+    it("Should validate token URIs before sending", async function () {
+      const invalid = await setTokenUri(nftContract, 1, "not a uri");
+      expect(invalid.success).to.be.false;
+
+      const result = await setTokenUri(nftContract, 1, "https://example.com/gold.json");
+      expect(result.success).to.be.true;
+      expect(result.newUri).to.equal("https://example.com/gold.json");
+
+      const overrides = await getTokenUriOverrides(nftContract);
+      expect(overrides).to.deep.equal([{ tokenId: 1, name: "GOLD", uri: "https://example.com/gold.json" }]);
+
+      expect((await setTokenUri(nftContract, 1, undefined)).success).to.be.true;
+      expect(await getTokenUriOverrides(nftContract)).to.be.empty;
+    });
+  });
+
+  describe("Metadata Validation", function () {
+    it("Should accept the generated metadata files", async function () {
+      const result = await validateLocalMetadata(undefined, { checkImages: false });
+      expect(result.errorCount).to.equal(0);
+      expect(result.reports).to.have.length(3);
+    });
+
+    it("Should report missing fields and malformed attributes", async function () {
+      const issues = validateMetadataJson({
+        name: "GOLD",
+        image: "ftp://example.com/1.png",
+        attributes: [{ trait_type: "Tier", value: "Gold", display_type: "number" }, { trait_type: "Tier" }]
+      });
+      const fields = issues.filter(issue => issue.severity === 'error').map(issue => issue.field);
+
+      expect(fields).to.include.members(["description", "image", "attributes[0].value", "attributes[1].value"]);
+      expect(issues.some(issue => issue.severity === 'warning' && issue.field === "attributes[1].trait_type")).to.be.true;
+    });
+
+    it("Should read PNG dimensions", async function () {
+      const header = Buffer.from("89504e470d0a1a0a0000000d49484452000007b7000003e8", "hex");
+      expect(readPngSize(header)).to.deep.equal({ width: 1975, height: 1000 });
+      expect(readPngSize(Buffer.from("not a png at all, just some text"))).to.be.undefined;
+    });
+  });
+
+  describe("Metadata Server", function () {
+    it("Should serve token metadata with live supply", async function () {
+      const server = await startMetadataServer(nftContract, { port: 0 });
+      try {
+        await nftContract.mint(user1.address, 1, 4);
+        await nftContract.setBaseURI(server.baseURI);
+
+        const metadata = await (await fetch(await nftContract.uri(1))).json();
+        expect(metadata.name).to.equal("GOLD");
+        expect(metadata.image).to.equal(`${server.url}/images/${tokenFileName(1).replace(".json", ".png")}`);
+        expect(metadata.attributes).to.deep.include({ trait_type: "Current Supply", value: 4, max_value: 25, display_type: "number" });
+
+        const result = await validateDeployedMetadata(nftContract, { checkImages: false });
+        expect(result.errorCount).to.equal(0);
+
+        expect((await fetch(`${server.url}/${tokenFileName(99)}`)).status).to.equal(404);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe("IPFS Packaging", function () {
+    it("Should pack the metadata into a CAR file served through a gateway", async function () {
+      const carFile = path.join(os.tmpdir(), `sotd-metadata-${process.pid}.car`);
+      const packed = packMetadataForIpfs(carFile);
+      expect(packed.success).to.be.true;
+      expect(packed.baseURI).to.equal(`ipfs://${packed.rootCid}/{id}.json`);
+
+      const { gateway, close } = await startLocalIpfsGateway(carFile);
+      try {
+        await nftContract.setBaseURI(packed.baseURI!);
+
+        const result = await getTokenMetadata(nftContract, { tokenId: 2, ipfsGateway: gateway });
+        expect(result.tokens[0].accessible).to.be.true;
+        expect(result.tokens[0].metadata.name).to.equal("SILVER");
+        expect(result.tokens[0].metadata.image).to.equal(`ipfs://${packed.imagesCid}/${tokenFileName(2).replace(".json", ".png")}`);
+
+        const validation = await validateDeployedMetadata(nftContract, { ipfsGateway: gateway });
+        expect(validation.errorCount).to.equal(0);
+      } finally {
+        await close();
+        fs.unlinkSync(carFile);
+      }
+    });
+
+    it("Should produce the CIDs ipfs-car reports and read back the root", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sotd-ipfs-"));
+      const carFile = path.join(dir, "metadata.car");
+      try {
+        fs.copyFileSync(path.join(__dirname, "..", "metadata", "manifest.json"), path.join(dir, "manifest.json"));
+        fs.mkdirSync(path.join(dir, "images"));
+        fs.writeFileSync(path.join(dir, "images", "hello.txt"), "hello world\n");
+        // 1.5 MiB, so the file is split into chunks under a UnixFS file node
+        fs.writeFileSync(path.join(dir, "images", "large.bin"), Buffer.from(Array.from({ length: 1536 * 1024 }, (_, i) => i % 251)));
+
+        const packed = packMetadataForIpfs(carFile, dir);
+        expect(packed.success).to.be.true;
+        // `ipfs-car pack images` (ipfs-car 1.2.0) on the same folder
+        expect(packed.imagesCid).to.equal("bafybeib4ll6eof3gtpsgwmods2kbadw2ifblcgviqxi6rfzgw2xviqzjhq");
+        expect(readCar(carFile).root).to.equal(packed.rootCid);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("On-chain Metadata", function () {
+    const decode = (dataUri: string) => JSON.parse(Buffer.from(dataUri.split(",")[1], "base64").toString("utf8"));
+
+    it("Should serve the whole collection as data: URIs", async function () {
+      await nftContract.mint(user1.address, 1, 3);
+      await expect(nftContract.setOnChainMetadata(true))
+        .to.emit(nftContract, "BatchMetadataUpdate")
+        .withArgs(0, hre.ethers.MaxUint256);
+
+      const uri = await nftContract.uri(1);
+      expect(uri.startsWith("data:application/json;base64,")).to.be.true;
+
+      const metadata = decode(uri);
+      expect(metadata.name).to.equal("GOLD");
+      expect(metadata.attributes).to.deep.include({ trait_type: "Current Supply", display_type: "number", value: 3, max_value: 25 });
+
+      const svg = Buffer.from(metadata.image.split(",")[1], "base64").toString("utf8");
+      expect(svg).to.include(">GOLD<").and.to.include("3 / 25");
+
+      await nftContract.setOnChainMetadata(false);
+      expect(await nftContract.uri(1)).to.match(/^https:/);
+    });
+
+    it("Should switch a single token", async function () {
+      await expect(nftContract.setTokenOnChainMetadata(2, true))
+        .to.emit(nftContract, "MetadataUpdate")
+        .withArgs(2);
+
+      expect(await nftContract.uri(2)).to.match(/^data:/);
+      expect(await nftContract.uri(1)).to.match(/^https:/);
+      await expect(nftContract.setTokenOnChainMetadata(99, true)).to.be.revertedWith("Token does not exist");
+    });
+
+    it("Should escape names and apply a new image template", async function () {
+      await nftContract.updateTokenInfo(1, 'Say "hi" <b>', "back\\slash");
+      await nftContract.setImageTemplate("<svg><text>{name}: {supply}/{maxSupply}</text></svg>");
+      await nftContract.setOnChainMetadata(true);
+
+      const metadata = decode(await nftContract.uri(1));
+      expect(metadata.name).to.equal('Say "hi" <b>');
+      expect(metadata.description).to.equal("back\\slash");
+      expect(Buffer.from(metadata.image.split(",")[1], "base64").toString("utf8"))
+        .to.equal('<svg><text>Say "hi" &lt;b&gt;: 0/25</text></svg>');
+    });
+
+    it("Should escape control characters in a multi-line description", async function () {
+      const description = "Line one\n\tLine two\r\u0001";
+      await nftContract.updateTokenInfo(2, "SILVER", description);
+      await nftContract.setTokenOnChainMetadata(2, true);
+
+      const json = Buffer.from((await nftContract.uri(2)).split(",")[1], "base64").toString("utf8");
+      expect(json).to.include('"description":"Line one\\n\\tLine two\\u000d\\u0001"');
+      expect(JSON.parse(json).description).to.equal(description);
+    });
+
+    it("Should only allow metadata managers to switch modes", async function () {
+      await expect(nftContract.connect(user1).setOnChainMetadata(true))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.connect(user1).setTokenOnChainMetadata(1, true))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.connect(user1).setImageTemplate("<svg></svg>"))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should decode data: URIs in getTokenMetadata", async function () {
+      await nftContract.setOnChainMetadata(true);
+
+      const result = await getTokenMetadata(nftContract, { tokenId: 3 });
+      expect(result.tokens[0].accessible).to.be.true;
+      expect(result.tokens[0].metadata.name).to.equal("BRONZE");
+
+      const validation = await validateDeployedMetadata(nftContract);
+      expect(validation.errorCount).to.equal(0);
+      expect(validation.warningCount).to.equal(0);
+    });
+  });
+
+  describe("Dividends", function () {
+    let usdc: MockUSDC;
+
+    beforeEach(async function () {
+      const MockUSDC = await hre.ethers.getContractFactory("MockUSDC");
+      usdc = await MockUSDC.deploy();
+      await nftContract.setUSDCAddress(await usdc.getAddress());
+
+      await usdc.mint(owner.address, 1_000_000_000);
+      await usdc.approve(await nftContract.getAddress(), 1_000_000_000);
+      await nftContract.addUSDC(1_000_000_000);
+    });
+
+    it("Should pay a dividend to a single address", async function () {
+      await expect(
+        nftContract.payDividend(user1.address, 250_000)
+      ).to.emit(nftContract, "DividendPaid")
+        .withArgs(user1.address, 250_000);
+
+      expect(await usdc.balanceOf(user1.address)).to.equal(250_000);
+    });
+
+    it("Should pay dividends to multiple addresses in one transaction", async function () {
+      const tx = nftContract.payDividendBatch([user1.address, user2.address], [300_000, 700_000]);
+
+      await expect(tx).to.emit(nftContract, "DividendPaid").withArgs(user1.address, 300_000);
+      await expect(tx).to.emit(nftContract, "DividendPaid").withArgs(user2.address, 700_000);
+
+      expect(await usdc.balanceOf(user1.address)).to.equal(300_000);
+      expect(await usdc.balanceOf(user2.address)).to.equal(700_000);
+      expect(await nftContract.getUSDCBalance()).to.equal(1_000_000_000 - 1_000_000);
+    });
+
+    it("Should not allow batch payout with mismatched arrays", async function () {
+      await expect(
+        nftContract.payDividendBatch([user1.address, user2.address], [300_000])
+      ).to.be.revertedWith("Arrays length mismatch");
+    });
+
+    it("Should not allow batch payout exceeding the contract balance", async function () {
+      await expect(
+        nftContract.payDividendBatch([user1.address, user2.address], [600_000_000, 600_000_000])
+      ).to.be.revertedWith("Insufficient USDC balance");
+    });
+
+    it("Should not allow batch payout to the zero address", async function () {
+      await expect(
+        nftContract.payDividendBatch([user1.address, hre.ethers.ZeroAddress], [1, 1])
+      ).to.be.revertedWith("Invalid recipient address");
+    });
+
+    describe("Pro Rata Shares", function () {
+      const A = "0x1000000000000000000000000000000000000000";
+      const B = "0x2000000000000000000000000000000000000000";
+      const C = "0x3000000000000000000000000000000000000000";
+      const amounts = (distribution: ReturnType<typeof computeProRataShares>) =>
+        distribution.shares.map(share => [share.address, share.amount]);
+
+      it("Should hand the dust to the largest remainders", async function () {
+        // 10 * 1/7, 2/7 and 4/7 is 1.43, 2.86 and 5.71
+        const distribution = computeProRataShares([
+          { address: A, balances: { 1: 1n } },
+          { address: B, balances: { 1: 2n } },
+          { address: C, balances: { 1: 4n } }
+        ], 10n);
+
+        expect(distribution.dust).to.equal(2n);
+        expect(amounts(distribution)).to.deep.equal([[A, 1n], [B, 3n], [C, 6n]]);
+        expect(distribution.shares.reduce((sum, share) => sum + share.amount, 0n)).to.equal(10n);
+      });
+
+      it("Should break remainder ties by address", async function () {
+        const distribution = computeProRataShares([
+          { address: C, balances: { 1: 1n } },
+          { address: A, balances: { 1: 1n } },
+          { address: B, balances: { 1: 1n } }
+        ], 11n);
+
+        expect(distribution.dust).to.equal(2n);
+        expect(amounts(distribution)).to.deep.equal([[C, 3n], [A, 4n], [B, 4n]]);
+      });
+
+      it("Should weight balances per token ID", async function () {
+        const weights = parseTokenWeights("1:3,2:1");
+        expect(weights).to.deep.equal({ 1: 3n, 2: 1n });
+
+        const distribution = computeProRataShares([
+          { address: A, balances: { 1: 1n } },
+          { address: B, balances: { 2: 2n } },
+          { address: C, balances: { 1: 1n, 2: 1n } }
+        ], 900n, weights);
+
+        expect(distribution.totalWeightedUnits).to.equal(9n);
+        expect(distribution.shares.map(share => share.weightedUnits)).to.deep.equal([3n, 2n, 4n]);
+        expect(amounts(distribution)).to.deep.equal([[A, 300n], [B, 200n], [C, 400n]]);
+        expect(() => parseTokenWeights("1:3,2")).to.throw('Invalid weight "2"');
+      });
+
+      it("Should refuse a distribution without holders", async function () {
+        expect(() => computeProRataShares([], 100n)).to.throw("Selected token types have no holders");
+        expect(() => computeProRataShares([{ address: A, balances: { 1: 5n } }], 100n, parseTokenWeights("1:0")))
+          .to.throw("Selected token types have no holders");
+      });
+    });
+
+    it("Should credit tokens locked for a redemption to the holder who requested it", async function () {
+      await nftContract.mint(user1.address, 1, 6);
+      await nftContract.mint(user2.address, 1, 4);
+      await nftContract.connect(user1).requestRedemption(1, 3, 30_000_000);
+      await nftContract.connect(user2).requestRedemption(1, 2, 20_000_000);
+      const requestBlock = await hre.ethers.provider.getBlockNumber();
+      await nftContract.connect(user2).cancelRedemption(2);
+
+      const contractAddress = await nftContract.getAddress();
+      const deploymentBlock = (await nftContract.deploymentTransaction()!.wait())!.blockNumber;
+      const indexDir = path.join(__dirname, "..", ".event-index", "31337", contractAddress.toLowerCase());
+      fs.rmSync(indexDir, { recursive: true, force: true });
+
+      try {
+        // Before the cancellation both requests were still open
+        const snapshot = await getHolderSnapshot(nftContract, { blockNumber: requestBlock, fromBlock: deploymentBlock });
+        expect(snapshot.success).to.equal(true);
+        expect(snapshot.data!.holders).to.deep.equal([
+          { address: user1.address, balances: { 1: 6n } },
+          { address: user2.address, balances: { 1: 4n } }
+        ].sort((a, b) => a.address.toLowerCase().localeCompare(b.address.toLowerCase())));
+
+        const holdersResult = await getTokenHolders(nftContract, [1], deploymentBlock);
+        expect(holdersResult.success).to.equal(true);
+        expect(holdersResult.holders!.map(holder => holder.address)).to.not.include(contractAddress);
+
+        const distribution = computeProRataShares(holdersResult.holders!, BigInt(1_000_000));
+        expect((await distributeDividend(nftContract, distribution)).success).to.equal(true);
+      } finally {
+        fs.rmSync(indexDir, { recursive: true, force: true });
+      }
+
+      expect(await usdc.balanceOf(user1.address)).to.equal(600_000);
+      expect(await usdc.balanceOf(user2.address)).to.equal(400_000);
+      expect(await nftContract.getUSDCBalance()).to.equal(1_000_000_000 - 1_000_000);
+    });
+
+    it("Should not allow non-owner to pay dividends in batch", async function () {
+      await expect(
+        nftContract.connect(user1).payDividendBatch([user1.address], [1])
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Redemptions", function () {
+    let usdc: MockUSDC;
+
+    beforeEach(async function () {
+      const MockUSDC = await hre.ethers.getContractFactory("MockUSDC");
+      usdc = await MockUSDC.deploy();
+      await nftContract.setUSDCAddress(await usdc.getAddress());
+
+      await usdc.mint(owner.address, 1_000_000_000);
+      await usdc.approve(await nftContract.getAddress(), 1_000_000_000);
+      await nftContract.addUSDC(1_000_000_000);
+
+      await nftContract.mint(user1.address, 1, 10);
+    });
+
+    it("Should lock tokens in a pending request", async function () {
+      await expect(
+        nftContract.connect(user1).requestRedemption(1, 4, 40_000_000)
+      ).to.emit(nftContract, "RedemptionRequested")
+        .withArgs(1, user1.address, 1, 4, 40_000_000);
+
+      const request = await nftContract.redemptions(1);
+      expect(request.holder).to.equal(user1.address);
+      expect(request.status).to.equal(1); // Pending
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(6);
+      expect(await nftContract.balanceOf(await nftContract.getAddress(), 1)).to.equal(4);
+    });
+
+    it("Should burn and pay the requested price when accepted", async function () {
+      await nftContract.connect(user1).requestRedemption(1, 4, 40_000_000);
+
+      const tx = nftContract.acceptRedemption(1);
+      await expect(tx).to.emit(nftContract, "RedemptionAccepted").withArgs(1, 40_000_000);
+      await expect(tx).to.emit(nftContract, "TokenPayback").withArgs(1, user1.address, 4, 40_000_000);
+
+      expect(await usdc.balanceOf(user1.address)).to.equal(40_000_000);
+      expect(await nftContract.balanceOf(await nftContract.getAddress(), 1)).to.equal(0);
+      expect((await nftContract.getTokenInfo(1)).currentSupply).to.equal(6);
+      expect((await nftContract.redemptions(1)).status).to.equal(3); // Accepted
+    });
+
+    it("Should settle at the counter-offer when the holder accepts it", async function () {
+      await nftContract.connect(user1).requestRedemption(1, 4, 40_000_000);
+
+      await expect(nftContract.counterRedemption(1, 30_000_000))
+        .to.emit(nftContract, "RedemptionCountered").withArgs(1, 30_000_000);
+      await expect(nftContract.connect(user2).acceptCounterOffer(1))
+        .to.be.revertedWith("Not the redemption holder");
+
+      await nftContract.connect(user1).acceptCounterOffer(1);
+      expect(await usdc.balanceOf(user1.address)).to.equal(30_000_000);
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(6);
+    });
+
+    it("Should return the tokens when rejected or cancelled", async function () {
+      await nftContract.connect(user1).requestRedemption(1, 4, 40_000_000);
+      await nftContract.connect(user1).requestRedemption(1, 2, 20_000_000);
+
+      await expect(nftContract.rejectRedemption(1)).to.emit(nftContract, "RedemptionRejected").withArgs(1);
+      await expect(nftContract.connect(user1).cancelRedemption(2)).to.emit(nftContract, "RedemptionCancelled").withArgs(2);
+
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(10);
+      expect(await usdc.balanceOf(user1.address)).to.equal(0);
+      await expect(nftContract.acceptRedemption(1)).to.be.revertedWith("Redemption not open");
+    });
+
+    it("Should not allow accepting a request without enough USDC", async function () {
+      await nftContract.connect(user1).requestRedemption(1, 4, 2_000_000_000);
+
+      await expect(nftContract.acceptRedemption(1)).to.be.revertedWith("Insufficient USDC balance");
+      expect(await nftContract.balanceOf(await nftContract.getAddress(), 1)).to.equal(4);
+    });
+
+    it("Should not allow requesting more tokens than held", async function () {
+      await expect(
+        nftContract.connect(user1).requestRedemption(1, 11, 1)
+      ).to.be.revertedWith("Insufficient token balance");
+    });
+
+    it("Should not allow burning or paying back locked tokens", async function () {
+      await nftContract.connect(user1).requestRedemption(1, 4, 40_000_000);
+      const contractAddress = await nftContract.getAddress();
+
+      await expect(
+        nftContract.burn(contractAddress, 1, 4)
+      ).to.be.revertedWith("Tokens are locked for redemption");
+      await expect(
+        nftContract.payback(contractAddress, 1, 4, 1_000_000)
+      ).to.be.revertedWith("Tokens are locked for redemption");
+
+      await nftContract.connect(user1).cancelRedemption(1);
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(10);
+    });
+
+    it("Should restrict actions to the treasurer and the holder", async function () {
+      await nftContract.connect(user1).requestRedemption(1, 4, 40_000_000);
+
+      await expect(
+        nftContract.connect(user1).acceptRedemption(1)
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(
+        nftContract.connect(user2).cancelRedemption(1)
+      ).to.be.revertedWith("Not the redemption holder");
+    });
+  });
+
+  describe("Royalties", function () {
+    it("Should pay the default royalty to the deployer", async function () {
+      const [receiver, royaltyAmount] = await nftContract.royaltyInfo(1, 10_000_000);
+      expect(receiver).to.equal(owner.address);
+      expect(royaltyAmount).to.equal(500_000);
+    });
+
+    it("Should advertise ERC-2981, ERC-1155 and AccessControl", async function () {
+      expect(await nftContract.supportsInterface("0x2a55205a")).to.be.true;
+      expect(await nftContract.supportsInterface("0xd9b67a26")).to.be.true;
+      expect(await nftContract.supportsInterface("0x7965db0b")).to.be.true;
+    });
+
+    it("Should allow admin to change the default royalty", async function () {
+      await expect(nftContract.setDefaultRoyalty(user2.address, 750))
+        .to.emit(nftContract, "DefaultRoyaltySet").withArgs(user2.address, 750);
+
+      const [receiver, royaltyAmount] = await nftContract.royaltyInfo(3, 10_000);
+      expect(receiver).to.equal(user2.address);
+      expect(royaltyAmount).to.equal(750);
+    });
+
+    it("Should override and reset the royalty of a single token", async function () {
+      await expect(nftContract.setTokenRoyalty(2, user1.address, 1000))
+        .to.emit(nftContract, "TokenRoyaltySet").withArgs(2, user1.address, 1000);
+
+      expect(await nftContract.royaltyInfo(2, 10_000)).to.deep.equal([user1.address, 1000n]);
+      expect(await nftContract.royaltyInfo(1, 10_000)).to.deep.equal([owner.address, 500n]);
+
+      await expect(nftContract.resetTokenRoyalty(2)).to.emit(nftContract, "TokenRoyaltyReset").withArgs(2);
+      expect(await nftContract.royaltyInfo(2, 10_000)).to.deep.equal([owner.address, 500n]);
+    });
+
+    it("Should reject invalid royalty settings", async function () {
+      await expect(
+        nftContract.setDefaultRoyalty(user1.address, 10_001)
+      ).to.be.revertedWithCustomError(nftContract, "ERC2981InvalidDefaultRoyalty");
+      await expect(
+        nftContract.setTokenRoyalty(999, user1.address, 100)
+      ).to.be.revertedWith("Token does not exist");
+      await expect(
+        nftContract.resetTokenRoyalty(999)
+      ).to.be.revertedWith("Token does not exist");
+      await expect(
+        nftContract.connect(user1).setDefaultRoyalty(user1.address, 100)
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Transfer Restrictions", function () {
+    beforeEach(async function () {
+      await nftContract.mint(user1.address, 1, 10);
+      await nftContract.mint(user1.address, 2, 10);
+      await nftContract.setTransferRestricted(1, true);
+    });
+
+    it("Should only transfer restricted tokens between allowlisted investors", async function () {
+      await expect(nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 1, 1, "0x"))
+        .to.be.revertedWith("Sender not allowlisted");
+
+      await expect(nftContract.setAllowlisted([user1.address], true))
+        .to.emit(nftContract, "AllowlistUpdated").withArgs(user1.address, true);
+      await expect(nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 1, 1, "0x"))
+        .to.be.revertedWith("Recipient not allowlisted");
+      await expect(nftContract.connect(user1).safeBatchTransferFrom(user1.address, user2.address, [2, 1], [1, 1], "0x"))
+        .to.be.revertedWith("Recipient not allowlisted");
+
+      await nftContract.setAllowlisted([user2.address], true);
+      await nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 1, 1, "0x");
+      expect(await nftContract.balanceOf(user2.address, 1)).to.equal(1);
+    });
+
+    it("Should leave unrestricted tokens, mints and burns alone", async function () {
+      await nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 2, 1, "0x");
+      await nftContract.mint(user2.address, 1, 1);
+      await nftContract.connect(user2).burn(user2.address, 1, 1);
+      expect(await nftContract.balanceOf(user2.address, 2)).to.equal(1);
+    });
+
+    it("Should let non-allowlisted holders use redemption escrow", async function () {
+      const MockUSDC = await hre.ethers.getContractFactory("MockUSDC");
+      const usdc = await MockUSDC.deploy();
+      await nftContract.setUSDCAddress(await usdc.getAddress());
+
+      await nftContract.connect(user1).requestRedemption(1, 2, 20_000_000);
+      await nftContract.rejectRedemption(1);
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(10);
+    });
+
+    it("Should block frozen accounts from sending and receiving", async function () {
+      await expect(nftContract.setAccountFrozen(user2.address, true))
+        .to.emit(nftContract, "AccountFrozen").withArgs(user2.address, true);
+      await expect(nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 2, 1, "0x"))
+        .to.be.revertedWith("Recipient is frozen");
+
+      await nftContract.setAccountFrozen(user1.address, true);
+      await expect(nftContract.connect(user1).safeTransferFrom(user1.address, owner.address, 2, 1, "0x"))
+        .to.be.revertedWith("Sender is frozen");
+      await expect(nftContract.connect(user1).requestRedemption(2, 1, 1))
+        .to.be.revertedWith("Sender is frozen");
+
+      await nftContract.setAccountFrozen(user1.address, false);
+      await nftContract.connect(user1).safeTransferFrom(user1.address, owner.address, 2, 1, "0x");
+    });
+
+    it("Should only let compliance officers manage restrictions", async function () {
+      await expect(nftContract.connect(user1).setAllowlisted([user1.address], true))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.connect(user1).setAccountFrozen(user2.address, true))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.connect(user1).setTransferRestricted(2, true))
+        .to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+      await expect(nftContract.setTransferRestricted(99, true)).to.be.revertedWith("Token does not exist");
+    });
+
+    it("Should import the allowlist from CSV and explain rejected transfers", async function () {
+      const { rows, errors } = parseAllowlistCsv(`address,name\n${user1.address},Alice\n# pending KYC\n${user2.address}\n${user1.address}\nnot-an-address\n`);
+      expect(rows.map(row => row.address)).to.deep.equal([user1.address, user2.address]);
+      expect(errors).to.have.length(1);
+      expect(errors[0].line).to.equal(6);
+
+      const before = await checkTransfer(nftContract, user1.address, user2.address, 1, BigInt(1));
+      expect(before.allowed).to.be.false;
+      expect(before.reasons).to.have.length(2);
+
+      const result = await importAllowlist(nftContract, [user1.address, user2.address], true, undefined, { batchSize: 1 });
+      expect(result.success).to.be.true;
+      expect(result.transactionHashes).to.have.length(2);
+      expect((await importAllowlist(nftContract, [user1.address], true)).skipped).to.deep.equal([user1.address]);
+
+      expect((await checkTransfer(nftContract, user1.address, user2.address, 1, BigInt(1))).allowed).to.be.true;
+      const tooMuch = await checkTransfer(nftContract, user1.address, user2.address, 1, BigInt(11));
+      expect(tooMuch.allowed).to.be.false;
+      expect(tooMuch.reasons[0]).to.include("holds 10");
+    });
+  });
+
+  describe("Pausing", function () {
+    let usdc: MockUSDC;
+
+    beforeEach(async function () {
+      const MockUSDC = await hre.ethers.getContractFactory("MockUSDC");
+      usdc = await MockUSDC.deploy();
+      await nftContract.setUSDCAddress(await usdc.getAddress());
+
+      await usdc.mint(owner.address, 1_000_000_000);
+      await usdc.approve(await nftContract.getAddress(), 1_000_000_000);
+      await nftContract.addUSDC(500_000_000);
+
+      await nftContract.mint(user1.address, 1, 10);
+      await nftContract.connect(user1).requestRedemption(1, 2, 20_000_000);
+      await nftContract.counterRedemption(1, 15_000_000);
+      await nftContract.connect(user1).requestRedemption(1, 2, 20_000_000);
+
+      await expect(nftContract.pause()).to.emit(nftContract, "Paused").withArgs(owner.address);
+    });
+
+    it("Should halt transfers and burns", async function () {
+      await expect(
+        nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 1, 1, "0x")
+      ).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(
+        nftContract.connect(user1).safeBatchTransferFrom(user1.address, user2.address, [1], [1], "0x")
+      ).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(
+        nftContract.connect(user1).burn(user1.address, 1, 1)
+      ).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+    });
+
+    it("Should halt minting", async function () {
+      await expect(nftContract.mint(user2.address, 1, 1)).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(nftContract.mintBatch(user2.address, [1], [1])).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(nftContract.mintToMany([user2.address], [1], [1])).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+    });
+
+    it("Should halt treasury payouts", async function () {
+      await expect(nftContract.payback(user1.address, 1, 1, 1_000_000)).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(nftContract.payDividend(user1.address, 1_000_000)).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(nftContract.payDividendBatch([user1.address], [1_000_000])).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(nftContract.withdrawUSDC(1_000_000)).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+    });
+
+    it("Should halt new redemptions and settlements", async function () {
+      await expect(
+        nftContract.connect(user1).requestRedemption(1, 1, 10_000_000)
+      ).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(nftContract.acceptRedemption(2)).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+      await expect(
+        nftContract.connect(user1).acceptCounterOffer(1)
+      ).to.be.revertedWithCustomError(nftContract, "EnforcedPause");
+    });
+
+    it("Should keep returning escrowed tokens, counter-offers and deposits available", async function () {
+      await nftContract.connect(user1).cancelRedemption(1);
+      await nftContract.counterRedemption(2, 12_000_000);
+      await nftContract.rejectRedemption(2);
+      expect(await nftContract.balanceOf(user1.address, 1)).to.equal(10);
+
+      await nftContract.addUSDC(1_000_000);
+      expect(await nftContract.getUSDCBalance()).to.equal(501_000_000);
+    });
+
+    it("Should resume everything when unpaused", async function () {
+      await expect(nftContract.unpause()).to.emit(nftContract, "Unpaused").withArgs(owner.address);
+
+      await nftContract.connect(user1).safeTransferFrom(user1.address, user2.address, 1, 1, "0x");
+      await nftContract.mint(user2.address, 1, 1);
+      await nftContract.payDividend(user1.address, 1_000_000);
+      expect(await nftContract.balanceOf(user2.address, 1)).to.equal(2);
+    });
+
+    it("Should only let a pauser pause and unpause", async function () {
+      const pauserRole = await nftContract.PAUSER_ROLE();
+      await expect(
+        nftContract.connect(user1).unpause()
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, pauserRole);
+
+      await nftContract.grantRole(pauserRole, user1.address);
+      await nftContract.connect(user1).unpause();
+      await expect(
+        nftContract.connect(user2).pause()
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Roles", function () {
+    it("Should let a granted minter mint but nothing else", async function () {
+      const minterRole = await nftContract.MINTER_ROLE();
+      await expect(nftContract.grantRole(minterRole, user1.address))
+        .to.emit(nftContract, "RoleGranted").withArgs(minterRole, user1.address, owner.address);
+
+      await nftContract.connect(user1).mint(user2.address, 1, 3);
+      expect(await nftContract.balanceOf(user2.address, 1)).to.equal(3);
+
+      await expect(
+        nftContract.connect(user1).setBaseURI("https://example.com/")
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await nftContract.METADATA_MANAGER_ROLE());
+    });
+
+    it("Should send domain transactions from the signer holding the role", async function () {
+      await nftContract.grantRole(await nftContract.MINTER_ROLE(), user1.address);
+      await nftContract.grantRole(await nftContract.METADATA_MANAGER_ROLE(), user2.address);
+
+      // Each contract is loaded with an account that lacks the role
+      const minted = await mintToWallet(nftContract.connect(user2), user2.address, 1, 2, user1);
+      expect(minted.success).to.equal(true);
+      expect(await nftContract.balanceOf(user2.address, 1)).to.equal(2);
+
+      const updated = await updateBaseURI(nftContract.connect(user1), "https://example.com/{id}.json", user2);
+      expect(updated.success).to.equal(true);
+      expect(await nftContract.baseURITemplate()).to.equal("https://example.com/{id}.json");
+    });
+
+    it("Should not let a treasurer mint", async function () {
+      await nftContract.grantRole(await nftContract.TREASURER_ROLE(), user1.address);
+
+      await expect(
+        nftContract.connect(user1).mint(user1.address, 1, 1)
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await nftContract.MINTER_ROLE());
+    });
+
+    it("Should stop a revoked minter from minting", async function () {
+      const minterRole = await nftContract.MINTER_ROLE();
+      await nftContract.grantRole(minterRole, user1.address);
+      await nftContract.revokeRole(minterRole, user1.address);
+
+      await expect(
+        nftContract.connect(user1).mint(user1.address, 1, 1)
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should only let the admin grant roles", async function () {
+      await expect(
+        nftContract.connect(user1).grantRole(await nftContract.MINTER_ROLE(), user1.address)
+      ).to.be.revertedWithCustomError(nftContract, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await nftContract.DEFAULT_ADMIN_ROLE());
+    });
+  });
+
+  describe("Event Index", function () {
+    let contractAddress: string;
+    let indexDir: string;
+    let deploymentBlock: number;
+
+    const transfersTo = (address: string) => readIndexedEvents("31337", contractAddress, ["TransferSingle"])
+      .filter(event => event.args.to === address);
+
+    beforeEach(async function () {
+      contractAddress = await nftContract.getAddress();
+      indexDir = path.join(__dirname, "..", ".event-index", "31337", contractAddress.toLowerCase());
+      deploymentBlock = (await nftContract.deploymentTransaction()!.wait())!.blockNumber;
+      fs.rmSync(indexDir, { recursive: true, force: true });
+    });
+
+    afterEach(function () {
+      fs.rmSync(indexDir, { recursive: true, force: true });
+    });
+
+    it("Should resume after the last synced block", async function () {
+      const first = await syncContractEvents(nftContract, { fromBlock: deploymentBlock });
+      expect(first.success).to.equal(true);
+      expect(first.newEvents).to.be.greaterThan(0);
+
+      const receipt = await (await nftContract.mint(user1.address, 1, 5)).wait();
+      const second = await syncContractEvents(nftContract);
+
+      expect(second.success).to.equal(true);
+      expect(second.newEvents).to.equal(receipt!.logs.length);
+      expect(second.reorgedEvents).to.equal(0);
+      expect(second.state!.lastSyncedBlock).to.equal(await hre.ethers.provider.getBlockNumber());
+      expect(transfersTo(user1.address)).to.have.lengthOf(1);
+    });
+
+    it("Should replace events from reorged blocks", async function () {
+      expect((await syncContractEvents(nftContract, { fromBlock: deploymentBlock })).success).to.equal(true);
+
+      const snapshot = await hre.network.provider.send("evm_snapshot");
+      const reorged = await (await nftContract.mint(user1.address, 1, 5)).wait();
+      expect((await syncContractEvents(nftContract)).newEvents).to.equal(reorged!.logs.length);
+
+      // A different block at the same height replaces the mint
+      await hre.network.provider.send("evm_revert", [snapshot]);
+      const replacement = await (await nftContract.mint(user2.address, 1, 3)).wait();
+      const result = await syncContractEvents(nftContract);
+
+      expect(replacement!.blockNumber).to.equal(reorged!.blockNumber);
+      expect(result.success).to.equal(true);
+      expect(result.reorgedEvents).to.equal(reorged!.logs.length);
+      expect(result.newEvents).to.equal(replacement!.logs.length);
+      expect(transfersTo(user1.address)).to.have.lengthOf(0);
+      expect(transfersTo(user2.address).map(event => event.args.value)).to.deep.equal(["3"]);
+    });
+
+    it("Should refuse to sync after a reorg below the checkpoint", async function () {
+      await nftContract.mint(user1.address, 1, 5);
+      const snapshot = await hre.network.provider.send("evm_snapshot");
+      await nftContract.mint(user1.address, 1, 5);
+      const reorgedBlock = await hre.ethers.provider.getBlockNumber();
+
+      // Without re-checked blocks the last synced block is the checkpoint
+      const synced = await syncContractEvents(nftContract, { fromBlock: deploymentBlock, reorgDepth: 0 });
+      expect(synced.state!.checkpoint!.blockNumber).to.equal(reorgedBlock);
+
+      await hre.network.provider.send("evm_revert", [snapshot]);
+      await nftContract.mint(user2.address, 1, 3);
+      const result = await syncContractEvents(nftContract, { reorgDepth: 0 });
+
+      expect(result.success).to.equal(false);
+      expect(result.error).to.include(`Block ${reorgedBlock} changed since the last sync`);
+      expect(transfersTo(user2.address)).to.have.lengthOf(0);
+    });
+
+    it("Should report a block range that cannot be fetched as a gap", async function () {
+      await hre.network.provider.send("hardhat_mine", ["0x14"]);
+      await nftContract.mint(user1.address, 1, 5);
+
+      // The second chunk of 10 blocks keeps failing
+      const provider = nftContract.runner!.provider!;
+      const getLogs = provider.getLogs;
+      const failingBlock = deploymentBlock + 10;
+      provider.getLogs = function (filter) {
+        const { fromBlock, toBlock } = filter as Filter;
+        if (Number(fromBlock) <= failingBlock && failingBlock <= Number(toBlock)) {
+          return Promise.reject(new Error("rate limited"));
+        }
+        return getLogs.call(this, filter);
+      };
+
+      const result = await syncContractEvents(nftContract, { fromBlock: deploymentBlock, chunkSize: 10, maxRetries: 1 })
+        .finally(() => { provider.getLogs = getLogs; });
+
+      expect(result.success).to.equal(false);
+      expect(result.gap).to.deep.equal({
+        fromBlock: failingBlock,
+        toBlock: await hre.ethers.provider.getBlockNumber(),
+        error: "rate limited"
       });
+      expect(result.error).to.include(`Could not fetch blocks ${failingBlock}-`);
+      expect(result.state!.lastSyncedBlock).to.equal(failingBlock - 1);
+      expect(transfersTo(user1.address)).to.have.lengthOf(0);
+
+      // The next sync retries from the gap
+      const retried = await syncContractEvents(nftContract, { chunkSize: 10 });
+      expect(retried.success).to.equal(true);
+      expect(transfersTo(user1.address)).to.have.lengthOf(1);
+    });
+  });
+
+  describe("Address Book", function () {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "sotd-address-book-"));
+      filePath = path.join(dir, ".wallets.json");
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should resolve saved names and checksum addresses", async function () {
+      expect(addAddress("treasury", user1.address.toLowerCase(), filePath)).to.equal(user1.address);
+      expect(resolveAddress("treasury", filePath)).to.equal(user1.address);
+      expect(resolveAddress(user2.address.toLowerCase(), filePath)).to.equal(user2.address);
+
+      // Object prototype keys are not address book names
+      expect(() => resolveAddress("constructor", filePath)).to.throw('unknown address book name "constructor"');
+      expect(() => resolveAddress("toString", filePath)).to.throw('unknown address book name "toString"');
+      expect(() => removeAddress("constructor", filePath)).to.throw('No address book entry named "constructor"');
+      expect(addAddress("toString", user2.address, filePath)).to.equal(user2.address);
+    });
+
+    it("Should reject addresses with a bad checksum", async function () {
+      // Flip the case of the first letter in the address
+      const index = user1.address.slice(2).search(/[a-fA-F]/) + 2;
+      const char = user1.address[index];
+      const badChecksum = user1.address.slice(0, index)
+        + (char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase())
+        + user1.address.slice(index + 1);
+
+      expect(() => resolveAddress(badChecksum, filePath)).to.throw(`Invalid checksum for address "${badChecksum}"`);
+      expect(() => addAddress("treasury", badChecksum, filePath)).to.throw("wrong length, characters or checksum");
+      expect(loadAddressBook(filePath)).to.deep.equal({});
+    });
+
+    it("Should reject duplicate names and addresses", async function () {
+      addAddress("treasury", user1.address, filePath);
+
+      expect(() => addAddress("treasury", user2.address, filePath))
+        .to.throw(`Name "treasury" is already used for ${user1.address}`);
+      expect(() => addAddress("ops", user1.address.toLowerCase(), filePath))
+        .to.throw(`${user1.address} is already saved as "treasury"`);
+
+      // Duplicates added by hand are reported
+      fs.writeFileSync(filePath, JSON.stringify({ ops: user1.address.toLowerCase(), treasury: user1.address }));
+      expect(validateAddressBook(filePath)).to.deep.equal([{ name: "treasury", message: 'Same address as "ops"' }]);
+    });
+
+    it("Should rename entries", async function () {
+      addAddress("treasury", user1.address, filePath);
+      addAddress("ops", user2.address, filePath);
+
+      renameAddress("treasury", "vault", filePath);
+      expect(loadAddressBook(filePath)).to.deep.equal({ ops: user2.address, vault: user1.address });
+
+      expect(() => renameAddress("treasury", "other", filePath)).to.throw('No address book entry named "treasury"');
+      expect(() => renameAddress("vault", "ops", filePath)).to.throw(`Name "ops" is already used for ${user2.address}`);
+      expect(() => renameAddress("vault", "bad name", filePath)).to.throw('Invalid name "bad name"');
+    });
+  });
+
+  describe("Deployment Registry", function () {
+    let dir: string;
+    let registryPath: string;
+
+    const record = (contractAddress: string, chainId: string, label?: string) => ({
+      contractAddress,
+      network: chainId === "31337" ? "hardhat" : "amoy",
+      chainId,
+      deployer: owner.address,
+      deployedAt: new Date().toISOString(),
+      label
+    });
+    const errorOf = (promise: Promise<unknown>) => promise.then(() => "resolved", (error: Error) => error.message);
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "sotd-registry-"));
+      registryPath = path.join(dir, ".deployments.json");
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
     });
 
+    it("Should refuse to run when no deployment matches the connected chain", async function () {
+      addDeployment(record(await nftContract.getAddress(), "80002"), registryPath);
+
+      expect(await errorOf(getCurrentContract(registryPath))).to.include("No deployment found for chain 31337");
+    });
+
+    it("Should pick the deployment of the connected chain", async function () {
+      const address = await nftContract.getAddress();
+      addDeployment(record(address, "31337"), registryPath);
+      addDeployment(record(user1.address, "80002"), registryPath);
+
+      expect((await getCurrentContract(registryPath)).contractAddress).to.equal(address);
+      expect(getDeployments("80002", registryPath).map(deployment => deployment.contractAddress)).to.deep.equal([user1.address]);
+    });
+
+    it("Should select a deployment by label", async function () {
+      const v1 = await nftContract.getAddress();
+      const v2 = await (await (await hre.ethers.getContractFactory("SecretOfTheDeepNFT")).deploy()).getAddress();
+      addDeployment(record(v1, "31337", "v1"), registryPath);
+      addDeployment(record(v2, "31337", "v2"), registryPath);
+
+      // The latest deployment is selected by default
+      expect((await getCurrentContract(registryPath)).label).to.equal("v2");
+
+      expect(selectDeployment("31337", "v1", registryPath).contractAddress).to.equal(v1);
+      expect((await getCurrentContract(registryPath)).contractAddress).to.equal(v1);
+      expect(getDeployments("31337", registryPath).map(deployment => deployment.selected)).to.deep.equal([true, false]);
+      expect(() => selectDeployment("31337", "v3", registryPath)).to.throw('No deployment "v3" found for chain 31337');
+    });
+
+    it("Should import a legacy .current.json", async function () {
+      const address = await nftContract.getAddress();
+      fs.writeFileSync(path.join(dir, ".current.json"), JSON.stringify(record(address, "31337")));
+
+      expect((await getCurrentContract(registryPath)).contractAddress).to.equal(address);
+      expect(findDeployment("31337", address.toLowerCase(), registryPath)?.contractAddress).to.equal(address);
+
+      // The first write moves the legacy record into the registry
+      updateDeployment({ ...record(address, "31337"), deploymentBlock: 1 }, registryPath);
+      fs.rmSync(path.join(dir, ".current.json"));
+      expect(findDeployment("31337", address, registryPath)?.deploymentBlock).to.equal(1);
+    });
+
+    it("Should keep a label when redeploying to the same address", async function () {
+      const address = await nftContract.getAddress();
+      addDeployment(record(address, "31337", "v1"), registryPath);
+
+      // e.g. after a local node restart
+      addDeployment(record(address, "31337", "v1"), registryPath);
+      expect(getDeployments("31337", registryPath)).to.have.lengthOf(1);
+
+      expect(() => addDeployment(record(user1.address, "31337", "v1"), registryPath))
+        .to.throw(`Label "v1" is already used by ${address} on chain 31337`);
+    });
+  });
+
+  describe("Safe Batches", function () {
+    let dir: string;
+    let batchPath: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "sotd-safe-batch-"));
+      batchPath = path.join(dir, "batch.json");
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should write calls the Transaction Builder can decode", async function () {
+      const address = await nftContract.getAddress();
+      const transaction = encodeSafeTransaction(address, nftContract.interface, "mintBatch", [user1.address, [1n, 2n], [5n, 6n]]);
+      appendToSafeBatch(batchPath, [transaction], { chainId: "31337", safeAddress: user2.address.toLowerCase() });
+
+      const batch: SafeBatchFile = JSON.parse(fs.readFileSync(batchPath, "utf8"));
+      expect(batch.chainId).to.equal("31337");
+      expect(batch.meta.createdFromSafeAddress).to.equal(user2.address);
+      expect(batch.meta.name).to.equal("batch");
+      expect(batch.transactions[0]).to.deep.include({ to: address, value: "0" });
+      expect(batch.transactions[0].contractInputsValues).to.deep.equal({ to: user1.address, tokenIds: '["1","2"]', amounts: '["5","6"]' });
+
+      const decoded = nftContract.interface.decodeFunctionData("mintBatch", batch.transactions[0].data);
+      expect(decoded.toArray(true)).to.deep.equal([user1.address, [1n, 2n], [5n, 6n]]);
+
+      expect(() => encodeSafeTransaction(address, nftContract.interface, "mintAll", [])).to.throw("Function mintAll not found");
+    });
+
+    it("Should checksum the batch without its name", async function () {
+      const transaction = encodeSafeTransaction(await nftContract.getAddress(), nftContract.interface, "pause", []);
+      const batch = appendToSafeBatch(batchPath, [transaction], { chainId: "31337", safeAddress: user2.address });
+
+      const { checksum, ...meta } = batch.meta;
+      expect(checksum).to.match(/^0x[0-9a-f]{64}$/);
+      expect(calculateSafeBatchChecksum({ ...batch, meta })).to.equal(checksum);
+      expect(calculateSafeBatchChecksum({ ...batch, meta: { ...meta, name: "Renamed" } })).to.equal(checksum);
+      expect(calculateSafeBatchChecksum({ ...batch, meta, transactions: [{ ...transaction, value: "1" }] })).to.not.equal(checksum);
+    });
+
+    it("Should append to an existing batch", async function () {
+      const address = await nftContract.getAddress();
+      const target = { chainId: "31337", safeAddress: user2.address };
+      const first = appendToSafeBatch(batchPath, [encodeSafeTransaction(address, nftContract.interface, "pause", [])], target);
+      const second = appendToSafeBatch(batchPath, [encodeSafeTransaction(address, nftContract.interface, "unpause", [])], target);
+
+      expect(second.transactions.map(transaction => transaction.contractMethod.name)).to.deep.equal(["pause", "unpause"]);
+      expect(second.createdAt).to.equal(first.createdAt);
+      expect(second.meta.checksum).to.not.equal(first.meta.checksum);
+      expect(JSON.parse(fs.readFileSync(batchPath, "utf8")).meta.checksum).to.equal(second.meta.checksum);
+    });
+
+    it("Should refuse to append to a batch for another chain or Safe", async function () {
+      const transaction = encodeSafeTransaction(await nftContract.getAddress(), nftContract.interface, "pause", []);
+      appendToSafeBatch(batchPath, [transaction], { chainId: "31337", safeAddress: user2.address });
+
+      expect(() => appendToSafeBatch(batchPath, [transaction], { chainId: "137", safeAddress: user2.address }))
+        .to.throw(`${batchPath} is a batch for chain 31337, not chain 137`);
+      expect(() => appendToSafeBatch(batchPath, [transaction], { chainId: "31337", safeAddress: user1.address }))
+        .to.throw(`${batchPath} is a batch for Safe ${user2.address}, not ${user1.address}`);
+      expect(loadSafeBatch(batchPath)!.transactions).to.have.lengthOf(1);
+    });
+
+    it("Should find the Safe holding a role", async function () {
+      const indexDir = path.join(__dirname, "..", ".event-index", "31337", (await nftContract.getAddress()).toLowerCase());
+      fs.rmSync(indexDir, { recursive: true, force: true });
+
+      try {
+        const deploymentBlock = (await nftContract.deploymentTransaction()!.wait())!.blockNumber;
+        expect((await syncContractEvents(nftContract, { fromBlock: deploymentBlock })).success).to.equal(true);
+
+        expect(await findSafeForRole(hre, nftContract, "minter").then(() => "resolved", (error: Error) => error.message))
+          .to.equal("No minter is a Safe. Grant the minter role to the Safe, then create the batch.");
+
+        // Any contract account stands in for a Safe
+        const safe = await (await (await hre.ethers.getContractFactory("MockUSDC")).deploy()).getAddress();
+        await nftContract.grantRole(await nftContract.MINTER_ROLE(), safe);
+        expect(await findSafeForRole(hre, nftContract, "minter")).to.equal(safe);
+      } finally {
+        fs.rmSync(indexDir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe("ERC-1155 Standard Functions", function () {
     beforeEach(async function () {
       await nftContract.mint(user1.address, 1, 10);
@@ -289,4 +1672,48 @@ describe("SecretOfTheDeepNFT", function () {
       expect(await nftContract.isApprovedForAll(user1.address, user2.address)).to.be.true;
     });
   });
+
+  describe("Gas Benchmarks", function () {
+    // Measured cost plus ~5% headroom; lower a budget when a change makes its call cheaper
+    const GAS_BUDGETS: Record<string, bigint> = {
+      uri: BigInt(54_000),
+      mint: BigInt(66_000),
+      mintBatch: BigInt(136_000),
+      payback: BigInt(86_000)
+    };
+
+    const receiptGas = async (tx: Promise<ContractTransactionResponse>): Promise<bigint> => {
+      const receipt = await (await tx).wait();
+      if (!receipt) {
+        throw new Error("Transaction was not mined");
+      }
+      return receipt.gasUsed;
+    };
+
+    it("Should resolve uri within budget", async function () {
+      const gasUsed = await nftContract.uri.estimateGas(1);
+      expect(gasUsed).to.be.at.most(GAS_BUDGETS.uri);
+    });
+
+    it("Should mint within budget", async function () {
+      const gasUsed = await receiptGas(nftContract.mint(user1.address, 1, 5));
+      expect(gasUsed).to.be.at.most(GAS_BUDGETS.mint);
+    });
+
+    it("Should batch mint within budget", async function () {
+      const gasUsed = await receiptGas(nftContract.mintBatch(user1.address, [1, 2, 3], [5, 5, 5]));
+      expect(gasUsed).to.be.at.most(GAS_BUDGETS.mintBatch);
+    });
+
+    it("Should pay back within budget", async function () {
+      const MockUSDC = await hre.ethers.getContractFactory("MockUSDC");
+      const usdc = await MockUSDC.deploy();
+      await nftContract.setUSDCAddress(await usdc.getAddress());
+      await usdc.mint(await nftContract.getAddress(), 1_000_000_000);
+      await nftContract.mint(user1.address, 1, 5);
+
+      const gasUsed = await receiptGas(nftContract.payback(user1.address, 1, 2, 20_000_000));
+      expect(gasUsed).to.be.at.most(GAS_BUDGETS.payback);
+    });
+  });
 });